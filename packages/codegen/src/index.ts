@@ -0,0 +1,11 @@
+export { generateTypes, toTypeName } from './lib/generateTypes.js';
+export { parseSchema, loadSchemaFromFile, fetchSchema } from './lib/loadSchema.js';
+export { runCli } from './lib/cli.js';
+export type {
+  FieldSchema,
+  ModelSchema,
+  SchemaDocument,
+  GenerateOptions,
+  FetchSchemaOptions
+} from './lib/types.js';
+export type { CliIO } from './lib/cli.js';
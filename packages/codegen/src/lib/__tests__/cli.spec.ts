@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../cli';
+
+describe('runCli', () => {
+  let directory: string;
+  let io: { log: ReturnType<typeof vi.fn>; error: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'growcado-cli-'));
+    io = { log: vi.fn(), error: vi.fn() };
+    await writeFile(
+      join(directory, 'models.json'),
+      JSON.stringify({ models: [{ identifier: 'hero', fields: [{ identifier: 'title', type: 'text', required: true }] }] })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write generated types to the output file', async () => {
+    const outPath = join(directory, 'generated', 'models.ts');
+
+    const exitCode = await runCli(['codegen', '--schema', join(directory, 'models.json'), '--out', outPath], io);
+
+    expect(exitCode).toBe(0);
+    expect(await readFile(outPath, 'utf8')).toContain('export interface Hero {');
+    expect(io.log).toHaveBeenCalledWith(`[growcado] Generated types for 1 model(s) in ${outPath}`);
+  });
+
+  it('should print to stdout when the output is "-"', async () => {
+    const exitCode = await runCli(['codegen', `--schema=${join(directory, 'models.json')}`, '--out', '-'], io);
+
+    expect(exitCode).toBe(0);
+    expect(io.log.mock.calls[0][0]).toContain('hero: Hero;');
+  });
+
+  it('should require a schema source', async () => {
+    const exitCode = await runCli(['codegen'], io);
+
+    expect(exitCode).toBe(1);
+    expect(io.error).toHaveBeenCalledWith('[growcado] Either --schema or --tenant is required.');
+  });
+
+  it('should report unknown commands', async () => {
+    const exitCode = await runCli(['deploy'], io);
+
+    expect(exitCode).toBe(1);
+    expect(io.error.mock.calls[0][0]).toContain('[growcado] Unknown command "deploy".');
+  });
+
+  it('should report options without values', async () => {
+    const exitCode = await runCli(['codegen', '--schema'], io);
+
+    expect(exitCode).toBe(1);
+    expect(io.error).toHaveBeenCalledWith('[growcado] Option --schema requires a value.');
+  });
+
+  it('should print usage for --help', async () => {
+    const exitCode = await runCli(['codegen', '--help'], io);
+
+    expect(exitCode).toBe(0);
+    expect(io.log.mock.calls[0][0]).toContain('Usage: growcado codegen [options]');
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { generateTypes, toTypeName } from '../generateTypes';
+import type { SchemaDocument } from '../types';
+
+describe('generateTypes', () => {
+  it('should render an interface per model with required and optional fields', () => {
+    const schema: SchemaDocument = {
+      models: [
+        {
+          identifier: 'hero',
+          description: 'Homepage hero',
+          fields: [
+            { identifier: 'title', type: 'text', required: true },
+            { identifier: 'subtitle', type: 'richText' },
+            { identifier: 'priority', type: 'integer' },
+            { identifier: 'visible', type: 'boolean', required: true }
+          ]
+        }
+      ]
+    };
+
+    const output = generateTypes(schema);
+
+    expect(output).toContain(`/** Homepage hero */
+export interface Hero {
+  title: string;
+  subtitle?: string;
+  priority?: number;
+  visible: boolean;
+}`);
+  });
+
+  it('should emit a ModelMap and augment the SDK ContentModelMap', () => {
+    const output = generateTypes({
+      models: [
+        { identifier: 'hero', fields: [] },
+        { identifier: 'blog-post', fields: [] }
+      ]
+    });
+
+    expect(output).toContain(`export interface ModelMap {
+  hero: Hero;
+  "blog-post": BlogPost;
+}`);
+    expect(output).toContain(`declare module '@growcado/sdk' {
+  interface ContentModelMap extends ModelMap {}
+}`);
+  });
+
+  it('should augment a custom SDK module', () => {
+    const output = generateTypes({ models: [] }, { sdkModule: '@acme/growcado' });
+
+    expect(output).toContain(`declare module '@acme/growcado' {`);
+  });
+
+  it('should prefer the model name for the interface name', () => {
+    const output = generateTypes({
+      models: [{ identifier: 'hp_hero', name: 'Homepage Hero', fields: [] }]
+    });
+
+    expect(output).toContain('export interface HomepageHero {}');
+    expect(output).toContain('hp_hero: HomepageHero;');
+  });
+
+  it('should suffix interface names that collide with each other or the generated types', () => {
+    const output = generateTypes({
+      models: [
+        { identifier: 'hero-banner', fields: [{ identifier: 'title', type: 'text' }] },
+        { identifier: 'hero_banner', fields: [{ identifier: 'image', type: 'media' }] },
+        { identifier: 'model-map', fields: [{ identifier: 'related', type: 'reference', model: 'hero_banner' }] },
+        { identifier: 'growcado-asset', fields: [] }
+      ]
+    });
+
+    expect(output).toContain('export interface HeroBanner {\n  title?: string;\n}');
+    expect(output).toContain('export interface HeroBanner2 {\n  image?: GrowcadoAsset;\n}');
+    expect(output).toContain('export interface ModelMap2 {\n  related?: HeroBanner2;\n}');
+    expect(output).toContain('export interface GrowcadoAsset2 {}');
+    expect(output).toContain(`export interface ModelMap {
+  "hero-banner": HeroBanner;
+  hero_banner: HeroBanner2;
+  "model-map": ModelMap2;
+  "growcado-asset": GrowcadoAsset2;
+}`);
+  });
+
+  it('should escape comment terminators in descriptions', () => {
+    const output = generateTypes({
+      models: [
+        {
+          identifier: 'hero',
+          description: 'Matches /pages/*/hero',
+          fields: [{ identifier: 'title', type: 'text', description: 'Ends early */ otherwise' }]
+        }
+      ]
+    });
+
+    expect(output).toContain('/** Matches /pages/*\\/hero */');
+    expect(output).toContain('/** Ends early *\\/ otherwise */');
+  });
+
+  it('should escape quotes, backslashes and line breaks in keys and enum options', () => {
+    const output = generateTypes({
+      models: [
+        {
+          identifier: 'hero',
+          fields: [
+            { identifier: "it's", type: 'text' },
+            { identifier: 'line\nbreak', type: 'text' },
+            { identifier: 'variant', type: 'enum', options: ['b\\c', 'multi\nline', 'say "hi"'] }
+          ]
+        }
+      ]
+    });
+
+    expect(output).toContain(`export interface Hero {
+  "it's"?: string;
+  "line\\nbreak"?: string;
+  variant?: "b\\\\c" | "multi\\nline" | "say \\"hi\\"";
+}`);
+  });
+
+  it('should map references, lists, enums, media and nested objects', () => {
+    const output = generateTypes({
+      models: [
+        {
+          identifier: 'card',
+          fields: [{ identifier: 'label', type: 'text', required: true }]
+        },
+        {
+          identifier: 'page',
+          fields: [
+            { identifier: 'cards', type: 'list', required: true, items: { type: 'reference', model: 'card' } },
+            { identifier: 'layout', type: 'enum', options: ['wide', 'narrow'] },
+            { identifier: 'sizes', type: 'list', items: { type: 'enum', options: ['s', 'm'] } },
+            { identifier: 'image', type: 'media' },
+            { identifier: 'data-attrs', type: 'json' },
+            {
+              identifier: 'seo',
+              type: 'object',
+              fields: [{ identifier: 'title', type: 'text', description: 'Meta title' }]
+            },
+            { identifier: 'owner', type: 'reference', model: 'missing-model' },
+            { identifier: 'custom', type: 'geo-point' }
+          ]
+        }
+      ]
+    });
+
+    expect(output).toContain(`export interface GrowcadoAsset {
+  url: string;
+  [key: string]: unknown;
+}`);
+    expect(output).toContain(`export interface Page {
+  cards: Card[];
+  layout?: "wide" | "narrow";
+  sizes?: Array<"s" | "m">;
+  image?: GrowcadoAsset;
+  "data-attrs"?: unknown;
+  seo?: {
+    /** Meta title */
+    title?: string;
+  };
+  owner?: unknown;
+  custom?: unknown;
+}`);
+  });
+
+  it('should only emit the asset interface when media fields are used', () => {
+    const output = generateTypes({
+      models: [{ identifier: 'hero', fields: [{ identifier: 'title', type: 'text' }] }]
+    });
+
+    expect(output).not.toContain('GrowcadoAsset');
+  });
+});
+
+describe('toTypeName', () => {
+  it('should convert identifiers to PascalCase', () => {
+    expect(toTypeName('blog-post')).toBe('BlogPost');
+    expect(toTypeName('product_card')).toBe('ProductCard');
+    expect(toTypeName('heroBanner')).toBe('HeroBanner');
+  });
+
+  it('should keep names valid when they start with a digit', () => {
+    expect(toTypeName('404-page')).toBe('Model404Page');
+  });
+});
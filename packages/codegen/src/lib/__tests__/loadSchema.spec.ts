@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseSchema, loadSchemaFromFile, fetchSchema } from '../loadSchema';
+
+describe('loadSchema', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('parseSchema', () => {
+    it('should accept an object with a models array', () => {
+      const schema = parseSchema({ models: [{ identifier: 'hero', fields: [] }] });
+
+      expect(schema.models).toHaveLength(1);
+    });
+
+    it('should accept a bare array of models', () => {
+      const schema = parseSchema([{ identifier: 'hero', fields: [] }]);
+
+      expect(schema.models[0].identifier).toBe('hero');
+    });
+
+    it('should reject documents without models', () => {
+      expect(() => parseSchema({})).toThrow('Invalid schema: expected an array of models');
+    });
+
+    it('should reject models without an identifier or fields', () => {
+      expect(() => parseSchema([{ fields: [] }])).toThrow('model at index 0 is missing an identifier');
+      expect(() => parseSchema([{ identifier: 'hero' }])).toThrow('model "hero" is missing a fields array');
+    });
+  });
+
+  describe('loadSchemaFromFile', () => {
+    it('should read and parse a local schema file', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'growcado-codegen-'));
+      const schemaPath = join(directory, 'models.json');
+      await writeFile(schemaPath, JSON.stringify({ models: [{ identifier: 'hero', fields: [] }] }));
+
+      const schema = await loadSchemaFromFile(schemaPath);
+
+      expect(schema.models[0].identifier).toBe('hero');
+      await rm(directory, { recursive: true, force: true });
+    });
+  });
+
+  describe('fetchSchema', () => {
+    it('should fetch the schema exported by a tenant', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ models: [{ identifier: 'hero', fields: [] }] })
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const schema = await fetchSchema({ tenantId: 'my-tenant', baseURL: 'https://api.example.com', token: 'secret' });
+
+      expect(schema.models).toHaveLength(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(String(url)).toBe('https://api.example.com/cms/tenant/my-tenant/models');
+      expect(init.headers['Authorization']).toBe('Bearer secret');
+    });
+
+    it('should throw when the request fails', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401, statusText: 'Unauthorized' }));
+
+      await expect(fetchSchema({ tenantId: 'my-tenant' })).rejects.toThrow(
+        'Failed to fetch schema for tenant "my-tenant": 401 Unauthorized'
+      );
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { generateTypes } from './generateTypes.js';
+import { fetchSchema, loadSchemaFromFile } from './loadSchema.js';
+
+export interface CliIO {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+const USAGE = `Usage: growcado codegen [options]
+
+Options:
+  --schema <file>       Read the model schema JSON from a local file
+  --tenant <id>         Fetch the model schema exported by a tenant
+  --base-url <url>      API base URL (default: https://api.growcado.io/)
+  --token <token>       API token used to fetch the schema
+  --out <file>          Output file, or "-" for stdout (default: growcado-models.ts)
+  --sdk-module <name>   Module to augment (default: @growcado/sdk)
+  --help                Show this message`;
+
+function parseArgs(args: string[]): Record<string, string | true> {
+  const options: Record<string, string | true> = {};
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument "${arg}".`);
+    }
+
+    const [name, inlineValue] = arg.substring(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      options[name] = inlineValue;
+    } else if (args[index + 1] !== undefined && !args[index + 1].startsWith('--')) {
+      options[name] = args[++index];
+    } else {
+      options[name] = true;
+    }
+  }
+
+  return options;
+}
+
+function stringOption(options: Record<string, string | true>, name: string): string | undefined {
+  const value = options[name];
+  if (value === true) {
+    throw new Error(`Option --${name} requires a value.`);
+  }
+  return value;
+}
+
+/**
+ * Runs the growcado CLI and resolves with the process exit code.
+ */
+export async function runCli(argv: string[], io: CliIO = console): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '--help' || command === 'help') {
+    io.log(USAGE);
+    return command ? 0 : 1;
+  }
+
+  if (command !== 'codegen') {
+    io.error(`[growcado] Unknown command "${command}".\n\n${USAGE}`);
+    return 1;
+  }
+
+  try {
+    const options = parseArgs(args);
+    if (options['help']) {
+      io.log(USAGE);
+      return 0;
+    }
+
+    const schemaPath = stringOption(options, 'schema');
+    const tenantId = stringOption(options, 'tenant');
+    if (!schemaPath && !tenantId) {
+      throw new Error('Either --schema or --tenant is required.');
+    }
+
+    const schema = schemaPath
+      ? await loadSchemaFromFile(schemaPath)
+      : await fetchSchema({
+          tenantId: tenantId as string,
+          baseURL: stringOption(options, 'base-url'),
+          token: stringOption(options, 'token'),
+        });
+
+    const output = generateTypes(schema, { sdkModule: stringOption(options, 'sdk-module') });
+    const outPath = stringOption(options, 'out') ?? 'growcado-models.ts';
+
+    if (outPath === '-') {
+      io.log(output);
+    } else {
+      await mkdir(dirname(outPath), { recursive: true });
+      await writeFile(outPath, output, 'utf8');
+      io.log(`[growcado] Generated types for ${schema.models.length} model(s) in ${outPath}`);
+    }
+
+    return 0;
+  } catch (error) {
+    io.error(`[growcado] ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
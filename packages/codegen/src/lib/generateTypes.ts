@@ -0,0 +1,127 @@
+import type { FieldSchema, GenerateOptions, ModelSchema, SchemaDocument } from './types.js';
+
+const STRING_TYPES = ['text', 'string', 'richText', 'slug', 'email', 'url', 'date', 'datetime'];
+const NUMBER_TYPES = ['number', 'integer', 'float'];
+
+const ASSET_INTERFACE = `export interface GrowcadoAsset {
+  url: string;
+  [key: string]: unknown;
+}`;
+
+export function toTypeName(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+
+  return /^[0-9]/.test(name) ? `Model${name}` : name || 'Model';
+}
+
+// JSON string syntax is valid TypeScript and escapes quotes, backslashes and line breaks
+function toStringLiteral(value: string): string {
+  return JSON.stringify(value);
+}
+
+function toPropertyKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : toStringLiteral(key);
+}
+
+// A description containing */ would end the comment early
+function renderDoc(description: string | undefined): string {
+  return description ? `/** ${description.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+function indent(text: string, depth: number): string {
+  return text.split('\n').map(line => (line ? '  '.repeat(depth) + line : line)).join('\n');
+}
+
+class TypeGenerator {
+  private usesAsset = false;
+  private modelNames: Map<string, string>;
+
+  constructor(private models: ModelSchema[]) {
+    // Names that collide, e.g. hero-banner and hero_banner, or with the generated ModelMap and
+    // GrowcadoAsset get a numeric suffix, as same-named interfaces would silently merge
+    const usedNames = new Set(['ModelMap', 'GrowcadoAsset']);
+    this.modelNames = new Map(models.map(model => {
+      const baseName = toTypeName(model.name ?? model.identifier);
+      let name = baseName;
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${baseName}${suffix}`;
+      }
+      usedNames.add(name);
+      return [model.identifier, name];
+    }));
+  }
+
+  generate(sdkModule: string): string {
+    const interfaces = this.models.map(model => this.renderModel(model));
+
+    const modelMapEntries = this.models
+      .map(model => `  ${toPropertyKey(model.identifier)}: ${this.modelNames.get(model.identifier)};`)
+      .join('\n');
+
+    const sections = [
+      '/* eslint-disable */\n// This file is generated by `growcado codegen`. Do not edit it by hand.',
+      ...(this.usesAsset ? [ASSET_INTERFACE] : []),
+      ...interfaces,
+      `export interface ModelMap {\n${modelMapEntries}\n}`,
+      `declare module '${sdkModule}' {\n  interface ContentModelMap extends ModelMap {}\n}`
+    ];
+
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  private renderModel(model: ModelSchema): string {
+    const doc = renderDoc(model.description);
+    return `${doc}export interface ${this.modelNames.get(model.identifier)} ${this.renderFields(model.fields)}`;
+  }
+
+  private renderFields(fields: FieldSchema[]): string {
+    if (fields.length === 0) return '{}';
+
+    const lines = fields.map(field => {
+      const doc = renderDoc(field.description);
+      const optional = field.required ? '' : '?';
+      return indent(`${doc}${toPropertyKey(field.identifier)}${optional}: ${this.renderType(field)};`, 1);
+    });
+
+    return `{\n${lines.join('\n')}\n}`;
+  }
+
+  private renderType(field: Omit<FieldSchema, 'identifier'>): string {
+    if (STRING_TYPES.includes(field.type)) return 'string';
+    if (NUMBER_TYPES.includes(field.type)) return 'number';
+
+    switch (field.type) {
+      case 'boolean':
+        return 'boolean';
+      case 'media':
+        this.usesAsset = true;
+        return 'GrowcadoAsset';
+      case 'reference':
+        return (field.model && this.modelNames.get(field.model)) || 'unknown';
+      case 'enum':
+        return field.options && field.options.length > 0
+          ? field.options.map(toStringLiteral).join(' | ')
+          : 'string';
+      case 'list': {
+        const itemType = field.items ? this.renderType(field.items) : 'unknown';
+        return /[|&]/.test(itemType) ? `Array<${itemType}>` : `${itemType}[]`;
+      }
+      case 'object':
+        return this.renderFields(field.fields ?? []);
+      default:
+        return 'unknown';
+    }
+  }
+}
+
+/**
+ * Renders TypeScript interfaces for every model plus a ModelMap that augments the
+ * SDK's ContentModelMap, so getContent() infers types from the model identifier.
+ */
+export function generateTypes(schema: SchemaDocument, options: GenerateOptions = {}): string {
+  return new TypeGenerator(schema.models).generate(options.sdkModule ?? '@growcado/sdk');
+}
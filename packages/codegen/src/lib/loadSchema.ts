@@ -0,0 +1,48 @@
+import { readFile } from 'fs/promises';
+import type { FetchSchemaOptions, ModelSchema, SchemaDocument } from './types.js';
+
+/**
+ * Validates raw schema JSON. Accepts either `{ models: [...] }` or a bare array of models.
+ */
+export function parseSchema(json: unknown): SchemaDocument {
+  const models = Array.isArray(json) ? json : (json as { models?: unknown } | null)?.models;
+  if (!Array.isArray(models)) {
+    throw new Error('Invalid schema: expected an array of models or an object with a "models" array.');
+  }
+
+  models.forEach((model: Partial<ModelSchema>, index) => {
+    if (!model || typeof model.identifier !== 'string' || !model.identifier) {
+      throw new Error(`Invalid schema: model at index ${index} is missing an identifier.`);
+    }
+    if (!Array.isArray(model.fields)) {
+      throw new Error(`Invalid schema: model "${model.identifier}" is missing a fields array.`);
+    }
+  });
+
+  return { models: models as ModelSchema[] };
+}
+
+export async function loadSchemaFromFile(path: string): Promise<SchemaDocument> {
+  const contents = await readFile(path, 'utf8');
+  return parseSchema(JSON.parse(contents));
+}
+
+/**
+ * Fetches the model schema exported by a tenant.
+ */
+export async function fetchSchema(options: FetchSchemaOptions): Promise<SchemaDocument> {
+  const baseURL = options.baseURL || 'https://api.growcado.io/';
+  const url = new URL(`cms/tenant/${encodeURIComponent(options.tenantId)}/models`, baseURL.endsWith('/') ? baseURL : `${baseURL}/`);
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (options.token) {
+    headers['Authorization'] = `Bearer ${options.token}`;
+  }
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch schema for tenant "${options.tenantId}": ${response.status} ${response.statusText}`);
+  }
+
+  return parseSchema(await response.json());
+}
@@ -0,0 +1,38 @@
+export interface FieldSchema {
+  identifier: string;
+  // text, richText, slug, email, url, date, datetime, number, integer, float,
+  // boolean, json, media, reference, list, enum or object
+  type: string;
+  required?: boolean;
+  description?: string;
+  // Allowed values for enum fields
+  options?: string[];
+  // Target model identifier for reference fields
+  model?: string;
+  // Item definition for list fields
+  items?: Omit<FieldSchema, 'identifier'>;
+  // Nested fields for object fields
+  fields?: FieldSchema[];
+}
+
+export interface ModelSchema {
+  identifier: string;
+  name?: string;
+  description?: string;
+  fields: FieldSchema[];
+}
+
+export interface SchemaDocument {
+  models: ModelSchema[];
+}
+
+export interface GenerateOptions {
+  // Module whose ContentModelMap is augmented (default: '@growcado/sdk')
+  sdkModule?: string;
+}
+
+export interface FetchSchemaOptions {
+  tenantId: string;
+  baseURL?: string;
+  token?: string;
+}
@@ -7,7 +7,7 @@
 export { GrowcadoProvider, useGrowcadoContext } from './lib/providers';
 
 // Export hooks
-export { useGrowcadoContent, useCustomerIdentifiers } from './lib/hooks';
+export { useGrowcadoContent, useCustomerIdentifiers, usePreviewMode, useLandingPage } from './lib/hooks';
 
 // Export types
 export type {
@@ -16,8 +16,24 @@ export type {
   GrowcadoContextValue,
   UseGrowcadoContentResult,
   UseCustomerIdentifiersResult,
+  UsePreviewModeOptions,
+  UsePreviewModeResult,
+  UseLandingPageResult,
 } from './lib/types';
 
+// Re-export the SDK error classes so UIs can branch on the error type
+export {
+  GrowcadoErrorCode,
+  GrowcadoError,
+  GrowcadoNetworkError,
+  GrowcadoHttpError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError,
+  GrowcadoAbortError,
+  GrowcadoConfigError,
+  GrowcadoValidationError,
+} from '@growcado/sdk';
+
 // Re-export core SDK types for convenience
 export type {
   SDKConfig,
@@ -25,4 +41,7 @@ export type {
   CustomerIdentifiers,
   CXPParameters,
   GrowcadoResponse,
+  ContentModelMap,
+  ContentValidator,
+  LandingPage,
 } from '@growcado/sdk';
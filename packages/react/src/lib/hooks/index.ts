@@ -1,2 +1,4 @@
 export { useGrowcadoContent } from './useGrowcadoContent';
-export { useCustomerIdentifiers } from './useCustomerIdentifiers'; 
\ No newline at end of file
+export { useCustomerIdentifiers } from './useCustomerIdentifiers';
+export { usePreviewMode } from './usePreviewMode';
+export { useLandingPage } from './useLandingPage';
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { GrowcadoSDK, type CustomerIdentifiers } from '@growcado/sdk';
+import type { CustomerIdentifiers } from '@growcado/sdk';
 import type { UseCustomerIdentifiersResult } from '../types';
 import { useGrowcadoContext } from '../providers';
 
@@ -10,7 +10,7 @@ import { useGrowcadoContext } from '../providers';
  * @returns Object with setCustomer and clearCustomer functions
  */
 export function useCustomerIdentifiers(): UseCustomerIdentifiersResult {
-  const { isConfigured } = useGrowcadoContext();
+  const { isConfigured, client } = useGrowcadoContext();
   const queryClient = useQueryClient();
 
   const setCustomer = useCallback((identifiers: CustomerIdentifiers): void => {
@@ -21,7 +21,7 @@ export function useCustomerIdentifiers(): UseCustomerIdentifiersResult {
 
     try {
       // Set customer identifiers in the SDK
-      GrowcadoSDK.setCustomerIdentifiers(identifiers);
+      client.setCustomerIdentifiers(identifiers);
       
       // Invalidate all Growcado content queries to refetch with new customer context
       queryClient.invalidateQueries({
@@ -31,7 +31,7 @@ export function useCustomerIdentifiers(): UseCustomerIdentifiersResult {
       console.error('[useCustomerIdentifiers] Failed to set customer identifiers:', error);
       throw error;
     }
-  }, [isConfigured, queryClient]);
+  }, [isConfigured, client, queryClient]);
 
   const clearCustomer = useCallback((): void => {
     if (!isConfigured) {
@@ -41,7 +41,7 @@ export function useCustomerIdentifiers(): UseCustomerIdentifiersResult {
 
     try {
       // Clear customer identifiers by setting empty object
-      GrowcadoSDK.setCustomerIdentifiers({});
+      client.setCustomerIdentifiers({});
       
       // Invalidate all Growcado content queries to refetch without customer context
       queryClient.invalidateQueries({
@@ -51,7 +51,7 @@ export function useCustomerIdentifiers(): UseCustomerIdentifiersResult {
       console.error('[useCustomerIdentifiers] Failed to clear customer identifiers:', error);
       throw error;
     }
-  }, [isConfigured, queryClient]);
+  }, [isConfigured, client, queryClient]);
 
   return {
     setCustomer,
@@ -1,6 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
-import { GrowcadoSDK } from '@growcado/sdk';
-import type { ContentConfig } from '@growcado/sdk';
+import { GrowcadoConfigError } from '@growcado/sdk';
+import type { ContentConfig, ContentModelIdentifier, ContentModelMap, GrowcadoError } from '@growcado/sdk';
 import type {
   UseGrowcadoContentConfig,
   UseGrowcadoContentResult,
@@ -10,13 +10,23 @@ import { useGrowcadoContext } from '../providers';
 /**
  * React Query hook for fetching Growcado content
  * 
+ * The content type is inferred from generated model types when modelIdentifier
+ * is a known model; otherwise it can be passed as a type argument.
+ * 
  * @param config Configuration for content fetching
- * @returns React Query result with data, loading states, and error handling
+ * @returns React Query result with data, loading states, and error handling; error is the
+ * SDK's typed error (e.g. GrowcadoNotFoundError), so UIs can branch on error.code
  */
+export function useGrowcadoContent<M extends ContentModelIdentifier>(
+  config: UseGrowcadoContentConfig & { modelIdentifier: M }
+): UseGrowcadoContentResult<ContentModelMap[M]>;
+export function useGrowcadoContent<T = any>(
+  config: UseGrowcadoContentConfig
+): UseGrowcadoContentResult<T>;
 export function useGrowcadoContent<T = any>(
   config: UseGrowcadoContentConfig
 ): UseGrowcadoContentResult<T> {
-  const { isConfigured } = useGrowcadoContext();
+  const { isConfigured, client } = useGrowcadoContext();
 
   const {
     enabled = true,
@@ -28,7 +38,7 @@ export function useGrowcadoContent<T = any>(
     ...contentConfig
   } = config;
 
-  const queryResult = useQuery({
+  const queryResult = useQuery<T, GrowcadoError>({
     queryKey: [
       'growcado-content',
       contentConfig.modelIdentifier,
@@ -37,16 +47,22 @@ export function useGrowcadoContent<T = any>(
       contentConfig.customerIdentifiers,
       contentConfig.headers,
       contentConfig.cxpParameters,
+      contentConfig.preview,
+      contentConfig.previewToken,
+      contentConfig.locale,
+      contentConfig.fallbackLocales,
     ],
-    queryFn: async (): Promise<T> => {
+    queryFn: async ({ signal }): Promise<T> => {
       if (!isConfigured) {
-        throw new Error('Growcado SDK is not configured. Ensure GrowcadoProvider is set up correctly.');
+        throw new GrowcadoConfigError('Growcado SDK is not configured. Ensure GrowcadoProvider is set up correctly.');
       }
 
-      const response = await GrowcadoSDK.getContent<T>(contentConfig);
+      // React Query aborts the signal when the query is cancelled, e.g. on unmount
+      const response = await client.getContent<T>({ ...contentConfig, signal });
       
+      // Rethrow the typed error as is so its class, code and status reach the component
       if (response.error) {
-        throw new Error(response.error.message || 'Failed to fetch content');
+        throw response.error;
       }
       
       return response.data as T;
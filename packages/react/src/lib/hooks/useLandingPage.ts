@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import type { UseLandingPageResult } from '../types';
+import { useGrowcadoContext } from '../providers';
+
+/**
+ * Hook for reading the landing pages recorded by the Growcado SDK
+ *
+ * Landing pages are read after mount, so server-rendered markup matches the first
+ * client render. Both are null unless enableLandingPageTracking is set in the config.
+ *
+ * @returns The first page the visitor ever landed on and the first page of the current session
+ */
+export function useLandingPage(): UseLandingPageResult {
+  const { isConfigured, client } = useGrowcadoContext();
+  const [landingPages, setLandingPages] = useState<UseLandingPageResult>({
+    landingPage: null,
+    sessionLandingPage: null,
+  });
+
+  useEffect(() => {
+    if (!isConfigured) return;
+
+    setLandingPages({
+      landingPage: client.getLandingPage(),
+      sessionLandingPage: client.getSessionLandingPage(),
+    });
+  }, [isConfigured, client]);
+
+  return landingPages;
+}
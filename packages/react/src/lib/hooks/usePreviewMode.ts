@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { UsePreviewModeOptions, UsePreviewModeResult } from '../types';
+import { useGrowcadoContext } from '../providers';
+
+const DISABLE_VALUES = ['', '0', 'false'];
+
+function readCookie(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+
+  const match = document.cookie
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+
+  return match ? decodeURIComponent(match.substring(name.length + 1)) : null;
+}
+
+function writeCookie(name: string, value: string | null): void {
+  if (typeof document === 'undefined') return;
+
+  document.cookie = value
+    ? `${name}=${encodeURIComponent(value)}; path=/; SameSite=Lax`
+    : `${name}=; path=/; SameSite=Lax; expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+}
+
+/**
+ * Hook for turning Growcado preview mode on and off
+ *
+ * Reads the preview token from a URL query param (e.g. `?growcado_preview=<token>`)
+ * and remembers it in a cookie, so editors stay in preview while navigating.
+ * Passing an empty value, `0` or `false` in the query param turns preview off.
+ *
+ * @param options Query param and cookie names
+ * @returns Preview state with enablePreview and disablePreview functions
+ */
+export function usePreviewMode(options: UsePreviewModeOptions = {}): UsePreviewModeResult {
+  const { queryParam = 'growcado_preview', cookieName = 'growcado_preview' } = options;
+  const { isConfigured, client } = useGrowcadoContext();
+  const queryClient = useQueryClient();
+  const [previewToken, setPreviewToken] = useState<string | null>(null);
+
+  const applyPreview = useCallback((token: string | null): void => {
+    client.setPreviewMode(token !== null, token ?? undefined);
+    setPreviewToken(token);
+
+    // Refetch content so draft and published entries are never mixed
+    queryClient.invalidateQueries({
+      queryKey: ['growcado-content'],
+    });
+  }, [client, queryClient]);
+
+  useEffect(() => {
+    if (!isConfigured || typeof window === 'undefined') return;
+
+    const fromQuery = new URLSearchParams(window.location.search).get(queryParam);
+    if (fromQuery !== null) {
+      const token = DISABLE_VALUES.includes(fromQuery) ? null : fromQuery;
+      writeCookie(cookieName, token);
+      applyPreview(token);
+      return;
+    }
+
+    const fromCookie = readCookie(cookieName);
+    if (fromCookie) {
+      applyPreview(fromCookie);
+      return;
+    }
+
+    // Reflect preview settings passed directly in the SDK config
+    const config = client.getConfig();
+    setPreviewToken(config?.preview && config.previewToken ? config.previewToken : null);
+  }, [isConfigured, queryParam, cookieName, client, applyPreview]);
+
+  const enablePreview = useCallback((token: string): void => {
+    if (!isConfigured) {
+      console.warn('[usePreviewMode] SDK is not configured. Preview mode will not be enabled.');
+      return;
+    }
+
+    writeCookie(cookieName, token);
+    applyPreview(token);
+  }, [isConfigured, cookieName, applyPreview]);
+
+  const disablePreview = useCallback((): void => {
+    if (!isConfigured) {
+      console.warn('[usePreviewMode] SDK is not configured. Preview mode cannot be disabled.');
+      return;
+    }
+
+    writeCookie(cookieName, null);
+    applyPreview(null);
+  }, [isConfigured, cookieName, applyPreview]);
+
+  return {
+    isPreview: previewToken !== null,
+    previewToken,
+    enablePreview,
+    disablePreview,
+  };
+}
@@ -2,4 +2,4 @@
 export { GrowcadoProvider, useGrowcadoContext } from './providers';
 
 // Export hooks
-export { useGrowcadoContent, useCustomerIdentifiers } from './hooks'; 
\ No newline at end of file
+export { useGrowcadoContent, useCustomerIdentifiers, usePreviewMode, useLandingPage } from './hooks'; 
\ No newline at end of file
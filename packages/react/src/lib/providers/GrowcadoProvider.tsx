@@ -1,17 +1,19 @@
 import React, { createContext, useContext, useEffect, useState, useMemo } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { GrowcadoSDK, SDKConfig } from '@growcado/sdk';
+import { GrowcadoSDK, SDKConfig, SDKInstance } from '@growcado/sdk';
 
 // Provider props interface
 interface SimpleGrowcadoProviderProps {
   children: React.ReactNode;
   config: SDKConfig;
   queryClient?: QueryClient;
+  client?: SDKInstance;
 }
 
 interface SimpleGrowcadoContextValue {
   config: SDKConfig | null;
   isConfigured: boolean;
+  client: SDKInstance;
 }
 
 // Create the context
@@ -48,8 +50,9 @@ export function GrowcadoProvider(props: {
   children: React.ReactNode;
   config: SDKConfig;
   queryClient?: QueryClient;
+  client?: SDKInstance;
 }): React.ReactElement {
-  const { children, config, queryClient } = props;
+  const { children, config, queryClient, client = GrowcadoSDK } = props;
   const [isConfigured, setIsConfigured] = useState(false);
   const [currentConfig, setCurrentConfig] = useState<SDKConfig | null>(null);
 
@@ -61,20 +64,21 @@ export function GrowcadoProvider(props: {
   // Configure SDK when config changes
   useEffect(() => {
     try {
-      GrowcadoSDK.configure(config);
+      client.configure(config);
       setCurrentConfig(config);
       setIsConfigured(true);
     } catch (error) {
       console.error('[GrowcadoProvider] Failed to configure SDK:', error);
       setIsConfigured(false);
     }
-  }, [config]);
+  }, [config, client]);
 
   // Create context value
   const contextValue = useMemo(() => ({
     config: currentConfig,
     isConfigured,
-  }), [currentConfig, isConfigured]);
+    client,
+  }), [currentConfig, isConfigured, client]);
 
   return (
     <QueryClientProvider client={defaultQueryClient}>
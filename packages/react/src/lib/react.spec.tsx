@@ -2,21 +2,27 @@ import React from 'react';
 import { render, screen, waitFor, act } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { GrowcadoSDK } from '@growcado/sdk';
+import { GrowcadoSDK, GrowcadoNotFoundError, GrowcadoNetworkError } from '@growcado/sdk';
 import { 
   GrowcadoProvider, 
   useGrowcadoContent, 
   useCustomerIdentifiers,
-  useGrowcadoContext 
+  useGrowcadoContext,
+  usePreviewMode,
+  useLandingPage
 } from './index';
 
 // Mock the SDK
-vi.mock('@growcado/sdk', () => ({
+vi.mock('@growcado/sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@growcado/sdk')>()),
   GrowcadoSDK: {
     configure: vi.fn(),
     getContent: vi.fn(),
     setCustomerIdentifiers: vi.fn(),
     getConfig: vi.fn(),
+    setPreviewMode: vi.fn(),
+    getLandingPage: vi.fn(),
+    getSessionLandingPage: vi.fn(),
     reset: vi.fn(),
   },
 }));
@@ -79,6 +85,23 @@ describe('GrowcadoProvider', () => {
     expect(screen.getByTestId('is-configured').textContent).toBe('true');
     expect(screen.getByTestId('tenant-id').textContent).toBe('test-tenant');
   });
+
+  it('should configure a provided client instead of the default SDK', () => {
+    const client = {
+      ...mockSDK,
+      configure: vi.fn(),
+    };
+    const config = { tenantId: 'other-tenant' };
+
+    render(
+      <GrowcadoProvider config={config} client={client}>
+        <div>Test</div>
+      </GrowcadoProvider>
+    );
+
+    expect(client.configure).toHaveBeenCalledWith(config);
+    expect(mockSDK.configure).not.toHaveBeenCalled();
+  });
 });
 
 describe('useGrowcadoContent', () => {
@@ -138,7 +161,105 @@ describe('useGrowcadoContent', () => {
     expect(mockSDK.getContent).toHaveBeenCalledWith({
       modelIdentifier: 'homepage',
       contentIdentifier: 'hero',
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should abort the request when the component unmounts', async () => {
+    let requestSignal: AbortSignal | undefined;
+    mockSDK.getContent.mockImplementation(({ signal }: { signal?: AbortSignal }) => {
+      requestSignal = signal;
+      return new Promise(() => undefined);
+    });
+
+    function TestComponent() {
+      useGrowcadoContent({
+        modelIdentifier: 'homepage',
+        contentIdentifier: 'hero',
+      });
+      return null;
+    }
+
+    const { unmount } = render(
+      <QueryClientProvider client={queryClient}>
+        <GrowcadoProvider config={{ tenantId: 'test-tenant' }}>
+          <TestComponent />
+        </GrowcadoProvider>
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => {
+      expect(requestSignal).toBeDefined();
     });
+    expect(requestSignal?.aborted).toBe(false);
+
+    unmount();
+
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('should not share queries between different fallback locales or preview tokens', async () => {
+    mockSDK.getContent.mockResolvedValue({ data: {} });
+
+    function TestComponent(props: { fallbackLocales?: string[]; previewToken?: string }) {
+      useGrowcadoContent({ modelIdentifier: 'homepage', contentIdentifier: 'hero', locale: 'de-CH', ...props });
+      return null;
+    }
+
+    render(
+      <QueryClientProvider client={queryClient}>
+        <GrowcadoProvider config={{ tenantId: 'test-tenant' }}>
+          <TestComponent fallbackLocales={['de']} />
+          <TestComponent fallbackLocales={['en']} />
+          <TestComponent fallbackLocales={['en']} previewToken="token" />
+        </GrowcadoProvider>
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => {
+      expect(mockSDK.getContent).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it('should expose the typed SDK error', async () => {
+    mockSDK.getContent.mockResolvedValue({
+      error: new GrowcadoNotFoundError('Content not found', { details: { message: 'Content not found' } }),
+    });
+
+    function TestComponent() {
+      const { isError, error } = useGrowcadoContent({
+        modelIdentifier: 'nonexistent',
+        contentIdentifier: 'missing',
+        retry: false,
+      });
+
+      return (
+        <div>
+          <span data-testid="error">{isError.toString()}</span>
+          <span data-testid="not-found">{(error instanceof GrowcadoNotFoundError).toString()}</span>
+          <span data-testid="offline">{(error instanceof GrowcadoNetworkError).toString()}</span>
+          <span data-testid="error-code">{error?.code || ''}</span>
+          <span data-testid="error-status">{error?.status ?? ''}</span>
+        </div>
+      );
+    }
+
+    render(
+      <QueryClientProvider client={queryClient}>
+        <GrowcadoProvider config={{ tenantId: 'test-tenant' }}>
+          <TestComponent />
+        </GrowcadoProvider>
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('error').textContent).toBe('true');
+    });
+
+    expect(screen.getByTestId('not-found').textContent).toBe('true');
+    expect(screen.getByTestId('offline').textContent).toBe('false');
+    expect(screen.getByTestId('error-code').textContent).toBe('NOT_FOUND');
+    expect(screen.getByTestId('error-status').textContent).toBe('404');
   });
 
   it.skip('should handle errors properly', async () => {
@@ -274,4 +395,175 @@ describe('useCustomerIdentifiers', () => {
       queryKey: ['growcado-content'],
     });
   });
-}); 
\ No newline at end of file
+});
+
+describe('usePreviewMode', () => {
+  let queryClient: QueryClient;
+
+  function TestComponent() {
+    const { isPreview, previewToken, enablePreview, disablePreview } = usePreviewMode();
+
+    return (
+      <div>
+        <span data-testid="is-preview">{isPreview.toString()}</span>
+        <span data-testid="preview-token">{previewToken ?? ''}</span>
+        <button onClick={() => enablePreview('manual-token')} data-testid="enable">Enable</button>
+        <button onClick={() => disablePreview()} data-testid="disable">Disable</button>
+      </div>
+    );
+  }
+
+  const renderWithProvider = () => render(
+    <QueryClientProvider client={queryClient}>
+      <GrowcadoProvider config={{ tenantId: 'test-tenant' }} queryClient={queryClient}>
+        <TestComponent />
+      </GrowcadoProvider>
+    </QueryClientProvider>
+  );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    vi.clearAllMocks();
+    document.cookie = 'growcado_preview=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+    window.history.replaceState({}, '', '/');
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should enable preview from the URL query param and remember it in a cookie', async () => {
+    window.history.replaceState({}, '', '/?growcado_preview=url-token');
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('is-preview').textContent).toBe('true');
+    });
+    expect(screen.getByTestId('preview-token').textContent).toBe('url-token');
+    expect(mockSDK.setPreviewMode).toHaveBeenCalledWith(true, 'url-token');
+    expect(document.cookie).toContain('growcado_preview=url-token');
+  });
+
+  it('should enable preview from the cookie', async () => {
+    document.cookie = 'growcado_preview=cookie-token; path=/';
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(mockSDK.setPreviewMode).toHaveBeenCalledWith(true, 'cookie-token');
+    });
+    expect(screen.getByTestId('is-preview').textContent).toBe('true');
+  });
+
+  it('should disable preview when the query param is false', async () => {
+    document.cookie = 'growcado_preview=cookie-token; path=/';
+    window.history.replaceState({}, '', '/?growcado_preview=false');
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(mockSDK.setPreviewMode).toHaveBeenCalledWith(false, undefined);
+    });
+    expect(screen.getByTestId('is-preview').textContent).toBe('false');
+    expect(document.cookie).not.toContain('growcado_preview=cookie-token');
+  });
+
+  it('should toggle preview manually and invalidate content queries', async () => {
+    renderWithProvider();
+    const invalidateQueriesSpy = vi.spyOn(queryClient, 'invalidateQueries');
+
+    await act(async () => {
+      screen.getByTestId('enable').click();
+    });
+
+    expect(mockSDK.setPreviewMode).toHaveBeenCalledWith(true, 'manual-token');
+    expect(screen.getByTestId('is-preview').textContent).toBe('true');
+    expect(invalidateQueriesSpy).toHaveBeenCalledWith({
+      queryKey: ['growcado-content'],
+    });
+
+    await act(async () => {
+      screen.getByTestId('disable').click();
+    });
+
+    expect(mockSDK.setPreviewMode).toHaveBeenLastCalledWith(false, undefined);
+    expect(screen.getByTestId('is-preview').textContent).toBe('false');
+  });
+});
+
+describe('useLandingPage', () => {
+  let queryClient: QueryClient;
+
+  function TestComponent() {
+    const { landingPage, sessionLandingPage } = useLandingPage();
+
+    return (
+      <div>
+        <span data-testid="landing-page">{landingPage?.url ?? ''}</span>
+        <span data-testid="session-landing-page">{sessionLandingPage?.url ?? ''}</span>
+      </div>
+    );
+  }
+
+  const renderWithProvider = () => render(
+    <QueryClientProvider client={queryClient}>
+      <GrowcadoProvider config={{ tenantId: 'test-tenant', enableLandingPageTracking: true }} queryClient={queryClient}>
+        <TestComponent />
+      </GrowcadoProvider>
+    </QueryClientProvider>
+  );
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('should read the landing pages after the SDK is configured', async () => {
+    mockSDK.getLandingPage.mockReturnValue({
+      url: 'https://example.com/pricing?utm_source=google',
+      path: '/pricing',
+      capturedAt: 1000,
+    });
+    mockSDK.getSessionLandingPage.mockReturnValue({
+      url: 'https://example.com/blog',
+      path: '/blog',
+      capturedAt: 2000,
+    });
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('landing-page').textContent).toBe('https://example.com/pricing?utm_source=google');
+    });
+    expect(screen.getByTestId('session-landing-page').textContent).toBe('https://example.com/blog');
+    expect(mockSDK.configure).toHaveBeenCalled();
+  });
+
+  it('should return null when no landing page has been recorded', async () => {
+    mockSDK.getLandingPage.mockReturnValue(null);
+    mockSDK.getSessionLandingPage.mockReturnValue(null);
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(mockSDK.getLandingPage).toHaveBeenCalled();
+    });
+    expect(screen.getByTestId('landing-page').textContent).toBe('');
+    expect(screen.getByTestId('session-landing-page').textContent).toBe('');
+  });
+});
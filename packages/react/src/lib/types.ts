@@ -1,6 +1,6 @@
 import { ReactNode } from 'react';
 import { QueryClient } from '@tanstack/react-query';
-import { SDKConfig, ContentConfig } from '@growcado/sdk';
+import { SDKConfig, ContentConfig, SDKInstance, GrowcadoError, LandingPage } from '@growcado/sdk';
 
 /**
  * Configuration for the useGrowcadoContent hook extending core SDK types
@@ -21,6 +21,7 @@ export interface GrowcadoProviderProps {
   children: ReactNode;
   config: SDKConfig;
   queryClient?: QueryClient;
+  client?: SDKInstance;
 }
 
 /**
@@ -29,6 +30,7 @@ export interface GrowcadoProviderProps {
 export interface GrowcadoContextValue {
   config: SDKConfig | null;
   isConfigured: boolean;
+  client: SDKInstance;
 }
 
 /**
@@ -38,7 +40,8 @@ export interface UseGrowcadoContentResult<T = any> {
   data: T | undefined;
   isLoading: boolean;
   isError: boolean;
-  error: Error | null;
+  // Typed SDK error; compare error.code with GrowcadoErrorCode (e.g. NOT_FOUND vs NETWORK_ERROR)
+  error: GrowcadoError | null;
   refetch: () => void;
   isRefetching: boolean;
   isSuccess: boolean;
@@ -50,4 +53,29 @@ export interface UseGrowcadoContentResult<T = any> {
 export interface UseCustomerIdentifiersResult {
   setCustomer: (identifiers: import('@growcado/sdk').CustomerIdentifiers) => void;
   clearCustomer: () => void;
-} 
\ No newline at end of file
+} 
+/**
+ * Options for the usePreviewMode hook
+ */
+export interface UsePreviewModeOptions {
+  queryParam?: string;
+  cookieName?: string;
+}
+
+/**
+ * Result type for usePreviewMode hook
+ */
+export interface UsePreviewModeResult {
+  isPreview: boolean;
+  previewToken: string | null;
+  enablePreview: (previewToken: string) => void;
+  disablePreview: () => void;
+}
+
+/**
+ * Result type for useLandingPage hook
+ */
+export interface UseLandingPageResult {
+  landingPage: LandingPage | null;
+  sessionLandingPage: LandingPage | null;
+}
@@ -1,11 +1,72 @@
-export { GrowcadoSDK } from './lib/index.js';
+export {
+  GrowcadoSDK,
+  createGrowcadoClient,
+  FetchTransport,
+  AxiosTransport,
+  MemoryStorage,
+  WebStorage,
+  CookieStorage,
+  DEFAULT_CLICK_ID_PARAMS,
+  DEFAULT_REFERRER_RULES,
+  DEFAULT_LANDING_PAGE_PARAMS,
+  GrowcadoErrorCode,
+  GrowcadoError,
+  GrowcadoNetworkError,
+  GrowcadoHttpError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError,
+  GrowcadoAbortError,
+  GrowcadoConfigError,
+  GrowcadoValidationError
+} from './lib/index.js';
 export type {
   SDKConfig,
   ContentConfig,
   CustomerIdentifiers,
   UTMParameters,
   ReferrerData,
+  AttributionRecord,
+  AttributionModel,
+  ClickIds,
+  ReferrerChannel,
+  ReferrerRule,
+  LandingPage,
+  SessionData,
   CXPParameters,
   GrowcadoResponse,
-  SDKInstance
+  SDKInstance,
+  RequestContext,
+  ListContentConfig,
+  ContentQuery,
+  ContentFilterValue,
+  ContentSort,
+  Page,
+  BatchContentConfig,
+  GrowcadoBatchResponse,
+  ContentModelMap,
+  ContentModelIdentifier,
+  ContentValidator,
+  ValidationMode,
+  ValidationIssue,
+  StandardSchemaValidator,
+  SafeParseValidator,
+  JSONSchema,
+  RetryConfig,
+  RequestOptions,
+  CacheConfig,
+  CacheStatus,
+  CacheInvalidationFilter,
+  ContentAPI,
+  HttpRequest,
+  HttpResponse,
+  IHttpTransport,
+  HttpMiddleware,
+  FetchTransportOptions,
+  AxiosLikeInstance,
+  GrowcadoErrorOptions,
+  StorageType,
+  IStorageAdapter,
+  WebStorageType,
+  CookieStorageOptions,
+  CookieStorageConfig
 } from './lib/index.js'; 
\ No newline at end of file
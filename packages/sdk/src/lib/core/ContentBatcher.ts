@@ -0,0 +1,69 @@
+interface QueuedTask<R> {
+  key: string | symbol;
+  task: () => Promise<R>;
+  resolvers: Array<{ resolve: (value: R) => void; reject: (reason: unknown) => void }>;
+}
+
+/**
+ * Collects tasks enqueued during the same tick and runs them with a concurrency limit
+ * shared by all flushes. Tasks sharing a key within one flush run only once; tasks
+ * enqueued without a key always run on their own.
+ */
+export class ContentBatcher<R> {
+  private queue = new Map<string | symbol, QueuedTask<R>>();
+  private flushScheduled = false;
+  // Tasks of earlier flushes wait here until a slot frees up
+  private pending: QueuedTask<R>[] = [];
+  private active = 0;
+
+  constructor(private readonly concurrency: number) {}
+
+  enqueue(key: string | null, task: () => Promise<R>): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      const queued = key === null ? undefined : this.queue.get(key);
+      if (queued) {
+        queued.resolvers.push({ resolve, reject });
+      } else {
+        const queueKey = key ?? Symbol('unshared');
+        this.queue.set(queueKey, { key: queueKey, task, resolvers: [{ resolve, reject }] });
+      }
+
+      this.scheduleFlush();
+    });
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+
+    // Wait for the current tick so sibling calls can join the same flush
+    Promise.resolve().then(() => {
+      this.flushScheduled = false;
+      this.pending.push(...this.queue.values());
+      this.queue.clear();
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    while (this.active < Math.max(1, this.concurrency)) {
+      const queued = this.pending.shift();
+      if (!queued) return;
+
+      this.active++;
+      void this.run(queued);
+    }
+  }
+
+  private async run(queued: QueuedTask<R>): Promise<void> {
+    try {
+      const result = await queued.task();
+      queued.resolvers.forEach(({ resolve }) => resolve(result));
+    } catch (error) {
+      queued.resolvers.forEach(({ reject }) => reject(error));
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+}
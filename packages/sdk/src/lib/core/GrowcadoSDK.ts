@@ -1,10 +1,20 @@
-import { AxiosHeaders } from 'axios';
-import type { SDKConfig, ContentConfig, CustomerIdentifiers, GrowcadoResponse, SDKInstance, UTMParameters, ReferrerData, CXPParameters } from './types.js';
+import type { SDKConfig, ContentConfig, CustomerIdentifiers, GrowcadoResponse, SDKInstance, UTMParameters, ReferrerData, ClickIds, LandingPage, SessionData, CXPParameters, RequestContext, ListContentConfig, ContentQuery, Page, BatchContentConfig, GrowcadoBatchResponse, ContentModelIdentifier, ContentModelMap, ContentValidator, ValidationIssue, RequestOptions, CacheInvalidationFilter, HttpMiddleware, ContentAPI } from './types.js';
 import { StorageManager } from '../storage/StorageManager.js';
 import { HttpClient } from '../http/HttpClient.js';
 import { UTMTracker } from '../tracking/UTMTracker.js';
 import { CustomerIdentifierManager } from '../tracking/CustomerIdentifierManager.js';
 import { ReferrerTracker } from '../tracking/ReferrerTracker.js';
+import { ClickIdTracker } from '../tracking/ClickIdTracker.js';
+import { LandingPageTracker } from '../tracking/LandingPageTracker.js';
+import { SessionManager } from '../tracking/SessionManager.js';
+import { getRequestHeader, parseCookieHeader, resolveRequestURL } from './requestContext.js';
+import { buildContentQueryString, toPage } from './contentQuery.js';
+import { ContentBatcher } from './ContentBatcher.js';
+import { createContentAPI } from './contentApi.js';
+import { InFlightRequests } from './InFlightRequests.js';
+import { ResponseCache, resolveCacheOptions, type CacheTags } from './ResponseCache.js';
+import { formatIssuePath, validateContent } from './validation.js';
+import { GrowcadoError, GrowcadoErrorCode, GrowcadoAbortError, GrowcadoConfigError, GrowcadoValidationError } from './errors.js';
 
 class GrowcadoSDKClass implements SDKInstance {
   private config: SDKConfig | null = null;
@@ -13,6 +23,17 @@ class GrowcadoSDKClass implements SDKInstance {
   private utmTracker: UTMTracker;
   private customerManager: CustomerIdentifierManager;
   private referrerTracker: ReferrerTracker;
+  private clickIdTracker: ClickIdTracker;
+  private sessionManager: SessionManager;
+  private landingPageTracker: LandingPageTracker;
+  private contentBatcher: ContentBatcher<GrowcadoResponse<unknown>> | null = null;
+  private responseCache: ResponseCache<GrowcadoResponse<unknown>> | null = null;
+  // Set on request contexts while they use their parent's cache
+  private sharesCache = false;
+  private inFlightRequests = new InFlightRequests<GrowcadoResponse<unknown>>();
+  // Registered with use(); kept across configure() calls
+  private middleware: HttpMiddleware[] = [];
+  readonly content: ContentAPI = createContentAPI(this);
 
   constructor() {
     // Initialize components
@@ -20,6 +41,9 @@ class GrowcadoSDKClass implements SDKInstance {
     this.utmTracker = new UTMTracker();
     this.customerManager = new CustomerIdentifierManager();
     this.referrerTracker = new ReferrerTracker();
+    this.clickIdTracker = new ClickIdTracker();
+    this.sessionManager = new SessionManager();
+    this.landingPageTracker = new LandingPageTracker(this.sessionManager);
   }
 
   configure(config: SDKConfig): void {
@@ -39,27 +63,26 @@ class GrowcadoSDKClass implements SDKInstance {
     // Configure HTTP client
     this.httpClient.configure(this.config);
 
+    this.contentBatcher = new ContentBatcher(this.config.batchConcurrency ?? 6);
+
+    const cacheOptions = resolveCacheOptions(this.config.cache);
+    this.responseCache = cacheOptions ? new ResponseCache(cacheOptions) : null;
+
     // Initialize trackers based on environment
     this.initializeTrackers();
 
-    // Set up request interceptor for automatic header injection
-    const axiosInstance = this.httpClient.getAxiosInstance();
-    if (axiosInstance) {
-      axiosInstance.interceptors.request.use((requestConfig) => {
-        // Ensure headers object exists
-        if (!requestConfig.headers) {
-          requestConfig.headers = new AxiosHeaders();
-        }
-
-        // Aggregate headers from all trackers
-        const aggregatedHeaders = this.aggregateHeaders();
-        Object.entries(aggregatedHeaders).forEach(([key, value]) => {
-          requestConfig.headers[key] = value;
-        });
-
-        return requestConfig;
+    // Tracker headers are injected first, so middleware registered with use() sees and may override them.
+    // The session changes with every page view, so it is sent here but left out of cache and dedup keys
+    this.httpClient.use((request, next) => {
+      if (this.sessionManager.recordActivity()) {
+        this.captureSessionLandingPage();
+      }
+      return next({
+        ...request,
+        headers: { ...request.headers, ...this.aggregateHeaders(), ...this.sessionManager.getHeaders() }
       });
-    }
+    });
+    this.middleware.forEach(middleware => this.httpClient.use(middleware));
   }
 
   // New hydration method for client-side activation
@@ -79,7 +102,7 @@ class GrowcadoSDKClass implements SDKInstance {
     this.initializeTrackers();
 
     console.log('[GrowcadoSDK] Hydration complete - browser features activated', 
-      storageUpgraded ? '(storage upgraded to localStorage)' : '');
+      storageUpgraded ? `(storage upgraded to ${this.storageManager?.getCurrentStorageType()})` : '');
   }
 
   private initializeTrackers(): void {
@@ -93,36 +116,164 @@ class GrowcadoSDKClass implements SDKInstance {
       this.utmTracker.initializeSSR(this.config, this.storageManager);
       this.customerManager.initializeSSR(this.config, this.storageManager);
       this.referrerTracker.initializeSSR(this.config, this.storageManager);
+      this.clickIdTracker.initializeSSR(this.config, this.storageManager);
+      this.sessionManager.initializeSSR(this.config, this.storageManager);
+      this.landingPageTracker.initializeSSR(this.config, this.storageManager);
     } else {
       // Full initialization with browser APIs
       this.utmTracker.initialize(this.config, this.storageManager);
       this.customerManager.initialize(this.config, this.storageManager);
       this.referrerTracker.initialize(this.config, this.storageManager);
+      this.clickIdTracker.initialize(this.config, this.storageManager);
+      // The page view must start or continue the session before the session landing page is recorded
+      this.sessionManager.initialize(this.config, this.storageManager);
+      this.landingPageTracker.initialize(this.config, this.storageManager);
     }
   }
 
+  getContent<M extends ContentModelIdentifier>(config: ContentConfig & { modelIdentifier: M }): Promise<GrowcadoResponse<ContentModelMap[M]>>;
+  getContent<T>(config: ContentConfig): Promise<GrowcadoResponse<T>>;
   async getContent<T>(config: ContentConfig): Promise<GrowcadoResponse<T>> {
     if (!this.config || !this.httpClient) {
-      throw new Error('SDK not configured. Call GrowcadoSDK.configure() first.');
+      throw new GrowcadoConfigError('SDK not configured. Call GrowcadoSDK.configure() first.');
     }
 
     const tenantId = config.tenantId || this.config.tenantId;
     if (!tenantId) {
-      throw new Error('Tenant ID is required either in SDK config or content config.');
+      throw new GrowcadoConfigError('Tenant ID is required either in SDK config or content config.');
     }
 
-    const path = `cms/tenant/${tenantId}/published/${config.modelIdentifier}/${config.contentIdentifier}`;
+    const previewToken = this.resolvePreviewToken(config);
+    const stage = previewToken ? 'draft' : 'published';
+    const path = `cms/tenant/${tenantId}/${stage}/${config.modelIdentifier}/${config.contentIdentifier}`;
+    const headers = this.buildRequestHeaders(config, previewToken);
+    const locales = this.resolveLocaleChain(config);
+    const validator = config.validator ?? this.config.validators?.[config.modelIdentifier];
+
+    // A cached response makes the request conditional; on 304 its payload is served again.
+    // Background revalidation outlives the call, so the caller's signal must not abort it
+    const load = async (cached?: GrowcadoResponse<T>, background = false): Promise<GrowcadoResponse<T>> => {
+      const signal = background ? undefined : config.signal;
+      const fetched = await this.fetchDeduplicated<T>(path, headers, locales, { signal, timeout: config.timeout }, cached);
+      if (fetched.revalidated && cached) {
+        return {
+          ...cached,
+          etag: fetched.etag ?? cached.etag,
+          lastModified: fetched.lastModified ?? cached.lastModified,
+          revalidated: true
+        };
+      }
+      return this.validateResponse(fetched, config.modelIdentifier, validator);
+    };
 
-    // Build headers including CXP parameters if provided
-    const headers: Record<string, string> = { ...config.headers };
-    if (config.cxpParameters) {
-      const cxpHeader = this.buildCXPParametersHeader(config.cxpParameters);
-      if (cxpHeader) {
-        headers['X-CXP-PARAMETERS'] = cxpHeader;
+    // Draft content is never cached
+    if (previewToken) {
+      return { ...(await load()), isPreview: true };
+    }
+
+    if (!this.responseCache || config.cache === false) {
+      return load();
+    }
+
+    // Tracker and per-call headers personalize the content, so they are part of the key
+    const cacheKey = JSON.stringify([tenantId, config.modelIdentifier, config.contentIdentifier, this.aggregateHeaders(), headers, locales]);
+    const tags = { tenantId, modelIdentifier: config.modelIdentifier, contentIdentifier: config.contentIdentifier };
+    return this.getCached(this.responseCache, cacheKey, tags, load);
+  }
+
+  async getContentBatch<T>(configs: BatchContentConfig[]): Promise<GrowcadoBatchResponse<T>> {
+    if (!this.config || !this.contentBatcher) {
+      throw new GrowcadoConfigError('SDK not configured. Call GrowcadoSDK.configure() first.');
+    }
+
+    // Entries sharing a key would overwrite each other's results, e.g. the same content in two locales
+    const resultKeys = configs.map(({ key, modelIdentifier, contentIdentifier }) => key ?? `${modelIdentifier}/${contentIdentifier}`);
+    const duplicateKey = resultKeys.find((resultKey, index) => resultKeys.indexOf(resultKey) !== index);
+    if (duplicateKey !== undefined) {
+      throw new GrowcadoConfigError(`Duplicate batch key "${duplicateKey}". Set a distinct key for each entry of the same content.`);
+    }
+
+    const batcher = this.contentBatcher;
+    const entries = await Promise.all(configs.map(async (contentConfig, index) => {
+      const resultKey = resultKeys[index];
+      // Validators and signals cannot be compared, so entries with one are never merged
+      const requestKey = contentConfig.validator || contentConfig.signal
+        ? null
+        : JSON.stringify([
+          contentConfig.tenantId || this.config?.tenantId,
+          contentConfig.modelIdentifier,
+          contentConfig.contentIdentifier,
+          contentConfig.headers,
+          contentConfig.customerIdentifiers,
+          contentConfig.cxpParameters,
+          contentConfig.preview,
+          contentConfig.previewToken,
+          contentConfig.locale,
+          contentConfig.fallbackLocales,
+          contentConfig.timeout,
+          contentConfig.cache
+        ]);
+
+      try {
+        const response = await batcher.enqueue(requestKey, () => this.getContent<unknown>(contentConfig));
+        return [resultKey, response as GrowcadoResponse<T>] as const;
+      } catch (error) {
+        // Report entry-level failures (e.g. a missing tenant) without failing the whole batch
+        const failed: GrowcadoResponse<T> = {
+          error: error instanceof GrowcadoError
+            ? error
+            : new GrowcadoError(error instanceof Error ? error.message : 'An unknown error occurred', GrowcadoErrorCode.UNKNOWN_ERROR, { cause: error })
+        };
+        return [resultKey, failed] as const;
       }
+    }));
+
+    const results: Record<string, GrowcadoResponse<T>> = {};
+    entries.forEach(([resultKey, response]) => {
+      results[resultKey] = response;
+    });
+
+    return {
+      results,
+      hasErrors: entries.some(([, response]) => Boolean(response.error))
+    };
+  }
+
+  async listContent<T>(config: ListContentConfig): Promise<GrowcadoResponse<Page<T>>> {
+    return this.queryContent<T>(config);
+  }
+
+  async queryContent<T>(query: ContentQuery): Promise<GrowcadoResponse<Page<T>>> {
+    if (!this.config || !this.httpClient) {
+      throw new GrowcadoConfigError('SDK not configured. Call GrowcadoSDK.configure() first.');
+    }
+
+    const tenantId = query.tenantId || this.config.tenantId;
+    if (!tenantId) {
+      throw new GrowcadoConfigError('Tenant ID is required either in SDK config or content config.');
+    }
+
+    const previewToken = this.resolvePreviewToken(query);
+    const stage = previewToken ? 'draft' : 'published';
+    const locale = query.locale ?? this.config.locale;
+    const queryString = buildContentQueryString(locale ? { ...query, locale } : query);
+    const path = `cms/tenant/${tenantId}/${stage}/${query.modelIdentifier}${queryString ? `?${queryString}` : ''}`;
+
+    const response = await this.httpClient.get<unknown>(
+      path,
+      this.buildRequestHeaders(query, previewToken),
+      { signal: query.signal, timeout: query.timeout }
+    );
+    if (response.error) {
+      return previewToken ? { error: response.error, isPreview: true } : { error: response.error };
     }
 
-    return this.httpClient.get<T>(path, Object.keys(headers).length > 0 ? headers : undefined);
+    const page = toPage<T>(response.data, query);
+
+    // A field projection returns partial items, which the model's validator would reject
+    const validator = query.validator ?? (query.fields ? undefined : this.config.validators?.[query.modelIdentifier]);
+    const validated = await this.validateResponse({ data: page }, query.modelIdentifier, validator);
+    return previewToken ? { ...validated, isPreview: true } : validated;
   }
 
   setCustomerIdentifiers(identifiers: CustomerIdentifiers): void {
@@ -155,18 +306,144 @@ class GrowcadoSDKClass implements SDKInstance {
     return this.referrerTracker.getReferrer();
   }
 
+  getReferrerData(): ReferrerData | null {
+    return this.referrerTracker.getReferrerData();
+  }
+
+  getClickIds(): ClickIds | null {
+    return this.clickIdTracker.getClickIds();
+  }
+
+  getLandingPage(): LandingPage | null {
+    return this.landingPageTracker.getLandingPage();
+  }
+
+  getSessionLandingPage(): LandingPage | null {
+    return this.landingPageTracker.getSessionLandingPage();
+  }
+
+  getSession(): SessionData | null {
+    return this.sessionManager.getSession();
+  }
+
+  trackPageView(url?: string): void {
+    if (this.sessionManager.trackPageView()) {
+      this.captureSessionLandingPage(url);
+    }
+  }
+
+  // A session started after the page loaded lands on the page the visitor is on
+  private captureSessionLandingPage(url?: string): void {
+    const pageUrl = url ?? (typeof window !== 'undefined' ? window.location?.href : undefined);
+    if (pageUrl) {
+      this.landingPageTracker.captureFromURL(pageUrl);
+    }
+  }
+
+  // Create an isolated, memory-backed client for a single incoming server request
+  withRequest(request: RequestContext): SDKInstance {
+    if (!this.config) {
+      throw new GrowcadoConfigError('SDK not configured. Call GrowcadoSDK.configure() first.');
+    }
+
+    const context = new GrowcadoSDKClass();
+    context.configure({
+      ...this.config,
+      storage: 'memory',
+      ssrMode: true
+    });
+    // Contexts send requests through the same middleware, e.g. for auth or tracing
+    this.middleware.forEach(middleware => context.use(middleware));
+    // Cache keys include the personalization headers, so contexts can share the parent's cache
+    // as long as only the parent's middleware changes their requests
+    context.responseCache = this.responseCache;
+    context.sharesCache = true;
+    context.applyRequest(request);
+
+    return context;
+  }
+
+  private applyRequest(request: RequestContext): void {
+    if (!this.storageManager) return;
+
+    // Attribution and identifiers persisted by the browser come first
+    const cookies = request.cookies ?? parseCookieHeader(getRequestHeader(request.headers, 'cookie'));
+    this.storageManager.restoreFromCookies(cookies);
+
+    // Each rendered request is a page view of the browser's session, if its cookies carry an active one
+    this.sessionManager.trackPageView();
+
+    // UTM parameters and click IDs on the requested URL override stored ones, as in the browser
+    if (request.url) {
+      this.utmTracker.captureFromURL(request.url);
+      this.clickIdTracker.captureFromURL(request.url);
+      this.landingPageTracker.captureFromURL(request.url);
+    }
+
+    const referrer = getRequestHeader(request.headers, 'referer') ?? getRequestHeader(request.headers, 'referrer');
+    // Referrers from the same host are navigation within the site, which needs the full page URL
+    this.referrerTracker.captureFromRequest(referrer, resolveRequestURL(request));
+  }
+
   getConfig(): SDKConfig | null {
     return this.config;
   }
 
+  setPreviewMode(enabled: boolean, previewToken?: string): void {
+    if (!this.config) {
+      throw new GrowcadoConfigError('SDK not configured. Call GrowcadoSDK.configure() first.');
+    }
+
+    this.config.preview = enabled;
+    if (previewToken !== undefined) {
+      this.config.previewToken = previewToken;
+    }
+  }
+
+  // Middleware runs in registration order around every request attempt and can change the
+  // request, answer it without calling next(), or transform the response and errors
+  use(middleware: HttpMiddleware): () => void {
+    // Middleware of a request context may personalize its requests, e.g. with the visitor's auth
+    // token, which the cache key does not cover, so the context gets a cache of its own
+    if (this.sharesCache && this.config) {
+      const cacheOptions = resolveCacheOptions(this.config.cache);
+      this.responseCache = cacheOptions ? new ResponseCache(cacheOptions) : null;
+      this.sharesCache = false;
+    }
+
+    this.middleware.push(middleware);
+    const removeFromClient = this.httpClient.use(middleware);
+
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
+        removeFromClient();
+      }
+    };
+  }
+
+  // Drops cached responses matching the filter, or every cached response without one
+  invalidate(filter?: CacheInvalidationFilter): void {
+    this.responseCache?.invalidate(filter);
+  }
+
   // Testing utility method to reset SDK state
   reset(): void {
     this.config = null;
     this.storageManager = null;
+    this.contentBatcher = null;
+    this.responseCache = null;
+    this.sharesCache = false;
+    this.inFlightRequests = new InFlightRequests();
+    this.middleware = [];
     this.httpClient.reset();
     this.utmTracker.reset();
     this.customerManager.reset();
     this.referrerTracker.reset();
+    this.clickIdTracker.reset();
+    this.landingPageTracker.reset();
+    this.sessionManager.reset();
   }
 
   private aggregateHeaders(): Record<string, string> {
@@ -176,13 +453,211 @@ class GrowcadoSDKClass implements SDKInstance {
     const utmHeaders = this.utmTracker.getHeaders();
     const customerHeaders = this.customerManager.getHeaders();
     const referrerHeaders = this.referrerTracker.getHeaders();
+    const clickIdHeaders = this.clickIdTracker.getHeaders();
+    const landingPageHeaders = this.landingPageTracker.getHeaders();
 
     // Merge all headers
-    Object.assign(headers, utmHeaders, customerHeaders, referrerHeaders);
+    Object.assign(headers, utmHeaders, customerHeaders, referrerHeaders, clickIdHeaders, landingPageHeaders);
 
     return headers;
   }
 
+  // Requested locale followed by its fallbacks, without duplicates; empty when no locale is set
+  private resolveLocaleChain(config: { locale?: string; fallbackLocales?: string[] }): string[] {
+    const locale = config.locale ?? this.config?.locale;
+    if (!locale) return [];
+
+    const configuredFallbacks = this.config?.fallbackLocales;
+    const fallbacks = config.fallbackLocales
+      ?? (Array.isArray(configuredFallbacks) ? configuredFallbacks : configuredFallbacks?.[locale])
+      ?? [];
+
+    return [locale, ...fallbacks].filter((value, index, chain) => chain.indexOf(value) === index);
+  }
+
+  // Concurrent identical requests share one fetch; each caller's signal only aborts its own wait
+  private fetchDeduplicated<T>(
+    path: string,
+    headers: Record<string, string> | undefined,
+    locales: string[],
+    options: RequestOptions,
+    cached?: GrowcadoResponse<T>
+  ): Promise<GrowcadoResponse<T>> {
+    // The effective request also carries the tracker headers and any conditional validators
+    const key = JSON.stringify([path, locales, headers, this.aggregateHeaders(), cached?.etag, cached?.lastModified, cached?.locale]);
+
+    return this.inFlightRequests.run(
+      key,
+      options.signal,
+      signal => this.fetchWithLocaleFallback<T>(path, headers, locales, { ...options, signal }, cached),
+      reason => ({ error: new GrowcadoAbortError('Request was aborted', { cause: reason }) })
+    ) as Promise<GrowcadoResponse<T>>;
+  }
+
+  // Tries each locale in turn while the entry is missing (404) and reports the one that resolved
+  private async fetchWithLocaleFallback<T>(
+    path: string,
+    headers: Record<string, string> | undefined,
+    locales: string[],
+    options: RequestOptions,
+    cached?: GrowcadoResponse<T>
+  ): Promise<GrowcadoResponse<T>> {
+    // Validators only apply to the locale the cached response was fetched in
+    const conditional = cached && (cached.etag || cached.lastModified)
+      ? { etag: cached.etag, lastModified: cached.lastModified }
+      : undefined;
+
+    if (locales.length === 0) {
+      return this.httpClient.get<T>(path, headers, conditional ? { ...options, conditional } : options);
+    }
+
+    let response: GrowcadoResponse<T> = {};
+    for (const [index, locale] of locales.entries()) {
+      // Only a 404 for the last locale is an error worth logging
+      const fallbackOptions = { ...options, expectNotFound: index < locales.length - 1 };
+      const requestOptions = conditional && cached?.locale === locale ? { ...fallbackOptions, conditional } : fallbackOptions;
+      response = await this.httpClient.get<T>(`${path}?locale=${encodeURIComponent(locale)}`, headers, requestOptions);
+      if (!response.error) {
+        return { ...response, locale };
+      }
+      if (response.error.code !== GrowcadoErrorCode.NOT_FOUND) {
+        return response;
+      }
+    }
+
+    return response;
+  }
+
+  // Serves fresh entries, serves stale entries while refreshing them, and stores successful fetches
+  private async getCached<T>(
+    cache: ResponseCache<GrowcadoResponse<unknown>>,
+    key: string,
+    tags: CacheTags,
+    load: (cached?: GrowcadoResponse<T>, background?: boolean) => Promise<GrowcadoResponse<T>>
+  ): Promise<GrowcadoResponse<T>> {
+    const cached = cache.get(key);
+    const cachedResponse = cached?.value as GrowcadoResponse<T> | undefined;
+    // Responses still loading when the cache is invalidated must not be stored
+    const generation = cache.generation;
+
+    if (cached?.state === 'fresh') {
+      return { ...cachedResponse, cache: 'hit' };
+    }
+
+    if (cached?.state === 'stale') {
+      cache.revalidate(key, async () => {
+        this.storeInCache(cache, key, await load(cachedResponse, true), tags, generation);
+      });
+      return { ...cachedResponse, cache: 'stale' };
+    }
+
+    // Expired entries still provide validators for a conditional request
+    const response = await load(cachedResponse);
+    this.storeInCache(cache, key, response, tags, generation);
+    return { ...response, cache: response.revalidated ? 'hit' : 'miss' };
+  }
+
+  private storeInCache<T>(
+    cache: ResponseCache<GrowcadoResponse<unknown>>,
+    key: string,
+    response: GrowcadoResponse<T>,
+    tags: CacheTags,
+    generation: number
+  ): void {
+    if (response.error) return;
+
+    // Per-request metadata is set again whenever the entry is served
+    const entry: GrowcadoResponse<T> = { ...response };
+    delete entry.cache;
+    delete entry.revalidated;
+    cache.set(key, entry, tags, generation);
+  }
+
+  // Checks fetched content against its validator; pages are validated item by item
+  private async validateResponse<T>(
+    response: GrowcadoResponse<T>,
+    modelIdentifier: string,
+    validator: ContentValidator | undefined
+  ): Promise<GrowcadoResponse<T>> {
+    if (!validator || response.error || response.data === undefined) {
+      return response;
+    }
+
+    let data: unknown;
+    let issues: ValidationIssue[] = [];
+    if (this.isPage(response.data)) {
+      const items: unknown[] = [];
+      for (const [index, item] of response.data.items.entries()) {
+        const result = await validateContent(validator, item);
+        items.push(result.value);
+        issues.push(...result.issues.map(issue => ({ ...issue, path: ['items', index, ...(issue.path ?? [])] })));
+      }
+      data = { ...response.data, items };
+    } else {
+      const result = await validateContent(validator, response.data);
+      data = result.value;
+      issues = result.issues;
+    }
+
+    if (issues.length === 0) {
+      return { ...response, data: data as T };
+    }
+
+    const [firstIssue] = issues;
+    const path = formatIssuePath(firstIssue.path);
+    const message = `Content for model "${modelIdentifier}" failed validation${path ? ` at "${path}"` : ''}: ${firstIssue.message}`;
+
+    if ((this.config?.validationMode ?? 'error') === 'warn') {
+      console.warn(`[GrowcadoSDK] ${message}`, issues);
+      return response;
+    }
+
+    return {
+      ...(response.locale ? { locale: response.locale } : {}),
+      error: new GrowcadoValidationError(message, path, { details: { modelIdentifier, issues } })
+    };
+  }
+
+  private isPage(data: unknown): data is Page<unknown> {
+    return typeof data === 'object' && data !== null && Array.isArray((data as Page<unknown>).items)
+      && typeof (data as Page<unknown>).hasMore === 'boolean';
+  }
+
+  // Returns the preview token when the call resolves to preview mode, otherwise null
+  private resolvePreviewToken(config: { preview?: boolean; previewToken?: string }): string | null {
+    const preview = config.preview ?? this.config?.preview ?? false;
+    if (!preview) return null;
+
+    const previewToken = config.previewToken ?? this.config?.previewToken;
+    if (!previewToken) {
+      throw new GrowcadoConfigError('Preview token is required when preview mode is enabled.');
+    }
+
+    return previewToken;
+  }
+
+  // Per-call headers; tracker headers are added by the request interceptor
+  private buildRequestHeaders(
+    config: { headers?: Record<string, string>; cxpParameters?: CXPParameters },
+    previewToken?: string | null
+  ): Record<string, string> | undefined {
+    const headers: Record<string, string> = { ...config.headers };
+    if (config.cxpParameters) {
+      const cxpHeader = this.buildCXPParametersHeader(config.cxpParameters);
+      if (cxpHeader) {
+        headers['X-CXP-PARAMETERS'] = cxpHeader;
+      }
+    }
+
+    // Draft content must never be served from HTTP caches
+    if (previewToken) {
+      headers['X-PREVIEW-TOKEN'] = previewToken;
+      headers['Cache-Control'] = 'no-cache';
+    }
+
+    return Object.keys(headers).length > 0 ? headers : undefined;
+  }
+
   private buildCXPParametersHeader(params: CXPParameters): string {
     return Object.entries(params)
       .filter(([, value]) => value !== undefined && value !== '')
@@ -191,5 +666,17 @@ class GrowcadoSDKClass implements SDKInstance {
   }
 }
 
-// Export singleton instance
-export const GrowcadoSDK = new GrowcadoSDKClass(); 
\ No newline at end of file
+/**
+ * Creates an independent SDK client with its own storage, HTTP client and trackers.
+ * Passing a config configures the client immediately.
+ */
+export function createGrowcadoClient(config?: SDKConfig): SDKInstance {
+  const client = new GrowcadoSDKClass();
+  if (config) {
+    client.configure(config);
+  }
+  return client;
+}
+
+// Default client shared by code that imports the singleton
+export const GrowcadoSDK = createGrowcadoClient(); 
\ No newline at end of file
@@ -0,0 +1,76 @@
+interface InFlightRequest<R> {
+  promise: Promise<R>;
+  // Aborts the shared request; null when a caller without a signal joined
+  controller: AbortController | null;
+  subscribers: number;
+}
+
+/**
+ * Shares one promise between concurrent callers with the same key. Each caller can
+ * abort with its own signal; the shared request is only aborted once every caller
+ * has aborted, and never when one of them joined without a signal.
+ */
+export class InFlightRequests<R> {
+  private requests = new Map<string, InFlightRequest<R>>();
+
+  run(
+    key: string,
+    signal: AbortSignal | undefined,
+    task: (signal: AbortSignal | undefined) => Promise<R>,
+    aborted: (reason: unknown) => R
+  ): Promise<R> {
+    if (signal?.aborted) {
+      return Promise.resolve(aborted(signal.reason));
+    }
+
+    let request = this.requests.get(key);
+    if (!request) {
+      const controller = signal ? new AbortController() : null;
+      const promise = task(controller?.signal).finally(() => {
+        if (this.requests.get(key) === request) {
+          this.requests.delete(key);
+        }
+      });
+      request = { promise, controller, subscribers: 0 };
+      this.requests.set(key, request);
+    } else if (!signal) {
+      request.controller = null;
+    }
+
+    request.subscribers++;
+    if (!signal) {
+      return request.promise;
+    }
+
+    const shared = request;
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          // Later callers with the same key must start a new request instead of joining the aborted one
+          if (this.requests.get(key) === shared) {
+            this.requests.delete(key);
+          }
+          shared.controller?.abort(signal.reason);
+        }
+        resolve(aborted(signal.reason));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      shared.promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  get size(): number {
+    return this.requests.size;
+  }
+}
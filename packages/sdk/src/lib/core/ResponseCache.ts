@@ -0,0 +1,108 @@
+import type { CacheConfig, CacheInvalidationFilter } from './types.js';
+
+export type CacheOptions = Required<CacheConfig>;
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  ttl: 60000,
+  staleWhileRevalidate: 0,
+  maxEntries: 100
+};
+
+export type CacheTags = Required<CacheInvalidationFilter>;
+
+export type CacheEntryState = 'fresh' | 'stale' | 'expired';
+
+interface CacheEntry<R> {
+  value: R;
+  tags: CacheTags;
+  storedAt: number;
+}
+
+/**
+ * Resolves SDKConfig.cache into complete options, or null when caching is disabled.
+ */
+export function resolveCacheOptions(cache: boolean | CacheConfig | undefined): CacheOptions | null {
+  if (!cache) return null;
+  return { ...DEFAULT_CACHE_OPTIONS, ...(cache === true ? {} : cache) };
+}
+
+/**
+ * Size-bounded LRU cache whose entries are fresh for `ttl` ms and may then be
+ * served stale for another `staleWhileRevalidate` ms while they are refreshed.
+ * Expired entries stay until they are replaced or evicted.
+ */
+export class ResponseCache<R> {
+  private entries = new Map<string, CacheEntry<R>>();
+  private revalidating = new Set<string>();
+  // Bumped by invalidate(), so responses fetched before an invalidation are not stored
+  private invalidations = 0;
+
+  constructor(private readonly options: CacheOptions) {}
+
+  // Expired entries are still returned so their validators can be used for a conditional request
+  get(key: string): { value: R; state: CacheEntryState } | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const age = Date.now() - entry.storedAt;
+    let state: CacheEntryState = 'fresh';
+    if (age >= this.options.ttl + this.options.staleWhileRevalidate) {
+      state = 'expired';
+    } else if (age >= this.options.ttl) {
+      state = 'stale';
+    }
+
+    return { value: entry.value, state };
+  }
+
+  // Current generation, taken before fetching a response that is stored with set()
+  get generation(): number {
+    return this.invalidations;
+  }
+
+  // Skips values fetched in an earlier generation, which may predate the invalidated content
+  set(key: string, value: R, tags: CacheTags, generation = this.invalidations): void {
+    if (generation !== this.invalidations) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, tags, storedAt: Date.now() });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  // Runs one background refresh per key at a time; failures keep the stale entry
+  revalidate(key: string, refresh: () => Promise<void>): void {
+    if (this.revalidating.has(key)) return;
+
+    this.revalidating.add(key);
+    refresh()
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  // Removes entries matching every given field and returns how many were removed
+  invalidate(filter: CacheInvalidationFilter = {}): number {
+    this.invalidations++;
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      const matches = (Object.keys(filter) as Array<keyof CacheInvalidationFilter>)
+        .every(field => filter[field] === undefined || entry.tags[field] === filter[field]);
+      if (matches) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ContentBatcher } from '../ContentBatcher';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+describe('ContentBatcher', () => {
+  it('should not start tasks until the current tick ends', async () => {
+    const batcher = new ContentBatcher<string>(2);
+    const task = vi.fn().mockResolvedValue('result');
+
+    const promise = batcher.enqueue('a', task);
+    expect(task).not.toHaveBeenCalled();
+
+    await expect(promise).resolves.toBe('result');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run tasks with the same key only once per flush', async () => {
+    const batcher = new ContentBatcher<string>(2);
+    const task = vi.fn().mockResolvedValue('shared');
+
+    const results = await Promise.all([
+      batcher.enqueue('a', task),
+      batcher.enqueue('a', task),
+      batcher.enqueue('a', task)
+    ]);
+
+    expect(results).toEqual(['shared', 'shared', 'shared']);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run the same key again in a later flush', async () => {
+    const batcher = new ContentBatcher<string>(2);
+    const task = vi.fn().mockResolvedValue('result');
+
+    await batcher.enqueue('a', task);
+    await batcher.enqueue('a', task);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    const batcher = new ContentBatcher<number>(2);
+    const gates = Array.from({ length: 5 }, () => deferred<number>());
+    let active = 0;
+    let maxActive = 0;
+
+    const promises = gates.map((gate, index) => batcher.enqueue(`key-${index}`, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      const value = await gate.promise;
+      active--;
+      return value;
+    }));
+
+    // Let the flush start, then release tasks one by one
+    await Promise.resolve();
+    for (let index = 0; index < gates.length; index++) {
+      gates[index].resolve(index);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    await expect(Promise.all(promises)).resolves.toEqual([0, 1, 2, 3, 4]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should share the concurrency limit between flushes', async () => {
+    const batcher = new ContentBatcher<number>(2);
+    const gates = Array.from({ length: 4 }, () => deferred<number>());
+    let active = 0;
+    let maxActive = 0;
+    const enqueue = (index: number) => batcher.enqueue(`key-${index}`, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      const value = await gates[index].promise;
+      active--;
+      return value;
+    });
+
+    const first = [enqueue(0), enqueue(1)];
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const second = [enqueue(2), enqueue(3)];
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(active).toBe(2);
+    for (let index = 0; index < gates.length; index++) {
+      gates[index].resolve(index);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    await expect(Promise.all([...first, ...second])).resolves.toEqual([0, 1, 2, 3]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should never merge tasks enqueued without a key', async () => {
+    const batcher = new ContentBatcher<string>(2);
+    const task = vi.fn().mockResolvedValue('result');
+
+    await Promise.all([batcher.enqueue(null, task), batcher.enqueue(null, task)]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject only the callers of a failing task', async () => {
+    const batcher = new ContentBatcher<string>(2);
+
+    const failing = batcher.enqueue('bad', () => Promise.reject(new Error('boom')));
+    const passing = batcher.enqueue('good', () => Promise.resolve('ok'));
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(passing).resolves.toBe('ok');
+  });
+});
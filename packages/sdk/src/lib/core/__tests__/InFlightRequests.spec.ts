@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InFlightRequests } from '../InFlightRequests';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => { resolve = res; });
+  return { promise, resolve };
+};
+
+const aborted = (reason: unknown) => `aborted:${String((reason as Error)?.name ?? reason)}`;
+
+describe('InFlightRequests', () => {
+  it('should share one task between concurrent callers with the same key', async () => {
+    const requests = new InFlightRequests<string>();
+    const pending = deferred<string>();
+    const task = vi.fn(() => pending.promise);
+
+    const first = requests.run('a', undefined, task, aborted);
+    const second = requests.run('a', undefined, task, aborted);
+    pending.resolve('result');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['result', 'result']);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run separate tasks for different keys and for later calls', async () => {
+    const requests = new InFlightRequests<string>();
+    const task = vi.fn(async () => 'result');
+
+    await Promise.all([requests.run('a', undefined, task, aborted), requests.run('b', undefined, task, aborted)]);
+    await requests.run('a', undefined, task, aborted);
+
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(requests.size).toBe(0);
+  });
+
+  it('should only pass a signal to the task when the first caller has one', async () => {
+    const requests = new InFlightRequests<string>();
+    const task = vi.fn(async (_signal: AbortSignal | undefined) => 'result');
+
+    await requests.run('a', undefined, task, aborted);
+    await requests.run('b', new AbortController().signal, task, aborted);
+
+    expect(task.mock.calls[0]).toEqual([undefined]);
+    expect(task.mock.calls[1][0]).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should resolve an aborting caller without affecting the others', async () => {
+    const requests = new InFlightRequests<string>();
+    const pending = deferred<string>();
+    let taskSignal: AbortSignal | undefined;
+    const controller = new AbortController();
+
+    const first = requests.run('a', controller.signal, (signal) => {
+      taskSignal = signal;
+      return pending.promise;
+    }, aborted);
+    const second = requests.run('a', new AbortController().signal, () => pending.promise, aborted);
+
+    controller.abort();
+    await expect(first).resolves.toBe('aborted:AbortError');
+    expect(taskSignal?.aborted).toBe(false);
+
+    pending.resolve('result');
+    await expect(second).resolves.toBe('result');
+  });
+
+  it('should abort the shared task once every caller aborted', async () => {
+    const requests = new InFlightRequests<string>();
+    let taskSignal: AbortSignal | undefined;
+    const first = new AbortController();
+    const second = new AbortController();
+    const task = (signal: AbortSignal | undefined) => {
+      taskSignal = signal;
+      return new Promise<string>(() => undefined);
+    };
+
+    const results = [requests.run('a', first.signal, task, aborted), requests.run('a', second.signal, task, aborted)];
+    first.abort();
+    second.abort();
+
+    await expect(Promise.all(results)).resolves.toEqual(['aborted:AbortError', 'aborted:AbortError']);
+    expect(taskSignal?.aborted).toBe(true);
+  });
+
+  it('should start a new task for a caller joining after every caller aborted', async () => {
+    const requests = new InFlightRequests<string>();
+    const first = new AbortController();
+    // Like a transport, the task settles as aborted once its signal aborts
+    const task = vi.fn((signal: AbortSignal | undefined) => new Promise<string>((resolve) => {
+      const timer = setTimeout(() => resolve('result'), 0);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve('task aborted');
+      });
+    }));
+
+    const firstResult = requests.run('a', first.signal, task, aborted);
+    first.abort();
+    const secondResult = requests.run('a', new AbortController().signal, task, aborted);
+
+    await expect(firstResult).resolves.toBe('aborted:AbortError');
+    await expect(secondResult).resolves.toBe('result');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(requests.size).toBe(0);
+  });
+
+  it('should not abort the shared task while a caller without a signal waits', async () => {
+    const requests = new InFlightRequests<string>();
+    let taskSignal: AbortSignal | undefined;
+    const controller = new AbortController();
+    const task = (signal: AbortSignal | undefined) => {
+      taskSignal = signal;
+      return new Promise<string>(() => undefined);
+    };
+
+    const result = requests.run('a', controller.signal, task, aborted);
+    void requests.run('a', undefined, task, aborted);
+    controller.abort();
+
+    await expect(result).resolves.toBe('aborted:AbortError');
+    expect(taskSignal?.aborted).toBe(false);
+  });
+
+  it('should resolve already aborted callers without running the task', async () => {
+    const requests = new InFlightRequests<string>();
+    const task = vi.fn(async () => 'result');
+
+    const result = await requests.run('a', AbortSignal.abort(), task, aborted);
+
+    expect(result).toBe('aborted:AbortError');
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ResponseCache, DEFAULT_CACHE_OPTIONS, resolveCacheOptions } from '../ResponseCache';
+
+const tags = (modelIdentifier: string, contentIdentifier = 'main', tenantId = 'tenant') =>
+  ({ tenantId, modelIdentifier, contentIdentifier });
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report entries as fresh until the ttl expires', () => {
+    const cache = new ResponseCache<string>({ ttl: 1000, staleWhileRevalidate: 0, maxEntries: 10 });
+    cache.set('a', 'value', tags('hero'));
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toEqual({ value: 'value', state: 'fresh' });
+
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toEqual({ value: 'value', state: 'expired' });
+  });
+
+  it('should report entries as stale within the stale-while-revalidate window', () => {
+    const cache = new ResponseCache<string>({ ttl: 1000, staleWhileRevalidate: 500, maxEntries: 10 });
+    cache.set('a', 'value', tags('hero'));
+
+    vi.advanceTimersByTime(1200);
+    expect(cache.get('a')).toEqual({ value: 'value', state: 'stale' });
+
+    vi.advanceTimersByTime(300);
+    expect(cache.get('a')?.state).toBe('expired');
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new ResponseCache<string>({ ttl: 1000, staleWhileRevalidate: 0, maxEntries: 2 });
+    cache.set('a', 'A', tags('hero', 'a'));
+    cache.set('b', 'B', tags('hero', 'b'));
+
+    cache.get('a');
+    cache.set('c', 'C', tags('hero', 'c'));
+
+    expect(cache.get('a')?.value).toBe('A');
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('c')?.value).toBe('C');
+  });
+
+  it('should invalidate entries matching the filter', () => {
+    const cache = new ResponseCache<string>(DEFAULT_CACHE_OPTIONS);
+    cache.set('a', 'A', tags('hero', 'a'));
+    cache.set('b', 'B', tags('hero', 'b'));
+    cache.set('c', 'C', tags('footer', 'c'));
+
+    expect(cache.invalidate({ modelIdentifier: 'hero', contentIdentifier: 'a' })).toBe(1);
+    expect(cache.invalidate({ modelIdentifier: 'hero' })).toBe(1);
+    expect(cache.get('c')?.value).toBe('C');
+
+    expect(cache.invalidate()).toBe(1);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should not store values fetched before an invalidation', () => {
+    const cache = new ResponseCache<string>(DEFAULT_CACHE_OPTIONS);
+    const generation = cache.generation;
+
+    cache.invalidate({ modelIdentifier: 'hero' });
+    cache.set('a', 'A', tags('hero', 'a'), generation);
+    expect(cache.get('a')).toBeNull();
+
+    cache.set('a', 'A', tags('hero', 'a'), cache.generation);
+    expect(cache.get('a')?.value).toBe('A');
+  });
+
+  it('should run one revalidation per key at a time', async () => {
+    const cache = new ResponseCache<string>(DEFAULT_CACHE_OPTIONS);
+    let finish!: () => void;
+    const refresh = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+
+    cache.revalidate('a', refresh);
+    cache.revalidate('a', refresh);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+
+    cache.revalidate('a', refresh);
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resolve options from the SDK config', () => {
+    expect(resolveCacheOptions(undefined)).toBeNull();
+    expect(resolveCacheOptions(false)).toBeNull();
+    expect(resolveCacheOptions(true)).toEqual(DEFAULT_CACHE_OPTIONS);
+    expect(resolveCacheOptions({ ttl: 5000 })).toEqual({ ...DEFAULT_CACHE_OPTIONS, ttl: 5000 });
+  });
+});
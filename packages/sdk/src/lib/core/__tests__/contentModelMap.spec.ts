@@ -0,0 +1,39 @@
+import { describe, it, expectTypeOf } from 'vitest';
+import type { GrowcadoResponse, Page, SDKInstance } from '../types';
+
+interface TypedHero {
+  title: string;
+}
+
+declare module '../types' {
+  interface ContentModelMap {
+    'typed-hero': TypedHero;
+  }
+}
+
+describe('ContentModelMap', () => {
+  it('should infer the content type from a mapped model identifier', () => {
+    const getContent = (() => undefined) as unknown as SDKInstance['getContent'];
+
+    expectTypeOf(getContent({ modelIdentifier: 'typed-hero', contentIdentifier: 'home' }))
+      .toEqualTypeOf<Promise<GrowcadoResponse<TypedHero>>>();
+  });
+
+  it('should fall back to the explicit type parameter for unmapped models', () => {
+    const getContent = (() => undefined) as unknown as SDKInstance['getContent'];
+
+    expectTypeOf(getContent<{ slug: string }>({ modelIdentifier: 'other', contentIdentifier: 'home' }))
+      .toEqualTypeOf<Promise<GrowcadoResponse<{ slug: string }>>>();
+  });
+
+  it('should infer the content type for the throwing API', () => {
+    const content = { get: () => undefined, list: () => undefined } as unknown as SDKInstance['content'];
+
+    expectTypeOf(content.get({ modelIdentifier: 'typed-hero', contentIdentifier: 'home' }))
+      .toEqualTypeOf<Promise<TypedHero>>();
+    expectTypeOf(content.get<{ slug: string }>({ modelIdentifier: 'other', contentIdentifier: 'home' }))
+      .toEqualTypeOf<Promise<{ slug: string }>>();
+    expectTypeOf(content.list<TypedHero>({ modelIdentifier: 'typed-hero' }))
+      .toEqualTypeOf<Promise<Page<TypedHero>>>();
+  });
+});
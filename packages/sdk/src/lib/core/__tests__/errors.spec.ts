@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GrowcadoErrorCode,
+  GrowcadoError,
+  GrowcadoNetworkError,
+  GrowcadoHttpError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError,
+  GrowcadoAbortError,
+  GrowcadoConfigError,
+  GrowcadoValidationError
+} from '../errors';
+
+describe('Growcado errors', () => {
+  it('should give every error class its own name and code', () => {
+    const errors = [
+      [new GrowcadoNetworkError('offline'), 'GrowcadoNetworkError', 'NETWORK_ERROR'],
+      [new GrowcadoHttpError('failed', 500), 'GrowcadoHttpError', 'HTTP_ERROR'],
+      [new GrowcadoNotFoundError('missing'), 'GrowcadoNotFoundError', 'NOT_FOUND'],
+      [new GrowcadoTimeoutError('slow'), 'GrowcadoTimeoutError', 'TIMEOUT'],
+      [new GrowcadoAbortError('aborted'), 'GrowcadoAbortError', 'ABORTED'],
+      [new GrowcadoConfigError('not configured'), 'GrowcadoConfigError', 'CONFIG_ERROR'],
+      [new GrowcadoValidationError('invalid', 'title'), 'GrowcadoValidationError', 'VALIDATION_ERROR']
+    ] as const;
+
+    errors.forEach(([error, name, code]) => {
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(GrowcadoError);
+      expect(error.name).toBe(name);
+      expect(error.code).toBe(code);
+      expect(GrowcadoErrorCode[code]).toBe(code);
+    });
+  });
+
+  it('should default to the unknown error code', () => {
+    expect(new GrowcadoError('failed').code).toBe(GrowcadoErrorCode.UNKNOWN_ERROR);
+  });
+
+  it('should treat not found as an HTTP error with status 404', () => {
+    const error = new GrowcadoNotFoundError('missing', { details: { message: 'missing' } });
+
+    expect(error).toBeInstanceOf(GrowcadoHttpError);
+    expect(error.status).toBe(404);
+    expect(error.details).toEqual({ message: 'missing' });
+  });
+
+  it('should keep the validation path and the cause', () => {
+    const cause = new Error('underlying');
+    const error = new GrowcadoValidationError('invalid', 'items[1].title', { cause });
+
+    expect(error.path).toBe('items[1].title');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should serialize with its message and code', () => {
+    const error = new GrowcadoHttpError('failed', 503, { details: { retry: true }, cause: new Error('underlying') });
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: 'GrowcadoHttpError',
+      message: 'failed',
+      code: 'HTTP_ERROR',
+      status: 503,
+      details: { retry: true }
+    });
+  });
+});
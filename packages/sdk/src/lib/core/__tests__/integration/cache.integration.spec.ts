@@ -0,0 +1,331 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK } from '../../GrowcadoSDK';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Cache Integration Tests', () => {
+  let mockTransport: any;
+  let consoleSpy: any;
+
+  const content = { modelIdentifier: 'hero', contentIdentifier: 'main' };
+
+  // Answers each request with the next title
+  const respondWith = (...titles: string[]) => {
+    titles.forEach(title => mockTransport.send.mockResolvedValueOnce({ status: 200, headers: {}, data: { title } }));
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    GrowcadoSDK.reset();
+
+    mockTransport = {
+      send: vi.fn()
+    };
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
+    consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should not cache or add metadata when the cache is disabled', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    respondWith('first', 'second');
+
+    await GrowcadoSDK.getContent(content);
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result).toEqual({ data: { title: 'second' } });
+    expect(mockTransport.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    respondWith('first', 'second');
+
+    const miss = await GrowcadoSDK.getContent(content);
+    const hit = await GrowcadoSDK.getContent(content);
+
+    expect(miss).toEqual({ data: { title: 'first' }, cache: 'miss' });
+    expect(hit).toEqual({ data: { title: 'first' }, cache: 'hit' });
+    expect(mockTransport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch again once the ttl expires', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000 } });
+    respondWith('first', 'second');
+
+    await GrowcadoSDK.getContent(content);
+    vi.advanceTimersByTime(1000);
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result).toEqual({ data: { title: 'second' }, cache: 'miss' });
+  });
+
+  it('should serve stale content while revalidating in the background', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000, staleWhileRevalidate: 5000 } });
+    respondWith('first', 'second');
+
+    await GrowcadoSDK.getContent(content);
+    vi.advanceTimersByTime(2000);
+
+    const stale = await GrowcadoSDK.getContent(content);
+    expect(stale).toEqual({ data: { title: 'first' }, cache: 'stale' });
+
+    await vi.advanceTimersByTimeAsync(0);
+    const refreshed = await GrowcadoSDK.getContent(content);
+    expect(refreshed).toEqual({ data: { title: 'second' }, cache: 'hit' });
+    expect(mockTransport.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not abort the background revalidation when the caller aborts', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000, staleWhileRevalidate: 5000 } });
+    respondWith('first');
+    await GrowcadoSDK.getContent(content);
+    vi.advanceTimersByTime(2000);
+
+    // Settles as aborted once the request's signal aborts, like a real transport
+    mockTransport.send.mockImplementationOnce(({ signal }: { signal?: AbortSignal }) => new Promise((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' })));
+      setTimeout(() => resolve({ status: 200, headers: {}, data: { title: 'second' } }), 100);
+    }));
+    const controller = new AbortController();
+    const stale = await GrowcadoSDK.getContent({ ...content, signal: controller.signal });
+    controller.abort();
+
+    await vi.advanceTimersByTimeAsync(100);
+    const refreshed = await GrowcadoSDK.getContent(content);
+
+    expect(stale.cache).toBe('stale');
+    expect(refreshed).toEqual({ data: { title: 'second' }, cache: 'hit' });
+  });
+
+  it('should not cache errors', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    mockTransport.send
+      .mockRejectedValueOnce({ response: { status: 500, data: { message: 'Server Error' } } })
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: { title: 'recovered' } });
+
+    const failed = await GrowcadoSDK.getContent(content);
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(failed.error?.status).toBe(500);
+    expect(failed.cache).toBe('miss');
+    expect(result).toEqual({ data: { title: 'recovered' }, cache: 'miss' });
+  });
+
+  it('should key entries by content and personalization headers', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    respondWith('a', 'b', 'c', 'd');
+
+    await GrowcadoSDK.getContent(content);
+    await GrowcadoSDK.getContent({ ...content, contentIdentifier: 'other' });
+    await GrowcadoSDK.getContent({ ...content, cxpParameters: { segment: 'vip' } });
+    GrowcadoSDK.setCustomerIdentifiers({ email: 'user@example.com' });
+    const personalized = await GrowcadoSDK.getContent(content);
+
+    expect(personalized).toEqual({ data: { title: 'd' }, cache: 'miss' });
+    expect(mockTransport.send).toHaveBeenCalledTimes(4);
+  });
+
+  it('should keep serving cached entries across page views of a session', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true, enableSessionTracking: true });
+    respondWith('first', 'second');
+
+    await GrowcadoSDK.getContent(content);
+    GrowcadoSDK.trackPageView();
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result).toEqual({ data: { title: 'first' }, cache: 'hit' });
+    expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    expect(mockTransport.send.mock.calls[0][0].headers['X-SESSION']).toContain('page_count=1');
+  });
+
+  it('should invalidate entries by model', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    respondWith('first', 'second', 'third');
+
+    await GrowcadoSDK.getContent(content);
+    await GrowcadoSDK.getContent({ modelIdentifier: 'footer', contentIdentifier: 'main' });
+
+    GrowcadoSDK.invalidate({ modelIdentifier: 'hero' });
+
+    expect((await GrowcadoSDK.getContent(content)).cache).toBe('miss');
+    expect((await GrowcadoSDK.getContent({ modelIdentifier: 'footer', contentIdentifier: 'main' })).cache).toBe('hit');
+  });
+
+  it('should not store a background revalidation that was pending during invalidation', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000, staleWhileRevalidate: 5000 } });
+    respondWith('first');
+    await GrowcadoSDK.getContent(content);
+    vi.advanceTimersByTime(2000);
+
+    mockTransport.send.mockImplementationOnce(() => new Promise(resolve => {
+      setTimeout(() => resolve({ status: 200, headers: {}, data: { title: 'before publish' } }), 100);
+    }));
+    await GrowcadoSDK.getContent(content);
+    GrowcadoSDK.invalidate({ modelIdentifier: 'hero' });
+    await vi.advanceTimersByTimeAsync(100);
+
+    respondWith('after publish');
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result).toEqual({ data: { title: 'after publish' }, cache: 'miss' });
+  });
+
+  it('should let a call bypass the cache', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    respondWith('first', 'second');
+
+    await GrowcadoSDK.getContent(content);
+    const result = await GrowcadoSDK.getContent({ ...content, cache: false });
+
+    expect(result).toEqual({ data: { title: 'second' } });
+  });
+
+  it('should never cache preview content', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    respondWith('draft-1', 'draft-2');
+
+    await GrowcadoSDK.getContent({ ...content, preview: true, previewToken: 'token' });
+    const result = await GrowcadoSDK.getContent({ ...content, preview: true, previewToken: 'token' });
+
+    expect(result).toEqual({ data: { title: 'draft-2' }, isPreview: true });
+  });
+
+  it('should share the cache with request contexts', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    respondWith('first', 'second');
+
+    await GrowcadoSDK.getContent(content);
+    const result = await GrowcadoSDK.withRequest({ url: 'https://example.com/' }).getContent(content);
+
+    expect(result.cache).toBe('hit');
+  });
+
+  it('should not share the cache with request contexts that add their own middleware', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+    mockTransport.send.mockImplementation(async ({ headers }: { headers: Record<string, string> }) =>
+      ({ status: 200, headers: {}, data: { title: headers['Authorization'] ?? 'anonymous' } }));
+
+    const visit = (token: string) => {
+      const context = GrowcadoSDK.withRequest({ url: 'https://example.com/' });
+      context.use((request, next) => next({ ...request, headers: { ...request.headers, Authorization: token } }));
+      return context.getContent(content);
+    };
+
+    await GrowcadoSDK.getContent(content);
+    const first = await visit('Bearer first');
+    const second = await visit('Bearer second');
+
+    expect(first).toEqual({ data: { title: 'Bearer first' }, cache: 'miss' });
+    expect(second).toEqual({ data: { title: 'Bearer second' }, cache: 'miss' });
+    expect(await GrowcadoSDK.getContent(content)).toEqual({ data: { title: 'anonymous' }, cache: 'hit' });
+  });
+
+  describe('Conditional Requests', () => {
+    const withValidators = (title: string, etag: string) => ({
+      status: 200,
+      data: { title },
+      headers: { etag, 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' }
+    });
+
+    it('should revalidate expired entries with their validators', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000 } });
+      mockTransport.send
+        .mockResolvedValueOnce(withValidators('first', '"v1"'))
+        .mockResolvedValueOnce({ status: 304, headers: {}, data: undefined });
+
+      await GrowcadoSDK.getContent(content);
+      vi.advanceTimersByTime(1000);
+      const result = await GrowcadoSDK.getContent(content);
+
+      const [request] = mockTransport.send.mock.calls[1];
+      expect(request.headers['If-None-Match']).toBe('"v1"');
+      expect(request.headers['If-Modified-Since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+      expect(result).toEqual({
+        data: { title: 'first' },
+        etag: '"v1"',
+        lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+        revalidated: true,
+        cache: 'hit'
+      });
+    });
+
+    it('should keep a revalidated entry fresh for another ttl', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000 } });
+      mockTransport.send
+        .mockResolvedValueOnce(withValidators('first', '"v1"'))
+        .mockResolvedValueOnce({ status: 304, headers: {}, data: undefined });
+
+      await GrowcadoSDK.getContent(content);
+      vi.advanceTimersByTime(1000);
+      await GrowcadoSDK.getContent(content);
+      const result = await GrowcadoSDK.getContent(content);
+
+      expect(result.cache).toBe('hit');
+      expect(result.revalidated).toBeUndefined();
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should replace the entry when the content changed', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000 } });
+      mockTransport.send
+        .mockResolvedValueOnce(withValidators('first', '"v1"'))
+        .mockResolvedValueOnce(withValidators('second', '"v2"'));
+
+      await GrowcadoSDK.getContent(content);
+      vi.advanceTimersByTime(1000);
+      const result = await GrowcadoSDK.getContent(content);
+
+      expect(result.data).toEqual({ title: 'second' });
+      expect(result.etag).toBe('"v2"');
+      expect(result.cache).toBe('miss');
+      expect(result.revalidated).toBeUndefined();
+    });
+
+    it('should revalidate stale entries conditionally in the background', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: { ttl: 1000, staleWhileRevalidate: 5000 } });
+      mockTransport.send
+        .mockResolvedValueOnce(withValidators('first', '"v1"'))
+        .mockResolvedValueOnce({ status: 304, headers: {}, data: undefined });
+
+      await GrowcadoSDK.getContent(content);
+      vi.advanceTimersByTime(2000);
+      await GrowcadoSDK.getContent(content);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const [request] = mockTransport.send.mock.calls[1];
+      expect(request.headers['If-None-Match']).toBe('"v1"');
+      expect(await GrowcadoSDK.getContent(content)).toMatchObject({ data: { title: 'first' }, cache: 'hit' });
+    });
+
+    it('should not send validators without a cached entry', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+      mockTransport.send.mockResolvedValueOnce(withValidators('first', '"v1"'));
+
+      await GrowcadoSDK.getContent(content);
+
+      const [request] = mockTransport.send.mock.calls[0];
+      expect(request.headers['If-None-Match']).toBeUndefined();
+      expect(request.headers['If-Modified-Since']).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
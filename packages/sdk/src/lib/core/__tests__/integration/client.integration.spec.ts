@@ -0,0 +1,148 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK, createGrowcadoClient } from '../../GrowcadoSDK';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Client Factory Integration Tests', () => {
+  let transports: Array<{ send: any }>;
+  let localStorageMock: any;
+
+  // Fetches content through a client and returns the request its transport sent
+  const sendRequest = async (client: ReturnType<typeof createGrowcadoClient>, transport: { send: any }) => {
+    await client.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+    return transport.send.mock.calls[transport.send.mock.calls.length - 1][0];
+  };
+
+  beforeEach(() => {
+    GrowcadoSDK.reset();
+
+    // Every client gets its own transport
+    transports = [];
+    vi.mocked(FetchTransport).mockImplementation((() => {
+      const transport = { send: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: {} }) };
+      transports.push(transport);
+      return transport;
+    }) as any);
+
+    // Create localStorage mock
+    let store: Record<string, string> = {};
+    localStorageMock = {
+      getItem: vi.fn((key: string) => store[key] || null),
+      setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+      removeItem: vi.fn((key: string) => { delete store[key]; }),
+      clear: vi.fn(() => { store = {}; })
+    };
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+    Object.defineProperty(global, 'localStorage', {
+      value: localStorageMock,
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+  });
+
+  describe('createGrowcadoClient', () => {
+    it('should return an unconfigured client when no config is passed', () => {
+      const client = createGrowcadoClient();
+
+      expect(client.getConfig()).toBeNull();
+      expect(client).not.toBe(GrowcadoSDK);
+    });
+
+    it('should configure the client when a config is passed', () => {
+      const client = createGrowcadoClient({ tenantId: 'tenant-a' });
+
+      expect(client.getConfig()?.tenantId).toBe('tenant-a');
+      expect(GrowcadoSDK.getConfig()).toBeNull();
+    });
+
+    it('should keep configuration separate between clients', async () => {
+      const clientA = createGrowcadoClient({ tenantId: 'tenant-a', baseURL: 'https://a.example.com/' });
+      const clientB = createGrowcadoClient({ tenantId: 'tenant-b', baseURL: 'https://b.example.com/' });
+
+      expect(clientA.getConfig()?.baseURL).toBe('https://a.example.com/');
+      expect(clientB.getConfig()?.baseURL).toBe('https://b.example.com/');
+      expect((await sendRequest(clientA, transports[0])).url).toBe('https://a.example.com/cms/tenant/tenant-a/published/hero/main');
+      expect((await sendRequest(clientB, transports[1])).url).toBe('https://b.example.com/cms/tenant/tenant-b/published/hero/main');
+    });
+
+    it('should send requests through each client\'s own HTTP client', async () => {
+      const clientA = createGrowcadoClient({ tenantId: 'tenant-a' });
+      const clientB = createGrowcadoClient({ tenantId: 'tenant-b' });
+
+      await clientA.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+      await clientB.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+      expect(transports[0].send).toHaveBeenCalledTimes(1);
+      expect(transports[0].send).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/tenant-a/published/hero/main' }));
+      expect(transports[1].send).toHaveBeenCalledTimes(1);
+      expect(transports[1].send).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/tenant-b/published/hero/main' }));
+    });
+
+    it('should not leak in-memory tracking data between clients', async () => {
+      const clientA = createGrowcadoClient({ tenantId: 'tenant-a', storage: 'memory' });
+      const clientB = createGrowcadoClient({ tenantId: 'tenant-b', storage: 'memory' });
+
+      clientA.setCustomerIdentifiers({ userId: 'user-a' });
+      clientA.setUTMParameters({ source: 'google' });
+
+      const headersA = (await sendRequest(clientA, transports[0])).headers;
+      const headersB = (await sendRequest(clientB, transports[1])).headers;
+
+      expect(headersA['X-CUSTOMER-IDENTIFIERS']).toBe('user_id=user-a');
+      expect(headersA['X-UTM']).toBe('source=google');
+      expect(headersB['X-CUSTOMER-IDENTIFIERS']).toBe('none:none');
+      expect(headersB['X-UTM']).toBeUndefined();
+      expect(clientB.getUTMParameters()).toBeNull();
+    });
+
+    it('should prefix storage keys with the configured namespace', () => {
+      const clientA = createGrowcadoClient({ tenantId: 'tenant-a', namespace: 'app-a' });
+      const clientB = createGrowcadoClient({ tenantId: 'tenant-b', namespace: 'app-b' });
+
+      clientA.setUTMParameters({ source: 'google' });
+      clientB.setUTMParameters({ source: 'facebook' });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('app-a.cxp_utm_params', expect.stringContaining('"value":"source=google"'));
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('app-b.cxp_utm_params', expect.stringContaining('"value":"source=facebook"'));
+      expect(clientA.getUTMParameters()).toEqual({ source: 'google' });
+      expect(clientB.getUTMParameters()).toEqual({ source: 'facebook' });
+    });
+
+    it('should keep tenants on one origin apart by default', () => {
+      const clientA = createGrowcadoClient({ tenantId: 'tenant-a' });
+      const clientB = createGrowcadoClient({ tenantId: 'tenant-b' });
+
+      clientA.setCustomerIdentifiers({ userId: 'user-a' });
+      clientB.setCustomerIdentifiers({ userId: 'user-b' });
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('tenant-a.cxp_customer_identifiers', JSON.stringify({ userId: 'user-a' }));
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('tenant-b.cxp_customer_identifiers', JSON.stringify({ userId: 'user-b' }));
+    });
+
+    it('should leave the default client untouched when other clients reset', () => {
+      GrowcadoSDK.configure({ tenantId: 'default-tenant' });
+      const client = createGrowcadoClient({ tenantId: 'tenant-a' });
+
+      client.reset();
+
+      expect(client.getConfig()).toBeNull();
+      expect(GrowcadoSDK.getConfig()?.tenantId).toBe('default-tenant');
+    });
+  });
+});
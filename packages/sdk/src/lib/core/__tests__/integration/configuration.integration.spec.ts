@@ -1,21 +1,14 @@
 import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
 import { GrowcadoSDK } from '../../GrowcadoSDK';
-import axios from 'axios';
-
-// Mock axios at the top level of this test file
-vi.mock('axios', async () => {
-  const actual = await vi.importActual('axios');
-  return {
-    ...actual,
-    default: {
-      create: vi.fn()
-    }
-  };
-});
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
 
 describe('SDK Configuration Integration Tests', () => {
-  let mockAxiosInstance: any;
-  let mockAxiosCreate: any;
+  let mockTransport: any;
   let localStorageMock: any;
   let windowMock: any;
   let documentMock: any;
@@ -25,18 +18,10 @@ describe('SDK Configuration Integration Tests', () => {
     GrowcadoSDK.reset();
 
     // Create fresh mocks for each test
-    mockAxiosInstance = {
-      get: vi.fn(),
-      interceptors: {
-        request: {
-          use: vi.fn()
-        }
-      }
+    mockTransport = {
+      send: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: {} })
     };
-
-    // Set up axios.create mock
-    mockAxiosCreate = vi.mocked(axios.create);
-    mockAxiosCreate.mockReturnValue(mockAxiosInstance);
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
 
     // Create localStorage mock
     let store: Record<string, string> = {};
@@ -81,7 +66,7 @@ describe('SDK Configuration Integration Tests', () => {
   });
 
   describe('SDK Configuration Integration', () => {
-    it('should coordinate all components during configuration', () => {
+    it('should coordinate all components during configuration', async () => {
       GrowcadoSDK.configure({
         tenantId: 'test-tenant',
         baseURL: 'https://custom.api.com/',
@@ -90,15 +75,12 @@ describe('SDK Configuration Integration Tests', () => {
         storage: 'localStorage'
       });
 
-      // Verify HTTP client is configured
-      expect(mockAxiosCreate).toHaveBeenCalledWith({
-        baseURL: 'https://custom.api.com/'
-      });
-
-      // Verify request interceptor is set up
-      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalledWith(
-        expect.any(Function)
-      );
+      // Verify HTTP client is configured with the default transport
+      expect(FetchTransport).toHaveBeenCalledTimes(1);
+      await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+      expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://custom.api.com/cms/tenant/test-tenant/published/hero/main'
+      }));
 
       // Verify configuration is stored
       const config = GrowcadoSDK.getConfig();
@@ -125,14 +107,14 @@ describe('SDK Configuration Integration Tests', () => {
 
       // Verify UTM tracking was initialized
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_utm_params',
-        'source=google&medium=cpc'
+        'test-tenant.cxp_utm_params',
+        expect.stringContaining('"value":"source=google&medium=cpc"')
       );
 
       // Verify referrer tracking was initialized
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_initial_referrer',
-        'https://google.com'
+        'test-tenant.cxp_initial_referrer',
+        expect.stringContaining('"value":"https://google.com"')
       );
     });
 
@@ -177,7 +159,7 @@ describe('SDK Configuration Integration Tests', () => {
   });
 
   describe('Storage Mode Integration', () => {
-    it('should work correctly in memory mode', () => {
+    it('should work correctly in memory mode', async () => {
       GrowcadoSDK.configure({
         tenantId: 'test-tenant',
         storage: 'memory',
@@ -190,14 +172,29 @@ describe('SDK Configuration Integration Tests', () => {
       // Should not use localStorage in memory mode
       expect(localStorageMock.setItem).not.toHaveBeenCalled();
 
-      // But should still work in request interceptor - need to check if interceptor was set up
-      if (mockAxiosInstance.interceptors.request.use.mock.calls.length > 0) {
-        const interceptorFunction = mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
-        const requestConfig = { headers: {} };
-        const modifiedConfig = interceptorFunction(requestConfig);
+      // But identifiers should still be sent with requests
+      await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+      const [request] = mockTransport.send.mock.calls[0];
+      expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
+    });
 
-        expect(modifiedConfig.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
-      }
+    it('should persist tracking data through a custom storage adapter', async () => {
+      const values = new Map<string, string>([['test-tenant.cxp_customer_identifiers', JSON.stringify({ userId: '42' })]]);
+      const adapter = {
+        getItem: vi.fn((key: string) => values.get(key) ?? null),
+        setItem: vi.fn((key: string, value: string) => { values.set(key, value); }),
+        removeItem: vi.fn((key: string) => { values.delete(key); })
+      };
+
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: adapter });
+
+      await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+      const [request] = mockTransport.send.mock.calls[0];
+      expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('user_id=42');
+
+      GrowcadoSDK.setCustomerIdentifiers({ email: 'test@example.com' });
+      expect(adapter.setItem).toHaveBeenCalledWith('test-tenant.cxp_customer_identifiers', JSON.stringify({ userId: '42', email: 'test@example.com' }));
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,129 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK } from '../../GrowcadoSDK';
+import {
+  GrowcadoConfigError,
+  GrowcadoHttpError,
+  GrowcadoNetworkError,
+  GrowcadoNotFoundError,
+  GrowcadoValidationError
+} from '../../errors';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Content API Integration Tests', () => {
+  let mockTransport: any;
+  let consoleErrorSpy: any;
+
+  const content = { modelIdentifier: 'hero', contentIdentifier: 'main' };
+
+  beforeEach(() => {
+    GrowcadoSDK.reset();
+
+    mockTransport = {
+      send: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } })
+    };
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+  });
+
+  describe('content.get', () => {
+    it('should resolve to the content', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+
+      const result = await GrowcadoSDK.content.get<{ title: string }>(content);
+
+      expect(result).toEqual({ title: 'Hello' });
+      expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main'
+      }));
+    });
+
+    it('should reject with a not found error', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      mockTransport.send.mockResolvedValue({ status: 404, headers: {}, data: { message: 'Content not found' } });
+
+      const result = GrowcadoSDK.content.get(content);
+
+      await expect(result).rejects.toBeInstanceOf(GrowcadoNotFoundError);
+      await expect(result).rejects.toMatchObject({ message: 'Content not found', status: 404 });
+    });
+
+    it('should reject with a network error', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      mockTransport.send.mockRejectedValue(new Error('Network Error'));
+
+      await expect(GrowcadoSDK.content.get(content)).rejects.toBeInstanceOf(GrowcadoNetworkError);
+    });
+
+    it('should reject with validation errors', async () => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        validators: { hero: { type: 'object', required: ['headline'] } }
+      });
+
+      await expect(GrowcadoSDK.content.get(content)).rejects.toBeInstanceOf(GrowcadoValidationError);
+    });
+
+    it('should reject with configuration errors', async () => {
+      await expect(GrowcadoSDK.content.get(content)).rejects.toBeInstanceOf(GrowcadoConfigError);
+    });
+
+    it('should share the cache with getContent()', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', cache: true });
+
+      await GrowcadoSDK.getContent(content);
+      const result = await GrowcadoSDK.content.get(content);
+
+      expect(result).toEqual({ title: 'Hello' });
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('content.list and content.query', () => {
+    it('should resolve to the page', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [{ title: 'One' }], total: 1 } });
+
+      const listed = await GrowcadoSDK.content.list<{ title: string }>({ modelIdentifier: 'hero' });
+      const queried = await GrowcadoSDK.content.query<{ title: string }>({ modelIdentifier: 'hero', limit: 1 });
+
+      expect(listed.items).toEqual([{ title: 'One' }]);
+      expect(queried.items).toEqual([{ title: 'One' }]);
+    });
+
+    it('should reject with HTTP errors', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      mockTransport.send.mockResolvedValue({ status: 500, headers: {}, data: { message: 'Server error' } });
+
+      await expect(GrowcadoSDK.content.list({ modelIdentifier: 'hero' })).rejects.toBeInstanceOf(GrowcadoHttpError);
+    });
+  });
+
+  it('should be available on request contexts', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', ssrMode: true });
+
+    const result = await GrowcadoSDK.withRequest({ url: 'https://shop.example.com/' }).content.get(content);
+
+    expect(result).toEqual({ title: 'Hello' });
+  });
+});
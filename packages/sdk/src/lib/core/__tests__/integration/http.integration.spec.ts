@@ -1,21 +1,21 @@
 import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
 import { GrowcadoSDK } from '../../GrowcadoSDK';
-import axios from 'axios';
-
-// Mock axios at the top level of this test file
-vi.mock('axios', async () => {
-  const actual = await vi.importActual('axios');
-  return {
-    ...actual,
-    default: {
-      create: vi.fn()
-    }
-  };
-});
+import {
+  GrowcadoAbortError,
+  GrowcadoConfigError,
+  GrowcadoHttpError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError
+} from '../../errors';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
 
 describe('HTTP Integration Tests', () => {
-  let mockAxiosInstance: any;
-  let mockAxiosCreate: any;
+  let mockTransport: any;
   let localStorageMock: any;
   let windowMock: any;
   let documentMock: any;
@@ -25,18 +25,10 @@ describe('HTTP Integration Tests', () => {
     GrowcadoSDK.reset();
 
     // Create fresh mocks for each test
-    mockAxiosInstance = {
-      get: vi.fn(),
-      interceptors: {
-        request: {
-          use: vi.fn()
-        }
-      }
+    mockTransport = {
+      send: vi.fn()
     };
-
-    // Set up axios.create mock
-    mockAxiosCreate = vi.mocked(axios.create);
-    mockAxiosCreate.mockReturnValue(mockAxiosInstance);
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
 
     // Create localStorage mock
     let store: Record<string, string> = {};
@@ -80,83 +72,87 @@ describe('HTTP Integration Tests', () => {
     vi.clearAllMocks();
   });
 
-  const getRequestInterceptor = (mockAxiosInstance: any) => {
-    if (!mockAxiosInstance.interceptors.request.use.mock.calls[0]) {
-      throw new Error('Request interceptor not set up. Make sure SDK is configured first.');
-    }
-    return mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
+  // Fetches content and returns the request the transport was asked to send
+  const sendRequest = async (headers?: Record<string, string>) => {
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    await GrowcadoSDK.getContent({ modelIdentifier: 'blog-post', contentIdentifier: 'test-post', headers });
+    return mockTransport.send.mock.calls[mockTransport.send.mock.calls.length - 1][0];
   };
 
-  describe('Request Interceptor Integration', () => {
-    let interceptorFunction: any;
-
+  describe('Header Middleware Integration', () => {
     beforeEach(() => {
       GrowcadoSDK.configure({
         tenantId: 'test-tenant',
         storage: 'localStorage'
       });
-      
-      // Get the interceptor function
-      interceptorFunction = getRequestInterceptor(mockAxiosInstance);
     });
 
-    it('should combine headers from all tracking components', () => {
+    it('should combine headers from all tracking components', async () => {
       // Set up all tracking data
       GrowcadoSDK.setCustomerIdentifiers({ email: 'test@example.com', userId: '123' });
       
       localStorageMock.getItem.mockImplementation((key: string) => {
         switch (key) {
-          case 'cxp_utm_params': return 'source=google&medium=cpc';
-          case 'cxp_initial_referrer': return 'https://google.com';
-          case 'cxp_customer_identifiers': return JSON.stringify({ email: 'test@example.com', userId: '123' });
+          case 'test-tenant.cxp_utm_params': return 'source=google&medium=cpc';
+          case 'test-tenant.cxp_initial_referrer': return 'https://google.com';
+          case 'test-tenant.cxp_customer_identifiers': return JSON.stringify({ email: 'test@example.com', userId: '123' });
           default: return null;
         }
       });
 
-      const requestConfig = { headers: {} };
-      const modifiedConfig = interceptorFunction(requestConfig);
+      const request = await sendRequest();
 
       // Verify all headers are present
-      expect(modifiedConfig.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com&user_id=123');
-      expect(modifiedConfig.headers['X-UTM']).toBe('source=google&medium=cpc');
-      expect(modifiedConfig.headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://google.com');
+      expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com&user_id=123');
+      expect(request.headers['X-UTM']).toBe('source=google&medium=cpc');
+      expect(request.headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://google.com');
     });
 
-    it('should handle partial tracking data gracefully', () => {
+    it('should handle partial tracking data gracefully', async () => {
       // Only set customer identifiers
       GrowcadoSDK.setCustomerIdentifiers({ email: 'test@example.com' });
       
       localStorageMock.getItem.mockImplementation((key: string) => {
-        if (key === 'cxp_customer_identifiers') {
+        if (key === 'test-tenant.cxp_customer_identifiers') {
           return JSON.stringify({ email: 'test@example.com' });
         }
         return null;
       });
 
-      const requestConfig = { headers: {} };
-      const modifiedConfig = interceptorFunction(requestConfig);
+      const request = await sendRequest();
 
       // Verify only customer identifier header is present
-      expect(modifiedConfig.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
-      expect(modifiedConfig.headers['X-UTM']).toBeUndefined();
-      expect(modifiedConfig.headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBeUndefined();
+      expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
+      expect(request.headers['X-UTM']).toBeUndefined();
+      expect(request.headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBeUndefined();
     });
 
-    it('should preserve existing headers and create headers object if missing', () => {
+    it('should preserve per-call headers alongside tracking headers', async () => {
       GrowcadoSDK.setCustomerIdentifiers({ email: 'test@example.com' });
 
-      // Test with no headers object
-      const configWithoutHeaders = {};
-      const modifiedConfig1 = interceptorFunction(configWithoutHeaders);
-      expect(modifiedConfig1.headers).toBeDefined();
+      // Test without per-call headers
+      const request1 = await sendRequest();
+      expect(request1.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
 
-      // Test with existing headers
-      const configWithHeaders = { 
-        headers: { 'Authorization': 'Bearer token' } 
-      };
-      const modifiedConfig2 = interceptorFunction(configWithHeaders);
-      expect(modifiedConfig2.headers['Authorization']).toBe('Bearer token');
-      expect(modifiedConfig2.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
+      // Test with per-call headers
+      const request2 = await sendRequest({ 'Authorization': 'Bearer token' });
+      expect(request2.headers['Authorization']).toBe('Bearer token');
+      expect(request2.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
+    });
+
+    it('should apply tracking headers to every retry attempt', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', retry: { maxAttempts: 2, baseDelay: 0 } });
+      GrowcadoSDK.setCustomerIdentifiers({ email: 'test@example.com' });
+      mockTransport.send
+        .mockResolvedValueOnce({ status: 503, headers: {}, data: {} })
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: {} });
+
+      await GrowcadoSDK.getContent({ modelIdentifier: 'blog-post', contentIdentifier: 'test-post' });
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+      mockTransport.send.mock.calls.forEach(([request]: [{ headers: Record<string, string> }]) => {
+        expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('email=test@example.com');
+      });
     });
   });
 
@@ -173,9 +169,11 @@ describe('HTTP Integration Tests', () => {
       GrowcadoSDK.setCustomerIdentifiers({ email: 'test@example.com' });
       
       const mockResponse = {
+        status: 200,
+        headers: {},
         data: { id: 1, title: 'Test Content' }
       };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      mockTransport.send.mockResolvedValue(mockResponse);
 
       const result = await GrowcadoSDK.getContent({
         modelIdentifier: 'blog-post',
@@ -183,9 +181,8 @@ describe('HTTP Integration Tests', () => {
       });
 
       // Verify correct URL was called
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        'cms/tenant/test-tenant/published/blog-post/test-post',
-        undefined
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/blog-post/test-post' })
       );
 
       // Verify response format
@@ -193,8 +190,8 @@ describe('HTTP Integration Tests', () => {
     });
 
     it('should handle tenant ID override in content config', async () => {
-      const mockResponse = { data: { id: 1, title: 'Test Content' } };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+      mockTransport.send.mockResolvedValue(mockResponse);
 
       await GrowcadoSDK.getContent({
         modelIdentifier: 'blog-post',
@@ -202,16 +199,15 @@ describe('HTTP Integration Tests', () => {
         tenantId: 'override-tenant'
       });
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        'cms/tenant/override-tenant/published/blog-post/test-post',
-        undefined
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/override-tenant/published/blog-post/test-post' })
       );
     });
 
     it('should pass custom headers to HTTP client', async () => {
-      const mockResponse = { data: { id: 1, title: 'Test Content' } };
+      const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
       const customHeaders = { 'X-Custom-Header': 'test-value' };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      mockTransport.send.mockResolvedValue(mockResponse);
 
       await GrowcadoSDK.getContent({
         modelIdentifier: 'blog-post',
@@ -219,45 +215,47 @@ describe('HTTP Integration Tests', () => {
         headers: customHeaders
       });
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-        'cms/tenant/test-tenant/published/blog-post/test-post',
-        { headers: customHeaders }
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.growcado.io/cms/tenant/test-tenant/published/blog-post/test-post',
+          headers: expect.objectContaining(customHeaders)
+        })
       );
     });
 
     it('should handle errors and return proper error format', async () => {
       const serverError = {
-        response: {
+        status: 404,
+        headers: {},
+        data: { 
+          message: 'Content not found',
+          timestamp: '2025-07-04T14:57:48.660+00:00',
           status: 404,
-          data: { 
-            message: 'Content not found',
-            timestamp: '2025-07-04T14:57:48.660+00:00',
-            status: 404,
-            error: 'Not Found',
-            path: '/cms/tenant/test-tenant/published/blog-post/test-post'
-          }
+          error: 'Not Found',
+          path: '/cms/tenant/test-tenant/published/blog-post/test-post'
         }
       };
-      mockAxiosInstance.get.mockRejectedValue(serverError);
+      mockTransport.send.mockResolvedValue(serverError);
 
       const result = await GrowcadoSDK.getContent({
         modelIdentifier: 'blog-post',
         contentIdentifier: 'test-post'
       });
 
-      expect(result).toEqual({
-        error: {
-          message: 'Content not found',
-          code: 404,
-          details: serverError.response.data
-        }
+      expect(result.data).toBeUndefined();
+      expect(result.error).toBeInstanceOf(GrowcadoNotFoundError);
+      expect(result.error).toMatchObject({
+        message: 'Content not found',
+        code: 'NOT_FOUND',
+        status: 404,
+        details: serverError.data
       });
     });
 
     describe('CXP Parameters', () => {
       it('should include X-CXP-PARAMETERS header when cxpParameters is provided', async () => {
-        const mockResponse = { data: { id: 1, title: 'Test Content' } };
-        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+        const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+        mockTransport.send.mockResolvedValue(mockResponse);
 
         await GrowcadoSDK.getContent({
           modelIdentifier: 'product-banner',
@@ -268,15 +266,17 @@ describe('HTTP Integration Tests', () => {
           }
         });
 
-        expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-          'cms/tenant/test-tenant/published/product-banner/hero',
-          { headers: { 'X-CXP-PARAMETERS': 'productTitle=iPhone&productPrice=999' } }
+        expect(mockTransport.send).toHaveBeenCalledWith(
+          expect.objectContaining({
+            url: 'https://api.growcado.io/cms/tenant/test-tenant/published/product-banner/hero',
+            headers: expect.objectContaining({ 'X-CXP-PARAMETERS': 'productTitle=iPhone&productPrice=999' })
+          })
         );
       });
 
       it('should filter out undefined and empty values from cxpParameters', async () => {
-        const mockResponse = { data: { id: 1, title: 'Test Content' } };
-        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+        const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+        mockTransport.send.mockResolvedValue(mockResponse);
 
         await GrowcadoSDK.getContent({
           modelIdentifier: 'product-banner',
@@ -289,15 +289,17 @@ describe('HTTP Integration Tests', () => {
           }
         });
 
-        expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-          'cms/tenant/test-tenant/published/product-banner/hero',
-          { headers: { 'X-CXP-PARAMETERS': 'productTitle=iPhone&validValue=test' } }
+        expect(mockTransport.send).toHaveBeenCalledWith(
+          expect.objectContaining({
+            url: 'https://api.growcado.io/cms/tenant/test-tenant/published/product-banner/hero',
+            headers: expect.objectContaining({ 'X-CXP-PARAMETERS': 'productTitle=iPhone&validValue=test' })
+          })
         );
       });
 
       it('should URL-encode special characters in cxpParameters', async () => {
-        const mockResponse = { data: { id: 1, title: 'Test Content' } };
-        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+        const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+        mockTransport.send.mockResolvedValue(mockResponse);
 
         await GrowcadoSDK.getContent({
           modelIdentifier: 'product-banner',
@@ -309,30 +311,31 @@ describe('HTTP Integration Tests', () => {
           }
         });
 
-        expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-          'cms/tenant/test-tenant/published/product-banner/hero',
-          { headers: { 'X-CXP-PARAMETERS': 'productTitle=iPhone%2015%20Pro&price=%24999.99&special=a%3Db%26c%3Dd' } }
+        expect(mockTransport.send).toHaveBeenCalledWith(
+          expect.objectContaining({
+            url: 'https://api.growcado.io/cms/tenant/test-tenant/published/product-banner/hero',
+            headers: expect.objectContaining({ 'X-CXP-PARAMETERS': 'productTitle=iPhone%2015%20Pro&price=%24999.99&special=a%3Db%26c%3Dd' })
+          })
         );
       });
 
       it('should not include X-CXP-PARAMETERS header when cxpParameters is not provided', async () => {
-        const mockResponse = { data: { id: 1, title: 'Test Content' } };
-        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+        const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+        mockTransport.send.mockResolvedValue(mockResponse);
 
         await GrowcadoSDK.getContent({
           modelIdentifier: 'blog-post',
           contentIdentifier: 'test-post'
         });
 
-        expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-          'cms/tenant/test-tenant/published/blog-post/test-post',
-          undefined
-        );
+        const [request] = mockTransport.send.mock.calls[0];
+        expect(request.url).toBe('https://api.growcado.io/cms/tenant/test-tenant/published/blog-post/test-post');
+        expect(request.headers['X-CXP-PARAMETERS']).toBeUndefined();
       });
 
       it('should not include X-CXP-PARAMETERS header when all cxpParameters values are empty or undefined', async () => {
-        const mockResponse = { data: { id: 1, title: 'Test Content' } };
-        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+        const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+        mockTransport.send.mockResolvedValue(mockResponse);
 
         await GrowcadoSDK.getContent({
           modelIdentifier: 'blog-post',
@@ -343,15 +346,14 @@ describe('HTTP Integration Tests', () => {
           }
         });
 
-        expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-          'cms/tenant/test-tenant/published/blog-post/test-post',
-          undefined
-        );
+        const [request] = mockTransport.send.mock.calls[0];
+        expect(request.url).toBe('https://api.growcado.io/cms/tenant/test-tenant/published/blog-post/test-post');
+        expect(request.headers['X-CXP-PARAMETERS']).toBeUndefined();
       });
 
       it('should merge cxpParameters with custom headers', async () => {
-        const mockResponse = { data: { id: 1, title: 'Test Content' } };
-        mockAxiosInstance.get.mockResolvedValue(mockResponse);
+        const mockResponse = { status: 200, headers: {}, data: { id: 1, title: 'Test Content' } };
+        mockTransport.send.mockResolvedValue(mockResponse);
 
         await GrowcadoSDK.getContent({
           modelIdentifier: 'product-banner',
@@ -362,25 +364,488 @@ describe('HTTP Integration Tests', () => {
           }
         });
 
-        expect(mockAxiosInstance.get).toHaveBeenCalledWith(
-          'cms/tenant/test-tenant/published/product-banner/hero',
-          { 
-            headers: { 
+        expect(mockTransport.send).toHaveBeenCalledWith(
+          expect.objectContaining({
+            url: 'https://api.growcado.io/cms/tenant/test-tenant/published/product-banner/hero',
+            headers: expect.objectContaining({ 
               'X-Custom-Header': 'custom-value',
               'X-CXP-PARAMETERS': 'productTitle=iPhone' 
-            } 
-          }
+            })
+          })
         );
       });
     });
   });
 
+  describe('Batch Content Fetching Integration', () => {
+    beforeEach(() => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory'
+      });
+    });
+
+    it('should return results keyed per entry', async () => {
+      mockTransport.send.mockImplementation(async ({ url }: { url: string }) => ({ status: 200, headers: {}, data: { url } }));
+
+      const result = await GrowcadoSDK.getContentBatch([
+        { modelIdentifier: 'hero', contentIdentifier: 'main' },
+        { modelIdentifier: 'footer', contentIdentifier: 'links', key: 'footer' }
+      ]);
+
+      expect(result.hasErrors).toBe(false);
+      expect(result.results).toEqual({
+        'hero/main': { data: { url: 'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main' } },
+        footer: { data: { url: 'https://api.growcado.io/cms/tenant/test-tenant/published/footer/links' } }
+      });
+    });
+
+    it('should report failures per entry without failing the batch', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockTransport.send.mockImplementation(async ({ url }: { url: string }) => {
+        if (url.endsWith('/missing')) {
+          return { status: 404, headers: {}, data: { message: 'Content not found' } };
+        }
+        return { status: 200, headers: {}, data: { ok: true } };
+      });
+
+      const result = await GrowcadoSDK.getContentBatch([
+        { modelIdentifier: 'hero', contentIdentifier: 'main' },
+        { modelIdentifier: 'hero', contentIdentifier: 'missing' }
+      ]);
+
+      expect(result.hasErrors).toBe(true);
+      expect(result.results['hero/main']).toEqual({ data: { ok: true } });
+      expect(result.results['hero/missing'].error).toBeInstanceOf(GrowcadoNotFoundError);
+      expect(result.results['hero/missing'].error).toMatchObject({
+        message: 'Content not found',
+        status: 404,
+        details: { message: 'Content not found' }
+      });
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should coalesce identical entries from batches issued in the same tick', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { id: 1 } });
+
+      const [first, second] = await Promise.all([
+        GrowcadoSDK.getContentBatch([{ modelIdentifier: 'hero', contentIdentifier: 'main' }]),
+        GrowcadoSDK.getContentBatch([
+          { modelIdentifier: 'hero', contentIdentifier: 'main' },
+          { modelIdentifier: 'footer', contentIdentifier: 'links' }
+        ])
+      ]);
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+      expect(first.results['hero/main']).toEqual({ data: { id: 1 } });
+      expect(second.results['hero/main']).toEqual({ data: { id: 1 } });
+      expect(second.results['footer/links']).toEqual({ data: { id: 1 } });
+    });
+
+    it('should not coalesce entries with different headers', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: {} });
+
+      await GrowcadoSDK.getContentBatch([
+        { modelIdentifier: 'hero', contentIdentifier: 'main', key: 'eu', cxpParameters: { region: 'eu' } },
+        { modelIdentifier: 'hero', contentIdentifier: 'main', key: 'us', cxpParameters: { region: 'us' } }
+      ]);
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should limit parallel requests to batchConcurrency', async () => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        batchConcurrency: 2
+      });
+
+      let active = 0;
+      let maxActive = 0;
+      mockTransport.send.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+        return { status: 200, headers: {}, data: {} };
+      });
+
+      const result = await GrowcadoSDK.getContentBatch(
+        Array.from({ length: 7 }, (_, index) => ({ modelIdentifier: 'block', contentIdentifier: `block-${index}` }))
+      );
+
+      expect(Object.keys(result.results)).toHaveLength(7);
+      expect(mockTransport.send).toHaveBeenCalledTimes(7);
+      expect(maxActive).toBe(2);
+    });
+
+    it('should reject entries with the same result key', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: {} });
+
+      await expect(GrowcadoSDK.getContentBatch([
+        { modelIdentifier: 'hero', contentIdentifier: 'main', locale: 'de' },
+        { modelIdentifier: 'hero', contentIdentifier: 'main', locale: 'en' }
+      ])).rejects.toThrow(new GrowcadoConfigError('Duplicate batch key "hero/main". Set a distinct key for each entry of the same content.'));
+      expect(mockTransport.send).not.toHaveBeenCalled();
+
+      const result = await GrowcadoSDK.getContentBatch([
+        { modelIdentifier: 'hero', contentIdentifier: 'main', locale: 'de', key: 'hero-de' },
+        { modelIdentifier: 'hero', contentIdentifier: 'main', locale: 'en', key: 'hero-en' }
+      ]);
+      expect(Object.keys(result.results)).toEqual(['hero-de', 'hero-en']);
+    });
+
+    it('should throw if SDK is not configured', async () => {
+      GrowcadoSDK.reset();
+
+      await expect(GrowcadoSDK.getContentBatch([{ modelIdentifier: 'hero', contentIdentifier: 'main' }]))
+        .rejects.toThrow('SDK not configured. Call GrowcadoSDK.configure() first.');
+    });
+  });
+
+  describe('Content Listing Integration', () => {
+    beforeEach(() => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory'
+      });
+    });
+
+    it('should list all entries of a model', async () => {
+      mockTransport.send.mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { items: [{ id: 1 }, { id: 2 }], total: 2 }
+      });
+
+      const result = await GrowcadoSDK.listContent<{ id: number }>({
+        modelIdentifier: 'blog-post'
+      });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/blog-post' })
+      );
+      expect(result).toEqual({
+        data: { items: [{ id: 1 }, { id: 2 }], total: 2, hasMore: false }
+      });
+    });
+
+    it('should serialize filters, sort, pagination and field selection', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [], total: 0 } });
+
+      await GrowcadoSDK.queryContent({
+        modelIdentifier: 'blog-post',
+        filter: {
+          category: 'news',
+          rating: { gte: 4 },
+          tags: { in: ['a', 'b'] }
+        },
+        sort: [{ field: 'publishedAt', direction: 'desc' }, { field: 'title' }],
+        limit: 10,
+        offset: 20,
+        fields: ['title', 'slug']
+      });
+
+      const [{ url }] = mockTransport.send.mock.calls[0];
+      const [basePath, queryString] = url.split('?');
+      const params = new URLSearchParams(queryString);
+
+      expect(basePath).toBe('https://api.growcado.io/cms/tenant/test-tenant/published/blog-post');
+      expect(params.get('filter[category]')).toBe('news');
+      expect(params.get('filter[rating][gte]')).toBe('4');
+      expect(params.get('filter[tags][in]')).toBe('a,b');
+      expect(params.get('sort')).toBe('-publishedAt,title');
+      expect(params.get('limit')).toBe('10');
+      expect(params.get('offset')).toBe('20');
+      expect(params.get('fields')).toBe('title,slug');
+    });
+
+    it('should report the next offset when more entries remain', async () => {
+      mockTransport.send.mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { items: [{ id: 3 }, { id: 4 }], total: 5 }
+      });
+
+      const result = await GrowcadoSDK.listContent({
+        modelIdentifier: 'blog-post',
+        limit: 2,
+        offset: 2
+      });
+
+      expect(result.data).toEqual({
+        items: [{ id: 3 }, { id: 4 }],
+        total: 5,
+        hasMore: true,
+        nextOffset: 4
+      });
+    });
+
+    it('should use cursor pagination and expose the next-page token', async () => {
+      mockTransport.send.mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { items: [{ id: 1 }], total: 40, nextCursor: 'cursor-2' }
+      });
+
+      const result = await GrowcadoSDK.listContent({
+        modelIdentifier: 'blog-post',
+        cursor: 'cursor-1',
+        offset: 10
+      });
+
+      const [{ url }] = mockTransport.send.mock.calls[0];
+      const params = new URLSearchParams(url.split('?')[1]);
+      expect(params.get('cursor')).toBe('cursor-1');
+      expect(params.has('offset')).toBe(false);
+      expect(result.data?.nextCursor).toBe('cursor-2');
+      expect(result.data?.hasMore).toBe(true);
+    });
+
+    it('should accept a bare array response', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: [{ id: 1 }] });
+
+      const result = await GrowcadoSDK.listContent({ modelIdentifier: 'blog-post' });
+
+      expect(result.data).toEqual({ items: [{ id: 1 }], total: 1, hasMore: false });
+    });
+
+    it('should pass per-call headers and CXP parameters', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [], total: 0 } });
+
+      await GrowcadoSDK.queryContent({
+        modelIdentifier: 'blog-post',
+        tenantId: 'override-tenant',
+        headers: { 'X-Custom-Header': 'test-value' },
+        cxpParameters: { region: 'eu' }
+      });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.growcado.io/cms/tenant/override-tenant/published/blog-post',
+          headers: expect.objectContaining({ 'X-Custom-Header': 'test-value', 'X-CXP-PARAMETERS': 'region=eu' })
+        })
+      );
+    });
+
+    it('should go through the tracking header middleware', async () => {
+      GrowcadoSDK.setCustomerIdentifiers({ userId: '123' });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [], total: 0 } });
+
+      await GrowcadoSDK.listContent({ modelIdentifier: 'blog-post' });
+
+      const [request] = mockTransport.send.mock.calls[0];
+      expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('user_id=123');
+    });
+
+    it('should return errors without a page', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockTransport.send.mockResolvedValue({ status: 500, headers: {}, data: { message: 'Server error' } });
+
+      const result = await GrowcadoSDK.listContent({ modelIdentifier: 'blog-post' });
+
+      expect(result.data).toBeUndefined();
+      expect(result.error).toBeInstanceOf(GrowcadoHttpError);
+      expect(result.error).toMatchObject({
+        message: 'Server error',
+        code: 'HTTP_ERROR',
+        status: 500,
+        details: { message: 'Server error' }
+      });
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should throw if SDK is not configured', async () => {
+      GrowcadoSDK.reset();
+
+      await expect(GrowcadoSDK.listContent({ modelIdentifier: 'blog-post' }))
+        .rejects.toThrow('SDK not configured. Call GrowcadoSDK.configure() first.');
+    });
+  });
+
+  describe('Request Deduplication Integration', () => {
+    beforeEach(() => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory'
+      });
+    });
+
+    it('should share one request between identical concurrent calls', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } });
+      const config = { modelIdentifier: 'hero', contentIdentifier: 'main' };
+
+      const results = await Promise.all([
+        GrowcadoSDK.getContent(config),
+        GrowcadoSDK.getContent(config),
+        GrowcadoSDK.getContent(config)
+      ]);
+
+      expect(results).toEqual([
+        { data: { title: 'Hello' } },
+        { data: { title: 'Hello' } },
+        { data: { title: 'Hello' } }
+      ]);
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share requests with different headers', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } });
+
+      await Promise.all([
+        GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' }),
+        GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main', cxpParameters: { segment: 'vip' } }),
+        GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'other' })
+      ]);
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fetch again once the shared request has settled', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } });
+      const config = { modelIdentifier: 'hero', contentIdentifier: 'main' };
+
+      await GrowcadoSDK.getContent(config);
+      await GrowcadoSDK.getContent(config);
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let one caller abort without cancelling the shared request', async () => {
+      let resolveRequest!: (value: unknown) => void;
+      let requestSignal: AbortSignal | undefined;
+      mockTransport.send.mockImplementation((request: { signal?: AbortSignal }) => {
+        requestSignal = request.signal;
+        return new Promise((resolve) => { resolveRequest = resolve; });
+      });
+      const controller = new AbortController();
+      const config = { modelIdentifier: 'hero', contentIdentifier: 'main' };
+
+      const aborting = GrowcadoSDK.getContent({ ...config, signal: controller.signal });
+      const waiting = GrowcadoSDK.getContent({ ...config, signal: new AbortController().signal });
+      controller.abort();
+
+      expect((await aborting).error?.code).toBe('ABORTED');
+      expect(requestSignal?.aborted).toBe(false);
+
+      resolveRequest({ status: 200, headers: {}, data: { title: 'Hello' } });
+      expect(await waiting).toEqual({ data: { title: 'Hello' } });
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Timeouts and Cancellation Integration', () => {
+    const timeoutError = Object.assign(new Error('timeout of 50ms exceeded'), { code: 'ETIMEDOUT' });
+
+    it('should apply the SDK timeout to requests', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', timeout: 5000 });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } });
+
+      await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main', timeout: 5000 })
+      );
+    });
+
+    it('should let a call override the timeout and pass an abort signal', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', timeout: 5000 });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } });
+      const controller = new AbortController();
+
+      await GrowcadoSDK.getContent({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main',
+        timeout: 50,
+        signal: controller.signal
+      });
+
+      // The request is shared with identical in-flight calls, so it gets its own signal
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ timeout: 50, signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it('should report timeouts with the TIMEOUT code', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      mockTransport.send.mockRejectedValue(timeoutError);
+
+      const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main', timeout: 50 });
+
+      expect(result.error).toBeInstanceOf(GrowcadoTimeoutError);
+      expect(result.error).toMatchObject({
+        message: 'Request timed out after 50ms',
+        code: 'TIMEOUT',
+        cause: timeoutError
+      });
+      consoleSpy.mockRestore();
+    });
+
+    it('should report aborted requests with the ABORTED code without logging', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      const controller = new AbortController();
+      mockTransport.send.mockImplementation((request: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          request.signal.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')));
+        })
+      );
+
+      const resultPromise = GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main', signal: controller.signal });
+      controller.abort();
+      const result = await resultPromise;
+
+      expect(result.error).toBeInstanceOf(GrowcadoAbortError);
+      expect(result.error?.code).toBe('ABORTED');
+      expect(result.error?.message).toBe('Request was aborted');
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should stop retrying once the request is aborted', async () => {
+      vi.useFakeTimers();
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', retry: { maxAttempts: 5, jitter: false } });
+      mockTransport.send.mockResolvedValue({ status: 503, headers: {}, data: { message: 'Service Unavailable' } });
+      const controller = new AbortController();
+
+      const resultPromise = GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main', signal: controller.signal });
+      await vi.advanceTimersByTimeAsync(0);
+      controller.abort();
+      const result = await resultPromise;
+
+      expect(result.error?.code).toBe('ABORTED');
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('should forward the signal and timeout to listings', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [], total: 0 } });
+      const controller = new AbortController();
+
+      await GrowcadoSDK.listContent({ modelIdentifier: 'hero', signal: controller.signal, timeout: 100 });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: controller.signal, timeout: 100 })
+      );
+    });
+  });
+
   describe('Error Handling Integration', () => {
     it('should require configuration before use', async () => {
       await expect(GrowcadoSDK.getContent({
         modelIdentifier: 'test',
         contentIdentifier: 'test'
       })).rejects.toThrow('SDK not configured');
+      await expect(GrowcadoSDK.getContent({
+        modelIdentifier: 'test',
+        contentIdentifier: 'test'
+      })).rejects.toBeInstanceOf(GrowcadoConfigError);
     });
 
     it('should require tenant ID', async () => {
@@ -392,10 +857,10 @@ describe('HTTP Integration Tests', () => {
       await expect(GrowcadoSDK.getContent({
         modelIdentifier: 'test',
         contentIdentifier: 'test'
-      })).rejects.toThrow('Tenant ID is required');
+      })).rejects.toThrow(new GrowcadoConfigError('Tenant ID is required either in SDK config or content config.'));
     });
 
-    it('should handle malformed stored data gracefully', () => {
+    it('should handle malformed stored data gracefully', async () => {
       GrowcadoSDK.configure({
         tenantId: 'test-tenant',
         storage: 'localStorage'
@@ -403,16 +868,14 @@ describe('HTTP Integration Tests', () => {
 
       // Mock malformed JSON in storage
       localStorageMock.getItem.mockImplementation((key: string) => {
-        if (key === 'cxp_customer_identifiers') return 'invalid-json';
+        if (key === 'test-tenant.cxp_customer_identifiers') return 'invalid-json';
         return null;
       });
 
-      const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-      const requestConfig = { headers: {} };
-      const modifiedConfig = interceptorFunction(requestConfig);
+      const request = await sendRequest();
 
       // Should fall back to default
-      expect(modifiedConfig.headers['X-CUSTOMER-IDENTIFIERS']).toBe('none:none');
+      expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('none:none');
     });
   });
 }); 
\ No newline at end of file
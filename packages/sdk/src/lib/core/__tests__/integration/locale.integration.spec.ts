@@ -0,0 +1,184 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK } from '../../GrowcadoSDK';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Locale Integration Tests', () => {
+  let mockTransport: any;
+  let consoleSpy: any;
+
+  const notFound = { status: 404, headers: {}, data: { message: 'Content not found' } };
+
+  // Resolves only for the given locales and answers 404 for every other one
+  const availableIn = (...locales: string[]) => async ({ url }: { url: string }) => {
+    const locale = new URL(url).searchParams.get('locale');
+    if (locale && locales.includes(locale)) {
+      return { status: 200, headers: {}, data: { title: `title-${locale}` } };
+    }
+    return notFound;
+  };
+
+  beforeEach(() => {
+    GrowcadoSDK.reset();
+
+    mockTransport = {
+      send: vi.fn()
+    };
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
+    consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+  });
+
+  it('should not send a locale when none is configured', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'default' } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main' }));
+    expect(result).toEqual({ data: { title: 'default' } });
+  });
+
+  it('should request the configured locale and report it', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', locale: 'de-CH' });
+    mockTransport.send.mockImplementation(availableIn('de-CH'));
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main?locale=de-CH' }));
+    expect(result).toEqual({ data: { title: 'title-de-CH' }, locale: 'de-CH' });
+  });
+
+  it('should walk a shared fallback chain until an entry resolves', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      locale: 'de-CH',
+      fallbackLocales: ['de', 'en']
+    });
+    mockTransport.send.mockImplementation(availableIn('en'));
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(mockTransport.send.mock.calls.map(([request]: [{ url: string }]) => request.url)).toEqual([
+      'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main?locale=de-CH',
+      'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main?locale=de',
+      'https://api.growcado.io/cms/tenant/test-tenant/published/hero/main?locale=en'
+    ]);
+    expect(result).toEqual({ data: { title: 'title-en' }, locale: 'en' });
+    expect(consoleSpy).not.toHaveBeenCalled();
+  });
+
+  it('should use the fallback chain configured for the requested locale', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      locale: 'en',
+      fallbackLocales: {
+        'de-CH': ['de', 'en'],
+        'fr-CH': ['fr', 'en']
+      }
+    });
+    mockTransport.send.mockImplementation(availableIn('fr'));
+
+    const result = await GrowcadoSDK.getContent({
+      modelIdentifier: 'hero',
+      contentIdentifier: 'main',
+      locale: 'fr-CH'
+    });
+
+    expect(mockTransport.send).toHaveBeenCalledTimes(2);
+    expect(result.locale).toBe('fr');
+  });
+
+  it('should let a call override the fallback chain', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      locale: 'de',
+      fallbackLocales: ['en']
+    });
+    mockTransport.send.mockImplementation(availableIn('en', 'it'));
+
+    const result = await GrowcadoSDK.getContent({
+      modelIdentifier: 'hero',
+      contentIdentifier: 'main',
+      fallbackLocales: ['it']
+    });
+
+    expect(result.locale).toBe('it');
+  });
+
+  it('should return the last 404 when no locale resolves', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      locale: 'de',
+      fallbackLocales: ['en']
+    });
+    mockTransport.send.mockImplementation(availableIn());
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(mockTransport.send).toHaveBeenCalledTimes(2);
+    expect(result.error?.code).toBe('NOT_FOUND');
+    expect(result.locale).toBeUndefined();
+    expect(consoleSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop at errors other than not found', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      locale: 'de',
+      fallbackLocales: ['en']
+    });
+    mockTransport.send.mockResolvedValue({ status: 500, headers: {}, data: { message: 'Server error' } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    expect(result.error?.status).toBe(500);
+  });
+
+  it('should not repeat a locale that also appears in the fallback chain', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      locale: 'en',
+      fallbackLocales: ['en']
+    });
+    mockTransport.send.mockImplementation(availableIn());
+
+    await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(mockTransport.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the locale with listings', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', locale: 'de' });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [], total: 0 } });
+
+    await GrowcadoSDK.listContent({ modelIdentifier: 'blog-post', locale: 'fr' });
+
+    expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/blog-post?locale=fr' }));
+  });
+});
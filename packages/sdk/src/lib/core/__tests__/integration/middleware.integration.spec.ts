@@ -0,0 +1,208 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK } from '../../GrowcadoSDK';
+import type { HttpMiddleware } from '../../types';
+import { GrowcadoNetworkError } from '../../errors';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Middleware Integration Tests', () => {
+  let mockTransport: any;
+  let consoleErrorSpy: any;
+
+  const content = { modelIdentifier: 'hero', contentIdentifier: 'main' };
+
+  beforeEach(() => {
+    GrowcadoSDK.reset();
+
+    mockTransport = {
+      send: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } })
+    };
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+  });
+
+  it('should run middleware in registration order after the tracking headers', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    GrowcadoSDK.setCustomerIdentifiers({ userId: '123' });
+    const calls: string[] = [];
+    GrowcadoSDK.use(async (request, next) => {
+      calls.push(`first ${request.headers['X-CUSTOMER-IDENTIFIERS']}`);
+      const response = await next(request);
+      calls.push('first done');
+      return response;
+    });
+    GrowcadoSDK.use(async (request, next) => {
+      calls.push('second');
+      const response = await next(request);
+      calls.push('second done');
+      return response;
+    });
+
+    await GrowcadoSDK.getContent(content);
+
+    expect(calls).toEqual(['first user_id=123', 'second', 'second done', 'first done']);
+  });
+
+  it('should let middleware add headers, e.g. for auth', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    GrowcadoSDK.use((request, next) => next({
+      ...request,
+      headers: { ...request.headers, Authorization: 'Bearer token' }
+    }));
+
+    await GrowcadoSDK.getContent(content);
+
+    const [request] = mockTransport.send.mock.calls[0];
+    expect(request.headers['Authorization']).toBe('Bearer token');
+    expect(request.headers['X-CUSTOMER-IDENTIFIERS']).toBe('none:none');
+  });
+
+  it('should let middleware change the path and query', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    GrowcadoSDK.use((request, next) => {
+      const url = new URL(request.url);
+      url.pathname = url.pathname.replace('/cms/', '/cms/v2/');
+      url.searchParams.set('region', 'eu');
+      return next({ ...request, url: url.toString() });
+    });
+
+    await GrowcadoSDK.getContent(content);
+
+    const [request] = mockTransport.send.mock.calls[0];
+    expect(request.url).toBe('https://api.growcado.io/cms/v2/tenant/test-tenant/published/hero/main?region=eu');
+  });
+
+  it('should let middleware answer without calling the transport', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    GrowcadoSDK.use(async () => ({ status: 200, headers: {}, data: { title: 'Mocked' } }));
+
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(mockTransport.send).not.toHaveBeenCalled();
+    expect(result).toEqual({ data: { title: 'Mocked' } });
+  });
+
+  it('should let middleware transform responses', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { content: { title: 'Hello' } } });
+    GrowcadoSDK.use(async (request, next) => {
+      const response = await next(request);
+      return { ...response, data: (response.data as { content: unknown }).content };
+    });
+
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result).toEqual({ data: { title: 'Hello' } });
+  });
+
+  it('should let middleware see and recover from error responses', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    mockTransport.send.mockResolvedValue({ status: 404, headers: {}, data: { message: 'Content not found' } });
+    const statuses: number[] = [];
+    GrowcadoSDK.use(async (request, next) => {
+      const response = await next(request);
+      statuses.push(response.status);
+      return response.status === 404 ? { status: 200, headers: {}, data: { title: 'Fallback' } } : response;
+    });
+
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(statuses).toEqual([404]);
+    expect(result).toEqual({ data: { title: 'Fallback' } });
+  });
+
+  it('should let middleware transform network errors', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    mockTransport.send.mockRejectedValue(new Error('Network Error'));
+    GrowcadoSDK.use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        throw new GrowcadoNetworkError('Growcado API is unreachable', { cause: error });
+      }
+    });
+
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result.error).toBeInstanceOf(GrowcadoNetworkError);
+    expect(result.error).toMatchObject({ message: 'Growcado API is unreachable', code: 'NETWORK_ERROR' });
+  });
+
+  it('should report other errors thrown by middleware as network errors', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    const failure = new Error('Token refresh failed');
+    GrowcadoSDK.use(async () => {
+      throw failure;
+    });
+
+    const result = await GrowcadoSDK.getContent(content);
+
+    expect(result.error).toBeInstanceOf(GrowcadoNetworkError);
+    expect(result.error).toMatchObject({ message: 'Token refresh failed', cause: failure });
+  });
+
+  it('should keep middleware registered before configure() and across reconfiguration', async () => {
+    const middleware = vi.fn<HttpMiddleware>((request, next) => next(request));
+    GrowcadoSDK.use(middleware);
+
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    await GrowcadoSDK.getContent(content);
+    GrowcadoSDK.configure({ tenantId: 'other-tenant', storage: 'memory' });
+    await GrowcadoSDK.getContent(content);
+
+    expect(middleware).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove middleware with the returned function', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    const middleware = vi.fn<HttpMiddleware>((request, next) => next(request));
+    const remove = GrowcadoSDK.use(middleware);
+
+    remove();
+    await GrowcadoSDK.getContent(content);
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    await GrowcadoSDK.getContent(content);
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('should run middleware for request contexts', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', ssrMode: true });
+    const middleware = vi.fn<HttpMiddleware>((request, next) => next(request));
+    GrowcadoSDK.use(middleware);
+
+    await GrowcadoSDK.withRequest({ url: 'https://shop.example.com/' }).getContent(content);
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop middleware on reset', async () => {
+    const middleware = vi.fn<HttpMiddleware>((request, next) => next(request));
+    GrowcadoSDK.use(middleware);
+
+    GrowcadoSDK.reset();
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    await GrowcadoSDK.getContent(content);
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
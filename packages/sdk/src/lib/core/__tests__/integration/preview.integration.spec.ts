@@ -0,0 +1,159 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK } from '../../GrowcadoSDK';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Preview Mode Integration Tests', () => {
+  let mockTransport: any;
+
+  beforeEach(() => {
+    GrowcadoSDK.reset();
+
+    mockTransport = {
+      send: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { title: 'Draft title' } })
+    };
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+  });
+
+  describe('SDK-level preview', () => {
+    beforeEach(() => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        preview: true,
+        previewToken: 'preview-token'
+      });
+    });
+
+    it('should fetch from the draft endpoint with the preview token', async () => {
+      const result = await GrowcadoSDK.getContent({
+        modelIdentifier: 'blog-post',
+        contentIdentifier: 'test-post'
+      });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.growcado.io/cms/tenant/test-tenant/draft/blog-post/test-post',
+          headers: expect.objectContaining({ 'X-PREVIEW-TOKEN': 'preview-token', 'Cache-Control': 'no-cache' })
+        })
+      );
+      expect(result).toEqual({ data: { title: 'Draft title' }, isPreview: true });
+    });
+
+    it('should allow a single call to opt out of preview', async () => {
+      const result = await GrowcadoSDK.getContent({
+        modelIdentifier: 'blog-post',
+        contentIdentifier: 'test-post',
+        preview: false
+      });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://api.growcado.io/cms/tenant/test-tenant/published/blog-post/test-post' })
+      );
+      expect(result.isPreview).toBeUndefined();
+    });
+
+    it('should use the draft endpoint for listings', async () => {
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [], total: 0 } });
+
+      const result = await GrowcadoSDK.listContent({ modelIdentifier: 'blog-post', limit: 5 });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.growcado.io/cms/tenant/test-tenant/draft/blog-post?limit=5',
+          headers: expect.objectContaining({ 'X-PREVIEW-TOKEN': 'preview-token', 'Cache-Control': 'no-cache' })
+        })
+      );
+      expect(result.isPreview).toBe(true);
+    });
+
+    it('should mark errors from preview requests', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+      mockTransport.send.mockResolvedValue({ status: 401, headers: {}, data: { message: 'Invalid preview token' } });
+
+      const result = await GrowcadoSDK.getContent({
+        modelIdentifier: 'blog-post',
+        contentIdentifier: 'test-post'
+      });
+
+      expect(result.isPreview).toBe(true);
+      expect(result.error?.status).toBe(401);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('Per-call preview', () => {
+    beforeEach(() => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory'
+      });
+    });
+
+    it('should enable preview for a single call', async () => {
+      await GrowcadoSDK.getContent({
+        modelIdentifier: 'blog-post',
+        contentIdentifier: 'test-post',
+        preview: true,
+        previewToken: 'call-token',
+        headers: { 'X-Custom-Header': 'value' }
+      });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.growcado.io/cms/tenant/test-tenant/draft/blog-post/test-post',
+          headers: expect.objectContaining({ 'X-Custom-Header': 'value', 'X-PREVIEW-TOKEN': 'call-token', 'Cache-Control': 'no-cache' })
+        })
+      );
+    });
+
+    it('should throw when preview is enabled without a token', async () => {
+      await expect(GrowcadoSDK.getContent({
+        modelIdentifier: 'blog-post',
+        contentIdentifier: 'test-post',
+        preview: true
+      })).rejects.toThrow('Preview token is required when preview mode is enabled.');
+    });
+  });
+
+  describe('setPreviewMode', () => {
+    it('should toggle preview on a configured SDK', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+
+      GrowcadoSDK.setPreviewMode(true, 'toggle-token');
+      await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+      GrowcadoSDK.setPreviewMode(false);
+      await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+      expect(mockTransport.send.mock.calls[0][0].url).toBe('https://api.growcado.io/cms/tenant/test-tenant/draft/hero/main');
+      expect(mockTransport.send.mock.calls[1][0].url).toBe('https://api.growcado.io/cms/tenant/test-tenant/published/hero/main');
+      expect(GrowcadoSDK.getConfig()?.previewToken).toBe('toggle-token');
+    });
+
+    it('should throw if SDK is not configured', () => {
+      expect(() => GrowcadoSDK.setPreviewMode(true, 'token')).toThrow(
+        'SDK not configured. Call GrowcadoSDK.configure() first.'
+      );
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
 import { GrowcadoSDK } from '../../GrowcadoSDK';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
 
 describe('SSR Integration Tests', () => {
   let localStorageMock: any;
@@ -88,12 +94,12 @@ describe('SSR Integration Tests', () => {
 
       // Step 4: Verify tracking was activated during hydration
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_utm_params',
-        'source=google&medium=cpc'
+        'test-tenant.cxp_utm_params',
+        expect.stringContaining('"value":"source=google&medium=cpc"')
       );
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_initial_referrer',
-        'https://google.com'
+        'test-tenant.cxp_initial_referrer',
+        expect.stringContaining('"value":"https://google.com"')
       );
 
       // Step 5: Set additional customer identifiers after hydration
@@ -108,7 +114,7 @@ describe('SSR Integration Tests', () => {
       
       // Verify the final merged customer identifiers were stored
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_customer_identifiers',
+        'test-tenant.cxp_customer_identifiers',
         mergedIdentifiers
       );
     });
@@ -134,11 +140,11 @@ describe('SSR Integration Tests', () => {
 
       // Verify tracking remains disabled after hydration
       expect(localStorageMock.setItem).not.toHaveBeenCalledWith(
-        'cxp_utm_params',
+        'test-tenant.cxp_utm_params',
         expect.any(String)
       );
       expect(localStorageMock.setItem).not.toHaveBeenCalledWith(
-        'cxp_initial_referrer',
+        'test-tenant.cxp_initial_referrer',
         expect.any(String)
       );
     });
@@ -242,4 +248,243 @@ describe('SSR Integration Tests', () => {
       global.localStorage = originalLocalStorage;
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Request-scoped contexts', () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    beforeEach(() => {
+      // Each transport echoes the headers it was asked to send
+      vi.mocked(FetchTransport).mockImplementation((() => ({
+        send: vi.fn(async (request: { headers: Record<string, string> }) => {
+          // Simulate network latency so concurrent requests interleave
+          await delay(Math.floor(Math.random() * 10));
+          return { status: 200, headers: {}, data: request.headers };
+        })
+      })) as any);
+
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        ssrMode: true
+      });
+    });
+
+    it('should throw when the SDK is not configured', () => {
+      GrowcadoSDK.reset();
+
+      expect(() => GrowcadoSDK.withRequest({ url: '/' })).toThrow(
+        'SDK not configured. Call GrowcadoSDK.configure() first.'
+      );
+    });
+
+    it('should derive UTM parameters and referrer from the incoming request', async () => {
+      const context = GrowcadoSDK.withRequest({
+        url: 'https://shop.example.com/landing?utm_source=google&utm_medium=cpc',
+        headers: { referer: 'https://www.google.com/' }
+      });
+
+      expect(context.getUTMParameters()).toEqual({ source: 'google', medium: 'cpc' });
+      expect(context.getReferrer()).toBe('https://www.google.com/');
+
+      const response = await context.getContent<Record<string, string>>({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main'
+      });
+
+      expect(response.data?.['X-UTM']).toBe('source=google&medium=cpc');
+      expect(response.data?.['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://www.google.com/');
+    });
+
+    it('should capture click IDs from the incoming request when enabled', async () => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        ssrMode: true,
+        enableClickIdTracking: true
+      });
+
+      const context = GrowcadoSDK.withRequest({ url: 'https://shop.example.com/landing?gclid=abc123' });
+
+      expect(context.getClickIds()).toEqual({ gclid: { value: 'abc123', capturedAt: expect.any(Number) } });
+      const response = await context.getContent<Record<string, string>>({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main'
+      });
+      expect(response.data?.['X-CLICK-IDS']).toBe('gclid=abc123');
+      expect(GrowcadoSDK.getClickIds()).toBeNull();
+    });
+
+    it('should count the request as a page view of the session from the request cookies', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2024, 0, 1, 12, 0));
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        ssrMode: true,
+        enableSessionTracking: true
+      });
+      const session = { id: 'session-1', startedAt: Date.now() - 60000, lastActivityAt: Date.now() - 60000, pageCount: 2 };
+
+      const context = GrowcadoSDK.withRequest({
+        url: '/products',
+        cookies: { cxp_session: JSON.stringify(session) }
+      });
+
+      expect(context.getSession()).toEqual({ ...session, lastActivityAt: Date.now(), pageCount: 3 });
+      const response = await context.getContent<Record<string, string>>({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main'
+      });
+      expect(response.data?.['X-SESSION']).toBe(`id=session-1&started_at=${session.startedAt}&page_count=3`);
+      vi.useRealTimers();
+    });
+
+    it('should not start a session for a request without a session cookie', async () => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        ssrMode: true,
+        enableSessionTracking: true
+      });
+
+      const context = GrowcadoSDK.withRequest({ url: '/products' });
+
+      expect(context.getSession()).toBeNull();
+      const response = await context.getContent<Record<string, string>>({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main'
+      });
+      expect(response.data?.['X-SESSION']).toBeUndefined();
+    });
+
+    it('should restore identifiers and attribution from request cookies', () => {
+      const context = GrowcadoSDK.withRequest({
+        url: '/products',
+        cookies: {
+          cxp_customer_identifiers: JSON.stringify({ userId: 'user-1' }),
+          cxp_utm_params: 'source=newsletter',
+          cxp_initial_referrer: 'https://mail.example.com'
+        }
+      });
+
+      expect(context.getUTMParameters()).toEqual({ source: 'newsletter' });
+      expect(context.getReferrer()).toBe('https://mail.example.com');
+    });
+
+    it('should parse the Cookie header when no cookies object is given', async () => {
+      const context = GrowcadoSDK.withRequest({
+        url: '/products',
+        headers: {
+          Cookie: `theme=dark; cxp_customer_identifiers=${encodeURIComponent(JSON.stringify({ email: 'a@example.com' }))}`
+        }
+      });
+
+      const response = await context.getContent<Record<string, string>>({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main'
+      });
+
+      expect(response.data?.['X-CUSTOMER-IDENTIFIERS']).toBe('email=a@example.com');
+    });
+
+    it('should prefer URL UTM parameters over cookie values and keep the cookie referrer', () => {
+      const context = GrowcadoSDK.withRequest({
+        url: '/?utm_source=facebook',
+        headers: { referer: 'https://facebook.com' },
+        cookies: {
+          cxp_utm_params: 'source=newsletter',
+          cxp_initial_referrer: 'https://mail.example.com'
+        }
+      });
+
+      expect(context.getUTMParameters()).toEqual({ source: 'facebook' });
+      expect(context.getReferrer()).toBe('https://mail.example.com');
+    });
+
+    it('should ignore referrers from the request host for path-only URLs', async () => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        ssrMode: true,
+        attributionModel: 'last-touch'
+      });
+
+      const context = GrowcadoSDK.withRequest({
+        url: '/cart',
+        headers: { host: 'shop.com', referer: 'https://shop.com/products' },
+        cookies: { 'test-tenant.cxp_initial_referrer': 'https://google.com/' }
+      });
+      const response = await context.getContent<Record<string, string>>({
+        modelIdentifier: 'hero',
+        contentIdentifier: 'main'
+      });
+
+      expect(context.getReferrer()).toBe('https://google.com/');
+      expect(response.data?.['X-REFERRER-LAST']).toBe('https://google.com/');
+
+      const forwarded = GrowcadoSDK.withRequest({
+        url: '/cart',
+        headers: { host: 'localhost:3000', 'x-forwarded-host': 'shop.com', referer: 'https://shop.com/products' }
+      });
+      expect(forwarded.getReferrer()).toBeNull();
+    });
+
+    it('should not derive tracking data that is disabled in the base config', () => {
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        storage: 'memory',
+        ssrMode: true,
+        enableAutoUTM: false,
+        enableReferrerTracking: false
+      });
+
+      const context = GrowcadoSDK.withRequest({
+        url: '/?utm_source=google',
+        headers: { referer: 'https://google.com' }
+      });
+
+      expect(context.getUTMParameters()).toBeNull();
+      expect(context.getReferrer()).toBeNull();
+    });
+
+    it('should not leak data into the base SDK or between contexts', () => {
+      const first = GrowcadoSDK.withRequest({ url: '/?utm_source=first' });
+      const second = GrowcadoSDK.withRequest({ url: '/' });
+
+      first.setCustomerIdentifiers({ userId: 'first-user' });
+
+      expect(second.getUTMParameters()).toBeNull();
+      expect(GrowcadoSDK.getUTMParameters()).toBeNull();
+      expect(first.getConfig()?.tenantId).toBe('test-tenant');
+    });
+
+    it('should isolate headers across many concurrent requests', async () => {
+      const visitors = Array.from({ length: 25 }, (_, index) => index);
+
+      const results = await Promise.all(visitors.map(async (index) => {
+        const context = GrowcadoSDK.withRequest({
+          url: `https://shop.example.com/?utm_source=source-${index}`,
+          headers: { referer: `https://referrer-${index}.example.com` }
+        });
+
+        await delay(Math.floor(Math.random() * 10));
+        context.setCustomerIdentifiers({ userId: `user-${index}` });
+        await delay(Math.floor(Math.random() * 10));
+        context.setUTMParameters({ source: `source-${index}`, campaign: `campaign-${index}` });
+
+        const response = await context.getContent<Record<string, string>>({
+          modelIdentifier: 'hero',
+          contentIdentifier: 'main'
+        });
+
+        return { index, headers: response.data };
+      }));
+
+      results.forEach(({ index, headers }) => {
+        expect(headers?.['X-CUSTOMER-IDENTIFIERS']).toBe(`user_id=user-${index}`);
+        expect(headers?.['X-UTM']).toBe(`source=source-${index}&campaign=campaign-${index}`);
+        expect(headers?.['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe(`https://referrer-${index}.example.com`);
+      });
+    });
+  });
+});
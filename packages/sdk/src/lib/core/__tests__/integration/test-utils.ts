@@ -1,30 +1,18 @@
 import { vi, Mock } from 'vitest';
-import axios, { AxiosInstance } from 'axios';
 import { GrowcadoSDK } from '../../GrowcadoSDK';
+import { FetchTransport } from '../../../http/FetchTransport';
 
-// Mock axios at module level
-vi.mock('axios', async () => {
-  const actual = await vi.importActual('axios');
-  return {
-    ...actual,
-    default: {
-      create: vi.fn()
-    }
-  };
-});
+// Mock the default transport at module level
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
 
-export interface MockAxiosInstance {
-  get: Mock;
-  interceptors: {
-    request: {
-      use: Mock;
-    };
-  };
+export interface MockTransport {
+  send: Mock;
 }
 
 export interface TestMocks {
-  mockAxiosInstance: MockAxiosInstance;
-  mockAxiosCreate: Mock;
+  mockTransport: MockTransport;
   localStorageMock: {
     getItem: Mock;
     setItem: Mock;
@@ -72,22 +60,15 @@ export const setupTestMocks = (): TestMocks => {
   const windowMock = createWindowMock();
   const documentMock = createDocumentMock();
 
-  // Create fresh mock axios instance for each test
-  const mockAxiosInstance: MockAxiosInstance = {
-    get: vi.fn(),
-    interceptors: {
-      request: {
-        use: vi.fn()
-      }
-    }
+  // Create fresh mock transport for each test
+  const mockTransport: MockTransport = {
+    send: vi.fn()
   };
   
-  // Get the mocked axios.create and configure it to return our mock instance
-  const mockAxiosCreate = vi.mocked(axios.create);
-  // Clear any previous mock calls and setup new return value
-  mockAxiosCreate.mockClear();
+  // Every SDK instance configured from now on sends through our mock transport
+  vi.mocked(FetchTransport).mockClear();
   // Use type casting to satisfy TypeScript while keeping our minimal mock interface
-  mockAxiosCreate.mockReturnValue(mockAxiosInstance as unknown as AxiosInstance);
+  vi.mocked(FetchTransport).mockImplementation(() => mockTransport as unknown as FetchTransport);
 
   // Setup global mocks
   Object.defineProperty(global, 'window', {
@@ -104,8 +85,7 @@ export const setupTestMocks = (): TestMocks => {
   });
 
   return {
-    mockAxiosInstance,
-    mockAxiosCreate,
+    mockTransport,
     localStorageMock,
     windowMock,
     documentMock
@@ -120,9 +100,11 @@ export const resetTestEnvironment = () => {
   vi.clearAllMocks();
 };
 
-export const getRequestInterceptor = (mockAxiosInstance: MockAxiosInstance) => {
-  if (!mockAxiosInstance.interceptors.request.use.mock.calls[0]) {
-    throw new Error('Request interceptor not set up. Make sure SDK is configured first.');
+// Returns the request the transport was last asked to send
+export const getLastRequest = (mockTransport: MockTransport) => {
+  const { calls } = mockTransport.send.mock;
+  if (calls.length === 0) {
+    throw new Error('No request sent. Make sure SDK is configured and content was requested first.');
   }
-  return mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
-}; 
\ No newline at end of file
+  return calls[calls.length - 1][0];
+};
@@ -1,31 +1,24 @@
 import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
 import { GrowcadoSDK } from '../../GrowcadoSDK';
-import axios from 'axios';
-
-// Mock axios at the top level of this test file
-vi.mock('axios', async () => {
-  const actual = await vi.importActual('axios');
-  return {
-    ...actual,
-    default: {
-      create: vi.fn()
-    }
-  };
-});
+import type { SDKConfig } from '../../types';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
 
 describe('Tracking Integration Tests', () => {
-  let mockAxiosInstance: any;
-  let mockAxiosCreate: any;
+  let mockTransport: any;
   let localStorageMock: any;
   let windowMock: any;
   let documentMock: any;
 
-  // Helper function to get the request interceptor
-  const getRequestInterceptor = (mockAxiosInstance: any) => {
-    if (!mockAxiosInstance.interceptors.request.use.mock.calls[0]) {
-      throw new Error('Request interceptor not set up. Make sure SDK is configured first.');
-    }
-    return mockAxiosInstance.interceptors.request.use.mock.calls[0][0];
+  // Helper function to fetch content and get the headers the transport was asked to send
+  const getRequestHeaders = async () => {
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: {} });
+    await GrowcadoSDK.getContent({ modelIdentifier: 'blog-post', contentIdentifier: 'test-post' });
+    return mockTransport.send.mock.calls[mockTransport.send.mock.calls.length - 1][0].headers;
   };
 
   beforeEach(() => {
@@ -57,20 +50,11 @@ describe('Tracking Integration Tests', () => {
       referrer: ''
     };
 
-    // Create axios instance mock with fresh spies
-    mockAxiosInstance = {
-      get: vi.fn(),
-      interceptors: {
-        request: {
-          use: vi.fn()
-        }
-      }
+    // Create transport mock with fresh spies
+    mockTransport = {
+      send: vi.fn()
     };
-
-    // Set up axios.create mock - ensure it's properly reset
-    mockAxiosCreate = vi.mocked(axios.create);
-    mockAxiosCreate.mockClear();
-    mockAxiosCreate.mockReturnValue(mockAxiosInstance);
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
 
     // Setup global mocks
     Object.defineProperty(global, 'window', {
@@ -93,7 +77,7 @@ describe('Tracking Integration Tests', () => {
   });
 
   describe('Customer Identifier Management Integration', () => {
-    it('should persist customer identifiers and make them available in requests', () => {
+    it('should persist customer identifiers and make them available in requests', async () => {
       // Configure SDK
       GrowcadoSDK.configure({
         tenantId: 'test-tenant',
@@ -109,19 +93,14 @@ describe('Tracking Integration Tests', () => {
 
       // Verify data is stored
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_customer_identifiers',
+        'test-tenant.cxp_customer_identifiers',
         JSON.stringify({ userId: 'user123', sessionId: 'session456' })
       );
 
-      // Get the interceptor function from the configure call
-      const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-      const requestConfig = { headers: {} };
-
-      // Call the interceptor
-      interceptorFunction(requestConfig);
+      const requestHeaders = await getRequestHeaders();
 
       // Verify customer identifiers are added to headers
-      expect(requestConfig.headers).toEqual({
+      expect(requestHeaders).toEqual({
         'X-CUSTOMER-IDENTIFIERS': 'user_id=user123&sessionId=session456'
       });
     });
@@ -145,7 +124,7 @@ describe('Tracking Integration Tests', () => {
 
       // Verify merged data is stored
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
-        'cxp_customer_identifiers',
+        'test-tenant.cxp_customer_identifiers',
         JSON.stringify({
           userId: 'user123',
           sessionId: 'session456',
@@ -157,7 +136,7 @@ describe('Tracking Integration Tests', () => {
 
   describe('Manual UTM Integration', () => {
     describe('setUTMParameters', () => {
-      it('should set UTM parameters and include them in request headers', () => {
+      it('should set UTM parameters and include them in request headers', async () => {
         // Configure SDK
         GrowcadoSDK.configure({
           tenantId: 'test-tenant',
@@ -171,21 +150,16 @@ describe('Tracking Integration Tests', () => {
           campaign: 'spring-sale'
         });
 
-        // Get the interceptor function from the configure call
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-
-        // Call the interceptor
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // Verify UTM parameters are added to headers
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-UTM': 'source=newsletter&medium=email&campaign=spring-sale'
         });
       });
 
-      it('should set partial UTM parameters', () => {
+      it('should set partial UTM parameters', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -194,17 +168,15 @@ describe('Tracking Integration Tests', () => {
           source: 'google'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-UTM': 'source=google'
         });
       });
 
-      it('should override auto-detected UTM parameters', () => {
+      it('should override auto-detected UTM parameters', async () => {
         // Set URL with UTM parameters
         windowMock.location.search = '?utm_source=google&utm_medium=cpc';
 
@@ -219,18 +191,16 @@ describe('Tracking Integration Tests', () => {
           medium: 'email'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // Manual should override auto-detected
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-UTM': 'source=manual&medium=email'
         });
       });
 
-      it('should handle custom UTM parameters', () => {
+      it('should handle custom UTM parameters', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -240,17 +210,15 @@ describe('Tracking Integration Tests', () => {
           customParam: 'custom-value'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-UTM': 'source=newsletter&customParam=custom-value'
         });
       });
 
-      it('should work when auto UTM is disabled', () => {
+      it('should work when auto UTM is disabled', async () => {
         windowMock.location.search = '?utm_source=google';
 
         GrowcadoSDK.configure({
@@ -262,11 +230,9 @@ describe('Tracking Integration Tests', () => {
           source: 'manual'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-UTM': 'source=manual'
         });
@@ -376,7 +342,7 @@ describe('Tracking Integration Tests', () => {
         expect(params).toBeNull();
       });
 
-      it('should remove UTM headers from requests after clearing', () => {
+      it('should remove UTM headers from requests after clearing', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -387,11 +353,9 @@ describe('Tracking Integration Tests', () => {
 
         GrowcadoSDK.clearUTMParameters();
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).not.toHaveProperty('X-UTM');
+        expect(requestHeaders).not.toHaveProperty('X-UTM');
       });
 
       it('should handle clearing when no parameters exist', () => {
@@ -408,7 +372,7 @@ describe('Tracking Integration Tests', () => {
     });
 
     describe('integration with other SDK features', () => {
-      it('should work alongside customer identifiers in request headers', () => {
+      it('should work alongside customer identifiers in request headers', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -421,17 +385,15 @@ describe('Tracking Integration Tests', () => {
           source: 'newsletter'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123',
           'X-UTM': 'source=newsletter'
         });
       });
 
-      it('should work alongside referrer tracking in request headers', () => {
+      it('should work alongside referrer tracking in request headers', async () => {
         documentMock.referrer = 'https://google.com';
 
         GrowcadoSDK.configure({
@@ -443,15 +405,9 @@ describe('Tracking Integration Tests', () => {
           source: 'newsletter'
         });
 
-        // Get the interceptor function from the configure call
-        expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalled();
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-
-        // Call the interceptor
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-UTM': 'source=newsletter',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://google.com'
@@ -488,7 +444,7 @@ describe('Tracking Integration Tests', () => {
         });
       });
 
-      it('should work with manual referrer alongside customer identifiers in request headers', () => {
+      it('should work with manual referrer alongside customer identifiers in request headers', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -499,17 +455,15 @@ describe('Tracking Integration Tests', () => {
 
         GrowcadoSDK.setReferrer('https://manual-referrer.com');
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
       });
 
-      it('should work with manual referrer, UTM parameters, and customer identifiers all together', () => {
+      it('should work with manual referrer, UTM parameters, and customer identifiers all together', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant',
           enableAutoUTM: false,
@@ -528,18 +482,16 @@ describe('Tracking Integration Tests', () => {
 
         GrowcadoSDK.setReferrer('https://manual-referrer.com');
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123&sessionId=session456',
           'X-UTM': 'source=newsletter&medium=email',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
       });
 
-      it('should prioritize manual referrer over auto-detected in combined scenarios', () => {
+      it('should prioritize manual referrer over auto-detected in combined scenarios', async () => {
         // Set auto-detected values
         documentMock.referrer = 'https://auto-detected.com';
         windowMock.location.search = '?utm_source=google&utm_medium=cpc';
@@ -560,19 +512,17 @@ describe('Tracking Integration Tests', () => {
           userId: 'user123'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // Manual values should take precedence
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123',
           'X-UTM': 'source=newsletter',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
       });
 
-      it('should handle clearing manual referrer while preserving other tracking data', () => {
+      it('should handle clearing manual referrer while preserving other tracking data', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -590,19 +540,17 @@ describe('Tracking Integration Tests', () => {
         // Clear only referrer
         GrowcadoSDK.clearReferrer();
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // UTM and customer identifiers should remain
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123',
           'X-UTM': 'source=newsletter'
         });
-        expect(requestConfig.headers).not.toHaveProperty('X-ENTRY-SOURCE-INITIAL-REFERRAL');
+        expect(requestHeaders).not.toHaveProperty('X-ENTRY-SOURCE-INITIAL-REFERRAL');
       });
 
-      it('should handle clearing all tracking data independently', () => {
+      it('should handle clearing all tracking data independently', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -620,21 +568,18 @@ describe('Tracking Integration Tests', () => {
         // Clear each type of tracking independently
         GrowcadoSDK.clearUTMParameters();
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        let requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        let requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
 
         GrowcadoSDK.clearReferrer();
 
-        requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123'
         });
       });
@@ -663,7 +608,7 @@ describe('Tracking Integration Tests', () => {
         expect(referrer).toBe('https://new-referrer.com');
       });
 
-      it('should work with ReferrerData object in combined scenarios', () => {
+      it('should work with ReferrerData object in combined scenarios', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -682,11 +627,9 @@ describe('Tracking Integration Tests', () => {
           medium: 'facebook'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'user_id=user123',
           'X-UTM': 'source=social&medium=facebook',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://complex-referrer.com/page?param=value'
@@ -695,9 +638,297 @@ describe('Tracking Integration Tests', () => {
     });
   });
 
+  describe('Attribution Window Integration', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.UTC(2024, 0, 1));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should stop sending UTM parameters and referrer once the window has passed', async () => {
+      windowMock.location.search = '?utm_source=google';
+      documentMock.referrer = 'https://google.com';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', attributionWindow: 30 * day });
+
+      vi.setSystemTime(Date.UTC(2024, 0, 30));
+      let headers = await getRequestHeaders();
+      expect(headers['X-UTM']).toBe('source=google');
+      expect(headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://google.com');
+
+      vi.setSystemTime(Date.UTC(2024, 1, 1));
+      headers = await getRequestHeaders();
+      expect(headers['X-UTM']).toBeUndefined();
+      expect(headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBeUndefined();
+      expect(GrowcadoSDK.getUTMParameters()).toBeNull();
+    });
+
+    it('should capture a new referrer after the previous one expired', () => {
+      documentMock.referrer = 'https://google.com';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', attributionWindow: 30 * day });
+
+      vi.setSystemTime(Date.UTC(2024, 1, 1));
+      GrowcadoSDK.reset();
+      documentMock.referrer = 'https://bing.com';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', attributionWindow: 30 * day });
+
+      expect(GrowcadoSDK.getReferrer()).toBe('https://bing.com');
+    });
+
+    it('should read data stored by earlier versions', async () => {
+      localStorageMock.setItem('test-tenant.cxp_utm_params', 'source=newsletter');
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableAutoUTM: false, attributionWindow: 30 * day });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-UTM']).toBe('source=newsletter');
+      expect(JSON.parse(localStorageMock.getItem('test-tenant.cxp_utm_params'))).toEqual({
+        value: 'source=newsletter',
+        capturedAt: Date.UTC(2024, 0, 1),
+        expiresAt: Date.UTC(2024, 0, 31)
+      });
+    });
+  });
+
+  describe('Attribution Model Integration', () => {
+    // Simulates a page load with the given URL and referrer
+    const visit = (url: string, referrer: string, config: Partial<SDKConfig> = {}) => {
+      GrowcadoSDK.reset();
+      windowMock.location.href = url;
+      windowMock.location.search = url.includes('?') ? url.substring(url.indexOf('?')) : '';
+      documentMock.referrer = referrer;
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', ...config });
+    };
+
+    it('should send the first touch with first-touch attribution', async () => {
+      visit('https://shop.example.com/?utm_source=google', 'https://google.com/', { attributionModel: 'first-touch' });
+      visit('https://shop.example.com/?utm_source=facebook', 'https://facebook.com/', { attributionModel: 'first-touch' });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-UTM']).toBe('source=google');
+      expect(headers['X-UTM-FIRST']).toBe('source=google');
+      expect(headers['X-UTM-LAST']).toBeUndefined();
+      expect(headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://google.com/');
+      expect(headers['X-REFERRER-FIRST']).toBe('https://google.com/');
+    });
+
+    it('should send the last touch of both trackers with last-touch attribution', async () => {
+      visit('https://shop.example.com/?utm_source=google', 'https://google.com/', { attributionModel: 'last-touch' });
+      visit('https://shop.example.com/?utm_source=facebook', 'https://facebook.com/', { attributionModel: 'last-touch' });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-UTM']).toBe('source=facebook');
+      expect(headers['X-UTM-LAST']).toBe('source=facebook');
+      expect(headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://facebook.com/');
+      expect(headers['X-REFERRER-LAST']).toBe('https://facebook.com/');
+      expect(headers['X-REFERRER-FIRST']).toBeUndefined();
+    });
+
+    it('should send the touchpoint history with multi-touch attribution', async () => {
+      const config: Partial<SDKConfig> = { attributionModel: 'multi-touch' };
+      visit('https://shop.example.com/?utm_source=google', 'https://google.com/', config);
+      visit('https://shop.example.com/products', 'https://shop.example.com/?utm_source=google', config);
+      visit('https://shop.example.com/?utm_source=newsletter', 'https://mail.example.net/', config);
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-UTM-FIRST']).toBe('source=google');
+      expect(headers['X-UTM-LAST']).toBe('source=newsletter');
+      expect(headers['X-UTM-TOUCHPOINTS']).toBe('["source=google","source=newsletter"]');
+      // Navigation within the site is not a touch
+      expect(headers['X-REFERRER-TOUCHPOINTS']).toBe('["https://google.com/","https://mail.example.net/"]');
+    });
+
+    it('should not send touch headers without an attribution model', async () => {
+      visit('https://shop.example.com/?utm_source=google', 'https://google.com/');
+      visit('https://shop.example.com/?utm_source=facebook', 'https://facebook.com/');
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-UTM']).toBe('source=facebook');
+      expect(headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://google.com/');
+      expect(Object.keys(headers).filter(name => /-(FIRST|LAST|TOUCHPOINTS)$/.test(name))).toEqual([]);
+    });
+  });
+
+  describe('Click ID Integration', () => {
+    it('should send captured click IDs alongside UTM parameters', async () => {
+      windowMock.location.search = '?utm_source=google&gclid=abc123&msclkid=ms456';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableClickIdTracking: true });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-UTM']).toBe('source=google');
+      expect(headers['X-CLICK-IDS']).toBe('gclid=abc123&msclkid=ms456');
+      expect(GrowcadoSDK.getClickIds()).toEqual({
+        gclid: { value: 'abc123', capturedAt: expect.any(Number) },
+        msclkid: { value: 'ms456', capturedAt: expect.any(Number) }
+      });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_click_ids', expect.stringContaining('"gclid"'));
+    });
+
+    it('should not capture click IDs by default', async () => {
+      windowMock.location.search = '?gclid=abc123';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant' });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-CLICK-IDS']).toBeUndefined();
+      expect(GrowcadoSDK.getClickIds()).toBeNull();
+    });
+  });
+
+  describe('Referrer Classification Integration', () => {
+    it('should send the classified referrer and ignore internal referrers', async () => {
+      documentMock.referrer = 'https://www.google.com/search?q=avocado';
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        enableReferrerClassification: true,
+        internalDomains: ['example.com'],
+        attributionModel: 'last-touch'
+      });
+
+      // A later page view referred by one of our own subdomains
+      GrowcadoSDK.reset();
+      documentMock.referrer = 'https://blog.example.com/recipes';
+      GrowcadoSDK.configure({
+        tenantId: 'test-tenant',
+        enableReferrerClassification: true,
+        internalDomains: ['example.com'],
+        attributionModel: 'last-touch'
+      });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-ENTRY-SOURCE-INITIAL-REFERRAL']).toBe('https://www.google.com/search?q=avocado');
+      expect(headers['X-REFERRER-CLASSIFICATION']).toBe('channel=search, domain="google.com", search-engine="google", keyword="avocado"');
+      expect(GrowcadoSDK.getReferrerData()).toMatchObject({ domain: 'google.com', channel: 'search' });
+    });
+  });
+
+  describe('Landing Page Integration', () => {
+    it('should send the landing pages without personal data', async () => {
+      windowMock.location.href = 'https://example.com/offer?utm_source=google&email=jane%40example.com';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableLandingPageTracking: true });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-LANDING-PAGE']).toBe('https://example.com/offer?utm_source=google');
+      expect(headers['X-SESSION-LANDING-PAGE']).toBe('https://example.com/offer?utm_source=google');
+      expect(GrowcadoSDK.getLandingPage()).toMatchObject({ path: '/offer' });
+      expect(GrowcadoSDK.getSessionLandingPage()).toMatchObject({ path: '/offer' });
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_landing_page', expect.not.stringContaining('jane'));
+    });
+
+    it('should keep the first landing page across page loads', () => {
+      windowMock.location.href = 'https://example.com/';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableLandingPageTracking: true });
+
+      GrowcadoSDK.reset();
+      windowMock.location.href = 'https://example.com/pricing';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableLandingPageTracking: true });
+
+      expect(GrowcadoSDK.getLandingPage()?.url).toBe('https://example.com/');
+    });
+  });
+
+  describe('Session Integration', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2024, 0, 1, 12, 0));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should send the session with every request', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableSessionTracking: true });
+      GrowcadoSDK.trackPageView();
+
+      const session = GrowcadoSDK.getSession();
+      const headers = await getRequestHeaders();
+
+      expect(session).toMatchObject({ startedAt: Date.now(), pageCount: 2 });
+      expect(headers['X-SESSION']).toBe(`id=${session?.id}&started_at=${Date.now()}&page_count=2`);
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_session', expect.stringContaining(`"id":"${session?.id}"`));
+    });
+
+    it('should rotate the session after the inactivity timeout across page loads', () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableSessionTracking: true, sessionTimeout: 60000 });
+      const firstSession = GrowcadoSDK.getSession();
+
+      GrowcadoSDK.reset();
+      vi.advanceTimersByTime(30000);
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableSessionTracking: true, sessionTimeout: 60000 });
+      expect(GrowcadoSDK.getSession()).toMatchObject({ id: firstSession?.id, pageCount: 2 });
+
+      GrowcadoSDK.reset();
+      vi.advanceTimersByTime(60000);
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableSessionTracking: true, sessionTimeout: 60000 });
+      expect(GrowcadoSDK.getSession()?.id).not.toBe(firstSession?.id);
+      expect(GrowcadoSDK.getSession()?.pageCount).toBe(1);
+    });
+
+    it('should record the landing page of a session started by a client-side navigation', async () => {
+      windowMock.location.href = 'https://example.com/';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableLandingPageTracking: true });
+      const firstSession = GrowcadoSDK.getSession();
+
+      vi.advanceTimersByTime(31 * 60 * 1000);
+      windowMock.location.href = 'https://example.com/second';
+      GrowcadoSDK.trackPageView();
+      const headers = await getRequestHeaders();
+
+      expect(GrowcadoSDK.getSession()?.id).not.toBe(firstSession?.id);
+      expect(GrowcadoSDK.getSessionLandingPage()).toMatchObject({ url: 'https://example.com/second' });
+      expect(GrowcadoSDK.getLandingPage()).toMatchObject({ url: 'https://example.com/' });
+      expect(headers['X-SESSION-LANDING-PAGE']).toBe('https://example.com/second');
+
+      // Later navigations in the session keep its landing page
+      GrowcadoSDK.trackPageView('https://example.com/third');
+      expect(GrowcadoSDK.getSessionLandingPage()).toMatchObject({ url: 'https://example.com/second' });
+    });
+
+    it('should record a passed URL as the landing page of a new session', () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableLandingPageTracking: true });
+
+      vi.advanceTimersByTime(31 * 60 * 1000);
+      GrowcadoSDK.trackPageView('https://example.com/pricing?utm_source=google&email=jane%40example.com');
+
+      expect(GrowcadoSDK.getSessionLandingPage()).toMatchObject({ url: 'https://example.com/pricing?utm_source=google' });
+    });
+
+    it('should record the landing page of a session started by a request', async () => {
+      windowMock.location.href = 'https://example.com/';
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', enableLandingPageTracking: true });
+
+      vi.advanceTimersByTime(31 * 60 * 1000);
+      windowMock.location.href = 'https://example.com/article';
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-SESSION-LANDING-PAGE']).toBe('https://example.com/article');
+    });
+
+    it('should not send a session header unless enabled', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant' });
+
+      const headers = await getRequestHeaders();
+
+      expect(headers['X-SESSION']).toBeUndefined();
+      expect(GrowcadoSDK.getSession()).toBeNull();
+    });
+  });
+
   describe('Manual Referrer Integration', () => {
     describe('setReferrer', () => {
-      it('should set referrer as string and include it in request headers', () => {
+      it('should set referrer as string and include it in request headers', async () => {
         // Configure SDK
         GrowcadoSDK.configure({
           tenantId: 'test-tenant',
@@ -707,21 +938,16 @@ describe('Tracking Integration Tests', () => {
         // Set manual referrer
         GrowcadoSDK.setReferrer('https://manual-referrer.com');
 
-        // Get the interceptor function from the configure call
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-
-        // Call the interceptor
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // Verify referrer is added to headers
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
       });
 
-      it('should set referrer as ReferrerData object and include URL in headers', () => {
+      it('should set referrer as ReferrerData object and include URL in headers', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant',
           enableReferrerTracking: false
@@ -733,18 +959,16 @@ describe('Tracking Integration Tests', () => {
           domain: 'example.com'
         });
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // Only the URL should be in headers
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://example.com/page'
         });
       });
 
-      it('should override auto-detected referrer', () => {
+      it('should override auto-detected referrer', async () => {
         // Set document referrer
         documentMock.referrer = 'https://auto-detected.com';
 
@@ -756,18 +980,16 @@ describe('Tracking Integration Tests', () => {
         // Override with manual referrer
         GrowcadoSDK.setReferrer('https://manual-referrer.com');
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
         // Manual should override auto-detected
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
       });
 
-      it('should work when auto referrer tracking is disabled', () => {
+      it('should work when auto referrer tracking is disabled', async () => {
         documentMock.referrer = 'https://auto-detected.com';
 
         GrowcadoSDK.configure({
@@ -777,17 +999,15 @@ describe('Tracking Integration Tests', () => {
 
         GrowcadoSDK.setReferrer('https://manual-referrer.com');
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).toEqual({
+        expect(requestHeaders).toEqual({
           'X-CUSTOMER-IDENTIFIERS': 'none:none',
           'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://manual-referrer.com'
         });
       });
 
-      it('should handle empty string by clearing referrer', () => {
+      it('should handle empty string by clearing referrer', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -798,11 +1018,9 @@ describe('Tracking Integration Tests', () => {
         // Then clear with empty string
         GrowcadoSDK.setReferrer('');
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).not.toHaveProperty('X-ENTRY-SOURCE-INITIAL-REFERRAL');
+        expect(requestHeaders).not.toHaveProperty('X-ENTRY-SOURCE-INITIAL-REFERRAL');
       });
     });
 
@@ -902,7 +1120,7 @@ describe('Tracking Integration Tests', () => {
         expect(referrer).toBeNull();
       });
 
-      it('should remove referrer headers from requests after clearing', () => {
+      it('should remove referrer headers from requests after clearing', async () => {
         GrowcadoSDK.configure({
           tenantId: 'test-tenant'
         });
@@ -911,11 +1129,9 @@ describe('Tracking Integration Tests', () => {
 
         GrowcadoSDK.clearReferrer();
 
-        const interceptorFunction = getRequestInterceptor(mockAxiosInstance);
-        const requestConfig = { headers: {} };
-        interceptorFunction(requestConfig);
+        const requestHeaders = await getRequestHeaders();
 
-        expect(requestConfig.headers).not.toHaveProperty('X-ENTRY-SOURCE-INITIAL-REFERRAL');
+        expect(requestHeaders).not.toHaveProperty('X-ENTRY-SOURCE-INITIAL-REFERRAL');
       });
 
       it('should handle clearing when no referrer exists', () => {
@@ -0,0 +1,187 @@
+import { beforeEach, describe, it, expect, afterEach, vi } from 'vitest';
+import { GrowcadoSDK } from '../../GrowcadoSDK';
+import type { JSONSchema } from '../../types';
+import { GrowcadoValidationError } from '../../errors';
+import { FetchTransport } from '../../../http/FetchTransport';
+
+// Mock the default transport at the top level of this test file
+vi.mock('../../../http/FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+describe('Validation Integration Tests', () => {
+  let mockTransport: any;
+  let consoleErrorSpy: any;
+  let consoleWarnSpy: any;
+
+  const heroSchema: JSONSchema = {
+    type: 'object',
+    required: ['title'],
+    properties: {
+      title: { type: 'string' }
+    }
+  };
+
+  beforeEach(() => {
+    GrowcadoSDK.reset();
+
+    mockTransport = {
+      send: vi.fn()
+    };
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport);
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    Object.defineProperty(global, 'window', {
+      value: { location: { search: '', href: 'https://example.com' } },
+      writable: true
+    });
+    Object.defineProperty(global, 'document', {
+      value: { referrer: '' },
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    consoleWarnSpy.mockRestore();
+    GrowcadoSDK.reset();
+    vi.clearAllMocks();
+  });
+
+  it('should return content unchanged when no validator is configured', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { headline: 'Hello' } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(result).toEqual({ data: { headline: 'Hello' } });
+  });
+
+  it('should return valid content from a validated model', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 'Hello' } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(result).toEqual({ data: { title: 'Hello' } });
+  });
+
+  it('should return a VALIDATION_ERROR with the failing field path', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 42 } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(result.data).toBeUndefined();
+    expect(result.error).toBeInstanceOf(GrowcadoValidationError);
+    expect(result.error).toMatchObject({
+      message: 'Content for model "hero" failed validation at "title": Expected string, received integer',
+      code: 'VALIDATION_ERROR',
+      path: 'title',
+      details: {
+        modelIdentifier: 'hero',
+        issues: [{ message: 'Expected string, received integer', path: ['title'] }]
+      }
+    });
+  });
+
+  it('should only validate the configured model', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 42 } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'footer', contentIdentifier: 'main' });
+
+    expect(result).toEqual({ data: { title: 42 } });
+  });
+
+  it('should prefer a per-call validator', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { title: 42 } });
+
+    const result = await GrowcadoSDK.getContent({
+      modelIdentifier: 'hero',
+      contentIdentifier: 'main',
+      validator: { type: 'object', properties: { title: { type: 'number' } } }
+    });
+
+    expect(result).toEqual({ data: { title: 42 } });
+  });
+
+  it('should log failures and return the data in warn mode', async () => {
+    GrowcadoSDK.configure({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+      validators: { hero: heroSchema },
+      validationMode: 'warn'
+    });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { headline: 'Hello' } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(result).toEqual({ data: { headline: 'Hello' } });
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      '[GrowcadoSDK] Content for model "hero" failed validation at "title": Required',
+      [{ message: 'Required', path: ['title'] }]
+    );
+  });
+
+  it('should not validate error responses', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+    mockTransport.send.mockResolvedValue({ status: 404, headers: {}, data: { message: 'Content not found' } });
+
+    const result = await GrowcadoSDK.getContent({ modelIdentifier: 'hero', contentIdentifier: 'main' });
+
+    expect(result.error?.code).toBe('NOT_FOUND');
+  });
+
+  it('should report validation failures per entry in a batch', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+    mockTransport.send.mockImplementation(async ({ url }: { url: string }) =>
+      ({ status: 200, headers: {}, data: url.endsWith('/valid') ? { title: 'Hello' } : {} })
+    );
+
+    const result = await GrowcadoSDK.getContentBatch([
+      { modelIdentifier: 'hero', contentIdentifier: 'valid' },
+      { modelIdentifier: 'hero', contentIdentifier: 'invalid' }
+    ]);
+
+    expect(result.hasErrors).toBe(true);
+    expect(result.results['hero/valid']).toEqual({ data: { title: 'Hello' } });
+    expect(result.results['hero/invalid'].error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('should apply per-call validators to their own batch entries', async () => {
+    GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory' });
+    mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { headline: 'Hello' } });
+
+    const result = await GrowcadoSDK.getContentBatch([
+      { modelIdentifier: 'hero', contentIdentifier: 'main' },
+      { modelIdentifier: 'hero', contentIdentifier: 'main', key: 'strict', validator: heroSchema }
+    ]);
+
+    expect(result.results['hero/main']).toEqual({ data: { headline: 'Hello' } });
+    expect(result.results['strict'].error?.code).toBe('VALIDATION_ERROR');
+  });
+
+  describe('listContent', () => {
+    it('should validate each item and report the item path', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [{ title: 'One' }, { title: null }], total: 2 } });
+
+      const result = await GrowcadoSDK.listContent({ modelIdentifier: 'hero' });
+
+      expect(result.error?.code).toBe('VALIDATION_ERROR');
+      expect(result.error?.path).toBe('items[1].title');
+    });
+
+    it('should skip the model validator for field projections', async () => {
+      GrowcadoSDK.configure({ tenantId: 'test-tenant', storage: 'memory', validators: { hero: heroSchema } });
+      mockTransport.send.mockResolvedValue({ status: 200, headers: {}, data: { items: [{ slug: 'one' }], total: 1 } });
+
+      const result = await GrowcadoSDK.listContent({ modelIdentifier: 'hero', fields: ['slug'] });
+
+      expect(result.data?.items).toEqual([{ slug: 'one' }]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { validateContent, formatIssuePath } from '../validation';
+import type { JSONSchema, StandardSchemaValidator, SafeParseValidator } from '../types';
+
+describe('validateContent', () => {
+  describe('JSON Schema', () => {
+    const heroSchema: JSONSchema = {
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string' },
+        priority: { type: 'integer' },
+        layout: { enum: ['wide', 'narrow'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        seo: {
+          type: 'object',
+          properties: { description: { type: ['string', 'null'] } },
+          additionalProperties: false
+        }
+      }
+    };
+
+    it('should accept matching content', async () => {
+      const content = { title: 'Hello', priority: 1, layout: 'wide', tags: ['a'], seo: { description: null } };
+
+      const result = await validateContent(heroSchema, content);
+
+      expect(result).toEqual({ value: content, issues: [] });
+    });
+
+    it('should report missing required fields', async () => {
+      const result = await validateContent(heroSchema, { headline: 'Hello' });
+
+      expect(result.value).toBeUndefined();
+      expect(result.issues).toEqual([{ message: 'Required', path: ['title'] }]);
+    });
+
+    it('should report type mismatches with their path', async () => {
+      const result = await validateContent(heroSchema, { title: 'Hello', priority: 1.5, tags: ['a', 2] });
+
+      expect(result.issues).toEqual([
+        { message: 'Expected integer, received number', path: ['priority'] },
+        { message: 'Expected string, received integer', path: ['tags', 1] }
+      ]);
+    });
+
+    it('should check enums and additional properties', async () => {
+      const result = await validateContent(heroSchema, { title: 'Hello', layout: 'full', seo: { keywords: 'x' } });
+
+      expect(result.issues).toEqual([
+        { message: 'Expected one of "wide", "narrow"', path: ['layout'] },
+        { message: 'Unexpected property', path: ['seo', 'keywords'] }
+      ]);
+    });
+  });
+
+  describe('Standard Schema', () => {
+    const validator: StandardSchemaValidator<{ title: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: async (value) => {
+          const title = (value as { title?: unknown }).title;
+          return typeof title === 'string'
+            ? { value: { title: title.trim() } }
+            : { issues: [{ message: 'Expected string', path: [{ key: 'title' }] }] };
+        }
+      }
+    };
+
+    it('should return the validator output for valid content', async () => {
+      const result = await validateContent(validator, { title: ' Hello ' });
+
+      expect(result).toEqual({ value: { title: 'Hello' }, issues: [] });
+    });
+
+    it('should return the validator issues for invalid content', async () => {
+      const result = await validateContent(validator, { title: 1 });
+
+      expect(result.issues).toEqual([{ message: 'Expected string', path: [{ key: 'title' }] }]);
+    });
+  });
+
+  describe('safeParse validators', () => {
+    const validator: SafeParseValidator<{ title: string }> = {
+      safeParse: (value) =>
+        typeof (value as { title?: unknown }).title === 'string'
+          ? { success: true, data: value as { title: string } }
+          : { success: false, error: { issues: [{ message: 'Required', path: ['title'] }] } }
+    };
+
+    it('should support zod-style safeParse()', async () => {
+      await expect(validateContent(validator, { title: 'Hello' })).resolves.toEqual({ value: { title: 'Hello' }, issues: [] });
+      await expect(validateContent(validator, {})).resolves.toEqual({
+        value: undefined,
+        issues: [{ message: 'Required', path: ['title'] }]
+      });
+    });
+  });
+});
+
+describe('formatIssuePath', () => {
+  it('should format property and index segments', () => {
+    expect(formatIssuePath(['items', 0, 'title'])).toBe('items[0].title');
+    expect(formatIssuePath([{ key: 'seo' }, { key: 'description' }])).toBe('seo.description');
+    expect(formatIssuePath(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,18 @@
+import type { ContentAPI, ContentConfig, ContentQuery, GrowcadoResponse, ListContentConfig, Page, SDKInstance } from './types.js';
+
+// Resolves to the data of a successful response and rejects with its error otherwise
+async function unwrap<T>(response: Promise<GrowcadoResponse<T>>): Promise<T> {
+  const { data, error } = await response;
+  if (error) {
+    throw error;
+  }
+  return data as T;
+}
+
+export function createContentAPI(client: SDKInstance): ContentAPI {
+  return {
+    get: <T>(config: ContentConfig): Promise<T> => unwrap(client.getContent<T>(config)),
+    list: <T>(config: ListContentConfig): Promise<Page<T>> => unwrap(client.listContent<T>(config)),
+    query: <T>(query: ContentQuery): Promise<Page<T>> => unwrap(client.queryContent<T>(query))
+  };
+}
@@ -0,0 +1,89 @@
+import type { ContentQuery, ContentSort, Page } from './types.js';
+
+/**
+ * Serializes a content query into the listing endpoint's query string:
+ * filter[field]=value, filter[field][op]=value, sort=-field,field, limit, offset, cursor, fields=a,b, locale
+ */
+export function buildContentQueryString(query: ContentQuery): string {
+  const params = new URLSearchParams();
+
+  Object.entries(query.filter ?? {}).forEach(([field, condition]) => {
+    if (condition === undefined || condition === null) return;
+
+    if (typeof condition !== 'object') {
+      params.append(`filter[${field}]`, String(condition));
+      return;
+    }
+
+    Object.entries(condition).forEach(([operator, value]) => {
+      if (value === undefined || value === null) return;
+      const serialized = Array.isArray(value) ? value.join(',') : String(value);
+      params.append(`filter[${field}][${operator}]`, serialized);
+    });
+  });
+
+  if (query.sort) {
+    const sorts: ContentSort[] = Array.isArray(query.sort) ? query.sort : [query.sort];
+    if (sorts.length > 0) {
+      params.append('sort', sorts.map(sort => `${sort.direction === 'desc' ? '-' : ''}${sort.field}`).join(','));
+    }
+  }
+
+  if (query.limit !== undefined) {
+    params.append('limit', String(query.limit));
+  }
+
+  if (query.cursor) {
+    params.append('cursor', query.cursor);
+  } else if (query.offset !== undefined) {
+    params.append('offset', String(query.offset));
+  }
+
+  if (query.fields && query.fields.length > 0) {
+    params.append('fields', query.fields.join(','));
+  }
+
+  if (query.locale) {
+    params.append('locale', query.locale);
+  }
+
+  return params.toString();
+}
+
+/**
+ * Normalizes a listing response into a Page. Accepts either a bare array or an
+ * object with items/data, total and nextCursor/next_cursor.
+ */
+export function toPage<T>(body: unknown, query: ContentQuery): Page<T> {
+  const envelope = (Array.isArray(body) ? { items: body } : body ?? {}) as {
+    items?: T[];
+    data?: T[];
+    total?: number;
+    nextCursor?: string | null;
+    next_cursor?: string | null;
+  };
+
+  const items = envelope.items ?? envelope.data ?? [];
+  const total = typeof envelope.total === 'number' ? envelope.total : items.length;
+  const nextCursor = envelope.nextCursor ?? envelope.next_cursor ?? undefined;
+
+  const page: Page<T> = {
+    items,
+    total,
+    hasMore: false
+  };
+
+  if (nextCursor) {
+    page.nextCursor = nextCursor;
+    page.hasMore = true;
+  } else if (!query.cursor) {
+    const offset = query.offset ?? 0;
+    const nextOffset = offset + items.length;
+    if (items.length > 0 && nextOffset < total) {
+      page.nextOffset = nextOffset;
+      page.hasMore = true;
+    }
+  }
+
+  return page;
+}
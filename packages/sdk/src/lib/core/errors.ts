@@ -0,0 +1,113 @@
+// Stable error codes; branch on these instead of on messages, which may change
+export const GrowcadoErrorCode = {
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  HTTP_ERROR: 'HTTP_ERROR',
+  NOT_FOUND: 'NOT_FOUND',
+  TIMEOUT: 'TIMEOUT',
+  ABORTED: 'ABORTED',
+  CONFIG_ERROR: 'CONFIG_ERROR',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR'
+} as const;
+
+export type GrowcadoErrorCode = typeof GrowcadoErrorCode[keyof typeof GrowcadoErrorCode];
+
+export interface GrowcadoErrorOptions {
+  details?: unknown;
+  // The underlying error, e.g. the one thrown by the transport
+  cause?: unknown;
+}
+
+interface GrowcadoErrorInit extends GrowcadoErrorOptions {
+  status?: number;
+  path?: string;
+}
+
+export class GrowcadoError extends Error {
+  readonly code: GrowcadoErrorCode;
+  // Set by GrowcadoHttpError and GrowcadoNotFoundError
+  readonly status?: number;
+  // Set by GrowcadoValidationError, e.g. "items[1].title"
+  readonly path?: string;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, code: GrowcadoErrorCode = GrowcadoErrorCode.UNKNOWN_ERROR, options: GrowcadoErrorInit = {}) {
+    super(message);
+    this.name = 'GrowcadoError';
+    this.code = code;
+    if (options.status !== undefined) this.status = options.status;
+    if (options.path !== undefined) this.path = options.path;
+    if (options.details !== undefined) this.details = options.details;
+    if (options.cause !== undefined) this.cause = options.cause;
+  }
+
+  // Error messages are not enumerable, so serialize explicitly (e.g. for SSR props)
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      ...(this.status !== undefined ? { status: this.status } : {}),
+      ...(this.path !== undefined ? { path: this.path } : {}),
+      ...(this.details !== undefined ? { details: this.details } : {})
+    };
+  }
+}
+
+// The request failed without a response, e.g. offline, DNS or CORS errors
+export class GrowcadoNetworkError extends GrowcadoError {
+  constructor(message: string, options: GrowcadoErrorOptions = {}) {
+    super(message, GrowcadoErrorCode.NETWORK_ERROR, options);
+    this.name = 'GrowcadoNetworkError';
+  }
+}
+
+// The API answered with a non-2xx status; details holds the response body
+export class GrowcadoHttpError extends GrowcadoError {
+  declare readonly status: number;
+
+  constructor(message: string, status: number, options: GrowcadoErrorOptions = {}, code: GrowcadoErrorCode = GrowcadoErrorCode.HTTP_ERROR) {
+    super(message, code, { ...options, status });
+    this.name = 'GrowcadoHttpError';
+  }
+}
+
+export class GrowcadoNotFoundError extends GrowcadoHttpError {
+  constructor(message: string, options: GrowcadoErrorOptions = {}) {
+    super(message, 404, options, GrowcadoErrorCode.NOT_FOUND);
+    this.name = 'GrowcadoNotFoundError';
+  }
+}
+
+export class GrowcadoTimeoutError extends GrowcadoError {
+  constructor(message: string, options: GrowcadoErrorOptions = {}) {
+    super(message, GrowcadoErrorCode.TIMEOUT, options);
+    this.name = 'GrowcadoTimeoutError';
+  }
+}
+
+// The caller cancelled the request through its AbortSignal
+export class GrowcadoAbortError extends GrowcadoError {
+  constructor(message: string, options: GrowcadoErrorOptions = {}) {
+    super(message, GrowcadoErrorCode.ABORTED, options);
+    this.name = 'GrowcadoAbortError';
+  }
+}
+
+// The SDK or the call is misconfigured, e.g. configure() was not called or the tenant ID is missing
+export class GrowcadoConfigError extends GrowcadoError {
+  constructor(message: string, options: GrowcadoErrorOptions = {}) {
+    super(message, GrowcadoErrorCode.CONFIG_ERROR, options);
+    this.name = 'GrowcadoConfigError';
+  }
+}
+
+export class GrowcadoValidationError extends GrowcadoError {
+  declare readonly path: string;
+
+  constructor(message: string, path: string, options: GrowcadoErrorOptions = {}) {
+    super(message, GrowcadoErrorCode.VALIDATION_ERROR, { ...options, path });
+    this.name = 'GrowcadoValidationError';
+  }
+}
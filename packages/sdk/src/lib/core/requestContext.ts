@@ -0,0 +1,54 @@
+import type { RequestContext } from './types.js';
+
+export function getRequestHeader(headers: RequestContext['headers'], name: string): string | undefined {
+  if (!headers) return undefined;
+
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  const entry = Object.entries(headers as Record<string, string | string[] | undefined>)
+    .find(([key]) => key.toLowerCase() === lowerName);
+  const value = entry?.[1];
+
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Node and Express request URLs only carry the path, so the host is taken from the request headers
+export function resolveRequestURL(request: RequestContext): string | undefined {
+  if (!request.url) return undefined;
+
+  const forwardedHost = getRequestHeader(request.headers, 'x-forwarded-host')?.split(',')[0].trim();
+  const host = forwardedHost || getRequestHeader(request.headers, 'host');
+  if (!host) return request.url;
+
+  const protocol = getRequestHeader(request.headers, 'x-forwarded-proto')?.split(',')[0].trim() || 'https';
+  try {
+    return new URL(request.url, `${protocol}://${host}`).href;
+  } catch {
+    return request.url;
+  }
+}
+
+export function parseCookieHeader(cookieHeader: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!cookieHeader) return cookies;
+
+  cookieHeader.split(';').forEach(part => {
+    const separatorIndex = part.indexOf('=');
+    if (separatorIndex === -1) return;
+
+    const name = part.substring(0, separatorIndex).trim();
+    const value = part.substring(separatorIndex + 1).trim();
+    if (!name) return;
+
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  });
+
+  return cookies;
+}
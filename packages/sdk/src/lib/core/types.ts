@@ -1,14 +1,100 @@
+import type { GrowcadoError } from './errors.js';
+
 export interface SDKConfig {
     baseURL?: string;
     tenantId: string;
     enableAutoUTM?: boolean;
     enableReferrerTracking?: boolean;
-    storage?: 'localStorage' | 'memory' | 'auto';
+    // Classifies the referrer into a channel and sends X-REFERRER-CLASSIFICATION (default: false);
+    // referrerRules are checked before the built-in rules
+    enableReferrerClassification?: boolean;
+    referrerRules?: ReferrerRule[];
+    // Referrers from these domains and their subdomains are internal and never stored
+    internalDomains?: string[];
+    // Records the first URL ever and the first URL of each session (default: false); only the
+    // query parameters in landingPageParams are kept (default: the utm_ parameters)
+    enableLandingPageTracking?: boolean;
+    landingPageParams?: string[];
+    // Sends X-SESSION (default: false); sessions are also tracked for session landing pages and end
+    // after sessionTimeout of inactivity and at midnight
+    enableSessionTracking?: boolean;
+    // Inactivity after which the next page view or request starts a new session, in ms (default: 30 minutes)
+    sessionTimeout?: number;
+    // Captures ad click IDs such as gclid from the URL (default: false); clickIdParams replaces
+    // the default list of query parameters (gclid, fbclid, msclkid, ttclid, li_fat_id)
+    enableClickIdTracking?: boolean;
+    clickIdParams?: string[];
+    // Built-in storage, cookies with options or a custom adapter; unavailable browser storage
+    // falls back to memory
+    storage?: StorageType | 'auto' | CookieStorageConfig | IStorageAdapter;
+    // Prefix for storage keys so several clients on one origin keep separate tracking data
+    // (default: the tenant ID; '' stores unprefixed keys)
+    namespace?: string;
+    // How long captured UTM parameters and referrers are sent after they were stored, in ms
+    // (default: none, i.e. they never expire)
+    attributionWindow?: number;
+    // Touches sent with requests: the first, the last, or up to maxTouchpoints of them (default: none,
+    // UTM parameters keep the last touch and referrers the first, without X-UTM-FIRST/-LAST headers)
+    attributionModel?: AttributionModel;
+    maxTouchpoints?: number;
+    // Maximum number of parallel requests made by getContentBatch()
+    batchConcurrency?: number;
+    // Preview mode fetches draft content and requires a preview token
+    preview?: boolean;
+    previewToken?: string;
+    // Default locale and the locales tried when an entry is missing, either one chain
+    // for every locale or a chain per locale (e.g. { 'de-CH': ['de', 'en'] })
+    locale?: string;
+    fallbackLocales?: string[] | Record<string, string[]>;
+    // Runtime validators keyed by model identifier; 'warn' logs failures and returns the data unchanged
+    validators?: Record<string, ContentValidator>;
+    validationMode?: ValidationMode;
+    // Retries failed requests; `true` uses the default policy (disabled by default)
+    retry?: boolean | RetryConfig;
+    // Per-attempt request timeout in ms (default: none)
+    timeout?: number;
+    // Sends requests; defaults to a fetch-based transport (see AxiosTransport for axios)
+    transport?: IHttpTransport;
+    // In-memory cache for getContent(); `true` uses the default options (disabled by default)
+    cache?: boolean | CacheConfig;
     // SSR-specific options
     ssrMode?: boolean;
     hydrateOnMount?: boolean;
   }
   
+  export interface RetryConfig {
+    // Total attempts including the first request (default: 3)
+    maxAttempts?: number;
+    // Exponential backoff: baseDelay * 2^(attempt - 1), capped at maxDelay, in ms (defaults: 300 / 10000)
+    baseDelay?: number;
+    maxDelay?: number;
+    // Full jitter picks a random delay between 0 and the backoff (default: true)
+    jitter?: boolean;
+    // HTTP statuses worth retrying (default: 408, 429, 500, 502, 503, 504)
+    retryableStatuses?: number[];
+    // Retry requests that failed without a response, e.g. DNS or connection errors (default: true)
+    retryNetworkErrors?: boolean;
+    // Wait as long as the Retry-After header asks, up to maxDelay (default: true)
+    respectRetryAfter?: boolean;
+  }
+
+  export interface CacheConfig {
+    // How long an entry is served without contacting the API, in ms (default: 60000)
+    ttl?: number;
+    // How long after the ttl an entry is still served while it is refreshed in the background, in ms (default: 0)
+    staleWhileRevalidate?: number;
+    // Least recently used entries are evicted beyond this size (default: 100)
+    maxEntries?: number;
+  }
+
+  export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+  export interface CacheInvalidationFilter {
+    tenantId?: string;
+    modelIdentifier?: string;
+    contentIdentifier?: string;
+  }
+
   export interface ContentConfig {
     modelIdentifier: string;
     contentIdentifier: string;
@@ -16,8 +102,132 @@ export interface SDKConfig {
     headers?: Record<string, string>;
     customerIdentifiers?: CustomerIdentifiers;
     cxpParameters?: CXPParameters;
+    // Per-call override of the SDK preview settings
+    preview?: boolean;
+    previewToken?: string;
+    // Per-call override of the SDK locale settings
+    locale?: string;
+    fallbackLocales?: string[];
+    // Per-call validator, overriding the one configured for the model
+    validator?: ContentValidator;
+    // Cancels the request; aborted requests resolve with code ABORTED
+    signal?: AbortSignal;
+    // Per-call override of the SDK timeout; timed out requests resolve with code TIMEOUT
+    timeout?: number;
+    // Set to false to bypass the SDK cache for this call
+    cache?: boolean;
   }
   
+  /**
+   * Maps model identifiers to their content types. Generated model types augment this
+   * interface so getContent() can infer the content type from the modelIdentifier.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-empty-interface, @typescript-eslint/no-empty-object-type
+  export interface ContentModelMap {}
+
+  export type ContentModelIdentifier = Extract<keyof ContentModelMap, string>;
+
+  export type ValidationMode = 'error' | 'warn';
+
+  export interface ValidationIssue {
+    message: string;
+    path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+  }
+
+  export type StandardSchemaResult<T> =
+    | { value: T; issues?: undefined }
+    | { issues: ReadonlyArray<ValidationIssue> };
+
+  // Standard Schema v1 (zod >= 3.24, valibot, arktype, ...)
+  export interface StandardSchemaValidator<T = unknown> {
+    readonly '~standard': {
+      readonly version: 1;
+      readonly vendor: string;
+      validate(value: unknown): StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>;
+    };
+  }
+
+  // Older zod-style schemas exposing safeParse()
+  export interface SafeParseValidator<T = unknown> {
+    safeParse(value: unknown):
+      | { success: true; data: T }
+      | { success: false; error: { issues: ReadonlyArray<ValidationIssue> } };
+  }
+
+  // Subset of JSON Schema: type, enum, const, properties, required, items, additionalProperties
+  export interface JSONSchema {
+    type?: JSONSchemaType | JSONSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    items?: JSONSchema;
+    additionalProperties?: boolean | JSONSchema;
+    [keyword: string]: unknown;
+  }
+
+  export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+  export type ContentValidator<T = unknown> = StandardSchemaValidator<T> | SafeParseValidator<T> | JSONSchema;
+
+  export interface BatchContentConfig extends ContentConfig {
+    // Key for this entry in the batch results (default: `${modelIdentifier}/${contentIdentifier}`)
+    key?: string;
+  }
+
+  export type ContentFilterValue =
+    | string
+    | number
+    | boolean
+    | {
+        eq?: string | number | boolean;
+        ne?: string | number | boolean;
+        in?: Array<string | number>;
+        gt?: string | number;
+        gte?: string | number;
+        lt?: string | number;
+        lte?: string | number;
+        contains?: string;
+      };
+
+  export interface ContentSort {
+    field: string;
+    direction?: 'asc' | 'desc';
+  }
+
+  export interface ListContentConfig {
+    modelIdentifier: string;
+    tenantId?: string;
+    sort?: ContentSort | ContentSort[];
+    limit?: number;
+    // Offset pagination
+    offset?: number;
+    // Cursor pagination, takes precedence over offset
+    cursor?: string;
+    fields?: string[];
+    headers?: Record<string, string>;
+    cxpParameters?: CXPParameters;
+    preview?: boolean;
+    previewToken?: string;
+    locale?: string;
+    // Validates each item; the model's configured validator is skipped when `fields` is set
+    validator?: ContentValidator;
+    signal?: AbortSignal;
+    timeout?: number;
+  }
+
+  export interface ContentQuery extends ListContentConfig {
+    filter?: Record<string, ContentFilterValue>;
+  }
+
+  export interface Page<T> {
+    items: T[];
+    total: number;
+    hasMore: boolean;
+    nextCursor?: string;
+    nextOffset?: number;
+  }
+
   export interface CustomerIdentifiers {
     email?: string;
     userId?: string;
@@ -34,9 +244,53 @@ export interface SDKConfig {
     [key: string]: string | undefined;
   }
 
+  export type AttributionModel = 'first-touch' | 'last-touch' | 'multi-touch';
+
+  // Stored UTM or referrer value with its capture time and, within an attribution window, its expiry (epoch ms)
+  export interface AttributionRecord {
+    value: string;
+    capturedAt: number;
+    expiresAt?: number;
+  }
+
+  // Captured ad click IDs keyed by query parameter, e.g. { gclid: { value: 'abc', capturedAt: ... } }
+  export type ClickIds = Record<string, AttributionRecord>;
+
+  // Entry URL with query parameters outside the allowlist removed
+  export interface LandingPage {
+    url: string;
+    path: string;
+    capturedAt: number;
+  }
+
+  // A visit; page views and requests are activity and keep it alive
+  export interface SessionData {
+    id: string;
+    startedAt: number;
+    lastActivityAt: number;
+    pageCount: number;
+  }
+
+  export type ReferrerChannel = 'search' | 'social' | 'email' | 'internal' | 'referral' | 'direct';
+
+  // Matches referrer hosts against domains, including their subdomains; 'google.*' matches any
+  // country domain such as google.de or google.co.uk
+  export interface ReferrerRule {
+    channel: ReferrerChannel;
+    domains: string[];
+    // Search engine or platform name, e.g. 'google'
+    name?: string;
+    // Query parameter holding the search keyword, e.g. 'q'
+    keywordParam?: string;
+  }
+
   export interface ReferrerData {
     url: string;
     domain?: string;
+    // Set for classified referrers, see getReferrerData()
+    channel?: ReferrerChannel;
+    searchEngine?: string;
+    keyword?: string;
     [key: string]: string | undefined;
   }
 
@@ -44,20 +298,59 @@ export interface SDKConfig {
     [key: string]: string | undefined;
   }
   
+  // Incoming server request used to build a request-scoped SDK context
+  export interface RequestContext {
+    url?: string;
+    headers?: Record<string, string | string[] | undefined> | Headers;
+    cookies?: Record<string, string | undefined>;
+  }
+
   export interface GrowcadoResponse<T = unknown> {
     data?: T;
-    error?: {
-      message: string;
-      code?: string | number;
-      details?: unknown;
-    };
+    // Set when the content was fetched from the draft endpoint
+    isPreview?: boolean;
+    // Locale that actually resolved when a locale was requested
+    locale?: string;
+    // Set when the SDK cache is enabled: served fresh from cache, served stale while refreshing, or fetched
+    cache?: CacheStatus;
+    // True when the API confirmed the cached content with 304 Not Modified
+    revalidated?: boolean;
+    // Cache validators returned by the API
+    etag?: string;
+    lastModified?: string;
+    // Branch on error.code or instanceof (e.g. GrowcadoNotFoundError) rather than on the message
+    error?: GrowcadoError;
   }
   
+  export interface GrowcadoBatchResponse<T = unknown> {
+    results: Record<string, GrowcadoResponse<T>>;
+    hasErrors: boolean;
+  }
+
+  // Throwing counterpart of getContent(), listContent() and queryContent(): resolves to the
+  // content itself and rejects with a GrowcadoError instead of returning `error`
+  export interface ContentAPI {
+    get<M extends ContentModelIdentifier>(config: ContentConfig & { modelIdentifier: M }): Promise<ContentModelMap[M]>;
+    get<T>(config: ContentConfig): Promise<T>;
+    list<T>(config: ListContentConfig): Promise<Page<T>>;
+    query<T>(query: ContentQuery): Promise<Page<T>>;
+  }
+
   export interface SDKInstance {
+    // Throwing API, e.g. `await GrowcadoSDK.content.get({ ... })`
+    readonly content: ContentAPI;
     configure(config: SDKConfig): void;
+    getContent<M extends ContentModelIdentifier>(config: ContentConfig & { modelIdentifier: M }): Promise<GrowcadoResponse<ContentModelMap[M]>>;
     getContent<T>(config: ContentConfig): Promise<GrowcadoResponse<T>>;
+    getContentBatch<T>(configs: BatchContentConfig[]): Promise<GrowcadoBatchResponse<T>>;
+    listContent<T>(config: ListContentConfig): Promise<GrowcadoResponse<Page<T>>>;
+    queryContent<T>(query: ContentQuery): Promise<GrowcadoResponse<Page<T>>>;
     setCustomerIdentifiers(identifiers: CustomerIdentifiers): void;
     getConfig(): SDKConfig | null;
+    setPreviewMode(enabled: boolean, previewToken?: string): void;
+    invalidate(filter?: CacheInvalidationFilter): void;
+    // Adds request middleware; returns a function that removes it again
+    use(middleware: HttpMiddleware): () => void;
     reset(): void;
     hydrate(): void;
     // Manual UTM tracking methods
@@ -68,17 +361,99 @@ export interface SDKConfig {
     setReferrer(referrer: string | ReferrerData): void;
     clearReferrer(): void;
     getReferrer(): string | null;
+    // Stored referrer with its domain, channel and search keyword
+    getReferrerData(): ReferrerData | null;
+    // Landing pages recorded with enableLandingPageTracking
+    getLandingPage(): LandingPage | null;
+    getSessionLandingPage(): LandingPage | null;
+    // Ad click IDs captured with enableClickIdTracking
+    getClickIds(): ClickIds | null;
+    // Current session with enableSessionTracking or enableLandingPageTracking; trackPageView()
+    // counts client-side navigations (url defaults to the current location)
+    getSession(): SessionData | null;
+    trackPageView(url?: string): void;
+    // Request-scoped context for server-side rendering
+    withRequest(request: RequestContext): SDKInstance;
   }
 
   // New interfaces for refactored architecture
+  export type StorageType = 'localStorage' | 'sessionStorage' | 'cookie' | 'memory';
+
+  export interface CookieStorageOptions {
+    // Share the cookies with subdomains, e.g. '.example.com' (default: the current host only)
+    domain?: string;
+    // default: '/'
+    path?: string;
+    // default: 'Lax'
+    sameSite?: 'Strict' | 'Lax' | 'None';
+    // Only send the cookies over HTTPS; always set for SameSite=None (default: false)
+    secure?: boolean;
+    // Lifetime in seconds; 0 writes session cookies that expire with the browser session (default: 1 year)
+    maxAge?: number;
+  }
+
+  // Cookie storage with options; like 'cookie', it falls back to memory and is hydrated
+  export interface CookieStorageConfig extends CookieStorageOptions {
+    type: 'cookie';
+  }
+
+  // Key-value backend of the storage manager; window.localStorage and window.sessionStorage
+  // satisfy it as they are (see MemoryStorage, WebStorage and CookieStorage)
+  export interface IStorageAdapter {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+  }
+
   export interface IStorageManager {
     getItem(key: string): string | null;
     setItem(key: string, value: string): void;
     clear(): void;
   }
 
+  export interface RequestOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+    // Validators from a cached response; sent as If-None-Match / If-Modified-Since
+    conditional?: {
+      etag?: string;
+      lastModified?: string;
+    };
+    // The caller handles 404 itself, e.g. by trying a fallback locale, so it is not logged
+    expectNotFound?: boolean;
+  }
+
+  export interface HttpRequest {
+    method: 'GET';
+    // Absolute URL including the query string
+    url: string;
+    headers: Record<string, string>;
+    signal?: AbortSignal;
+    timeout?: number;
+  }
+
+  export interface HttpResponse<T = unknown> {
+    status: number;
+    // Header names are lower-case
+    headers: Record<string, string>;
+    data: T;
+  }
+
+  // Sends a request and resolves with any HTTP status; rejects only when no response arrived
+  export interface IHttpTransport {
+    send(request: HttpRequest): Promise<HttpResponse>;
+  }
+
+  // Wraps sending a request; call next() to continue with the following middleware and the transport
+  export type HttpMiddleware = (
+    request: HttpRequest,
+    next: (request: HttpRequest) => Promise<HttpResponse>
+  ) => Promise<HttpResponse>;
+
   export interface IHttpClient {
-    get<T>(path: string, headers?: Record<string, string>): Promise<GrowcadoResponse<T>>;
+    get<T>(path: string, headers?: Record<string, string>, options?: RequestOptions): Promise<GrowcadoResponse<T>>;
+    // Returns a function that removes the middleware again
+    use(middleware: HttpMiddleware): () => void;
     configure(config: SDKConfig): void;
     reset(): void;
   }
@@ -0,0 +1,120 @@
+import type {
+  ContentValidator,
+  JSONSchema,
+  JSONSchemaType,
+  SafeParseValidator,
+  StandardSchemaValidator,
+  ValidationIssue
+} from './types.js';
+
+// Issues are empty when the content is valid
+export interface ValidationResult<T> {
+  value: T | undefined;
+  issues: ValidationIssue[];
+}
+
+function isStandardSchema(validator: ContentValidator): validator is StandardSchemaValidator {
+  return typeof (validator as StandardSchemaValidator)['~standard']?.validate === 'function';
+}
+
+function isSafeParseValidator(validator: ContentValidator): validator is SafeParseValidator {
+  return typeof (validator as SafeParseValidator).safeParse === 'function';
+}
+
+/**
+ * Runs a Standard Schema, safeParse() or JSON Schema validator against fetched content.
+ * Valid results carry the validator's output, which may differ from the input (e.g. zod transforms).
+ */
+export async function validateContent<T>(validator: ContentValidator, data: unknown): Promise<ValidationResult<T>> {
+  if (isStandardSchema(validator)) {
+    const result = await validator['~standard'].validate(data);
+    return result.issues
+      ? { value: undefined, issues: [...result.issues] }
+      : { value: (result as { value: T }).value, issues: [] };
+  }
+
+  if (isSafeParseValidator(validator)) {
+    const result = validator.safeParse(data) as { success: boolean; data?: T; error?: { issues: ReadonlyArray<ValidationIssue> } };
+    return result.success
+      ? { value: result.data, issues: [] }
+      : { value: undefined, issues: [...(result.error?.issues ?? [{ message: 'Invalid content' }])] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  validateJSONSchema(validator as JSONSchema, data, [], issues);
+  return { value: issues.length === 0 ? data as T : undefined, issues };
+}
+
+/**
+ * Formats an issue path as a property accessor, e.g. ['items', 0, 'title'] -> "items[0].title".
+ */
+export function formatIssuePath(path: ValidationIssue['path']): string {
+  return (path ?? []).reduce<string>((formatted, segment) => {
+    const key = typeof segment === 'object' && segment !== null ? segment.key : segment;
+    if (typeof key === 'number') {
+      return `${formatted}[${key}]`;
+    }
+    return formatted ? `${formatted}.${String(key)}` : String(key);
+  }, '');
+}
+
+function typeOf(value: unknown): JSONSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JSONSchemaType;
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function validateJSONSchema(schema: JSONSchema, value: unknown, path: PropertyKey[], issues: ValidationIssue[]): void {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ message: `Expected ${types.join(' | ')}, received ${typeOf(value)}`, path });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    issues.push({ message: `Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`, path });
+    return;
+  }
+
+  if ('const' in schema && schema.const !== value) {
+    issues.push({ message: `Expected ${JSON.stringify(schema.const)}`, path });
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => validateJSONSchema(schema.items as JSONSchema, item, [...path, index], issues));
+    }
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null) return;
+
+  const record = value as Record<string, unknown>;
+  (schema.required ?? []).forEach(key => {
+    if (record[key] === undefined) {
+      issues.push({ message: 'Required', path: [...path, key] });
+    }
+  });
+
+  Object.entries(record).forEach(([key, propertyValue]) => {
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema) {
+      if (propertyValue !== undefined) {
+        validateJSONSchema(propertySchema, propertyValue, [...path, key], issues);
+      }
+    } else if (schema.additionalProperties === false) {
+      issues.push({ message: 'Unexpected property', path: [...path, key] });
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateJSONSchema(schema.additionalProperties, propertyValue, [...path, key], issues);
+    }
+  });
+}
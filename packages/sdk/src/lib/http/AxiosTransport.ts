@@ -0,0 +1,46 @@
+import type { HttpRequest, HttpResponse, IHttpTransport } from '../core/types.js';
+
+// The parts of an axios instance the adapter uses, so axios stays an optional dependency
+export interface AxiosLikeInstance {
+  request(config: {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    signal?: AbortSignal;
+    timeout?: number;
+    validateStatus: (status: number) => boolean;
+  }): Promise<{ status: number; headers: unknown; data: unknown }>;
+}
+
+/**
+ * Adapter for applications that already use axios, e.g.
+ * `new AxiosTransport(axios.create({ proxy: ... }))`. Its interceptors keep working.
+ */
+export class AxiosTransport implements IHttpTransport {
+  constructor(private readonly axiosInstance: AxiosLikeInstance) {}
+
+  async send(request: HttpRequest): Promise<HttpResponse> {
+    const response = await this.axiosInstance.request({
+      url: request.url,
+      method: request.method,
+      headers: request.headers,
+      signal: request.signal,
+      timeout: request.timeout,
+      // Status handling happens in HttpClient, like for every transport
+      validateStatus: () => true
+    });
+
+    const headers: Record<string, string> = {};
+    Object.entries((response.headers ?? {}) as Record<string, unknown>).forEach(([name, value]) => {
+      if (value !== undefined && value !== null) {
+        headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    });
+
+    return {
+      status: response.status,
+      headers,
+      data: response.data === '' ? undefined : response.data
+    };
+  }
+}
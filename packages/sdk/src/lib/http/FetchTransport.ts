@@ -0,0 +1,79 @@
+import type { HttpRequest, HttpResponse, IHttpTransport } from '../core/types.js';
+import { GrowcadoConfigError } from '../core/errors.js';
+
+export interface FetchTransportOptions {
+  // fetch implementation to use (default: the global fetch)
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport built on the Fetch API, available in browsers, Node 18+, Deno and edge runtimes.
+ */
+export class FetchTransport implements IHttpTransport {
+  constructor(private readonly options: FetchTransportOptions = {}) {}
+
+  async send(request: HttpRequest): Promise<HttpResponse> {
+    // Resolved per request so a fetch installed or replaced later is picked up
+    const fetchImpl = this.options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new GrowcadoConfigError('fetch is not available in this environment. Pass a fetch implementation or another transport.');
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(request.signal?.reason);
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) {
+      onAbort();
+    }
+
+    let timedOut = false;
+    const timer = request.timeout !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+
+    try {
+      const response = await fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        signal: controller.signal
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        headers,
+        data: await this.readBody(response)
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw Object.assign(new Error(`timeout of ${request.timeout}ms exceeded`), { code: 'ETIMEDOUT' });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async readBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) return undefined;
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    return text;
+  }
+}
@@ -1,59 +1,212 @@
-import axios, { AxiosInstance } from 'axios';
-import type { IHttpClient, SDKConfig, GrowcadoResponse } from '../core/types.js';
+import type {
+  IHttpClient,
+  IHttpTransport,
+  HttpMiddleware,
+  HttpRequest,
+  HttpResponse,
+  SDKConfig,
+  GrowcadoResponse,
+  RequestOptions
+} from '../core/types.js';
+import {
+  GrowcadoError,
+  GrowcadoAbortError,
+  GrowcadoConfigError,
+  GrowcadoHttpError,
+  GrowcadoNetworkError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError
+} from '../core/errors.js';
+import { FetchTransport } from './FetchTransport.js';
+import { getRetryDelay, isRetryableError, resolveRetryPolicy, type RetryPolicy } from './retryPolicy.js';
 
 export class HttpClient implements IHttpClient {
-  private axiosInstance: AxiosInstance | null = null;
+  private transport: IHttpTransport | null = null;
   private config: SDKConfig | null = null;
+  private retryPolicy: RetryPolicy | null = null;
+  private middleware: HttpMiddleware[] = [];
 
   configure(config: SDKConfig): void {
     this.config = config;
-    
-    // Create axios instance with base configuration
-    this.axiosInstance = axios.create({
-      baseURL: config.baseURL || 'https://api.growcado.io/',
-    });
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.transport = config.transport ?? new FetchTransport();
+    this.middleware = [];
+  }
+
+  // Middleware runs in registration order around every attempt, including retries
+  use(middleware: HttpMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
+      }
+    };
   }
 
-  async get<T>(path: string, headers?: Record<string, string>): Promise<GrowcadoResponse<T>> {
-    if (!this.axiosInstance || !this.config) {
-      throw new Error('HttpClient not configured. Call configure() first.');
+  async get<T>(path: string, headers?: Record<string, string>, options: RequestOptions = {}): Promise<GrowcadoResponse<T>> {
+    if (!this.transport || !this.config) {
+      throw new GrowcadoConfigError('HttpClient not configured. Call configure() first.');
     }
 
+    const timeout = options.timeout ?? this.config.timeout;
+    const request = this.buildRequest(path, headers, options, timeout);
+    const { etag: conditionalEtag, lastModified: conditionalLastModified } = options.conditional ?? {};
+    // 304 Not Modified is an expected answer to a conditional request
+    const acceptNotModified = Boolean(conditionalEtag || conditionalLastModified);
+
     try {
-      const response = await this.axiosInstance.get(path, 
-        headers ? { headers } : undefined
-      );
+      const response = await this.getWithRetry(request, acceptNotModified);
 
-      return { data: response.data };
+      const result: GrowcadoResponse<T> = response.status === 304 ? { revalidated: true } : { data: response.data as T };
+      const etag = response.headers['etag'];
+      const lastModified = response.headers['last-modified'];
+      if (etag) result.etag = etag;
+      if (lastModified) result.lastModified = lastModified;
+      return result;
     } catch (error: unknown) {
+      return { error: this.toGrowcadoError(error, options, timeout) };
+    }
+  }
+
+  private toGrowcadoError(error: unknown, options: RequestOptions, timeout: number | undefined): GrowcadoError {
+    // Cancellation is expected (e.g. an unmounted component), so it is not logged
+    if (this.isAbortError(error, options.signal)) {
+      return new GrowcadoAbortError('Request was aborted', { cause: error });
+    }
+
+    const growcadoError = this.classifyError(error, timeout);
+    if (!(options.expectNotFound && growcadoError instanceof GrowcadoNotFoundError)) {
       console.error('[GrowcadoSDK] Error fetching content:', error);
-      
-      const errorResponse = error as { 
-        response?: { 
-          data?: { message?: string; [key: string]: unknown }; 
-          status?: number; 
-        }; 
-        message?: string;
-        code?: string | number;
-        config?: unknown;
-      };
-      
-      return {
-        error: {
-          message: errorResponse.response?.data?.message || errorResponse.message || 'An unknown error occurred',
-          code: errorResponse.response?.status || errorResponse.code,
-          details: errorResponse.response?.data || errorResponse.config,
+    }
+
+    return growcadoError;
+  }
+
+  private classifyError(error: unknown, timeout: number | undefined): GrowcadoError {
+    // Middleware may throw its own typed errors
+    if (error instanceof GrowcadoError) {
+      return error;
+    }
+
+    if (this.isTimeoutError(error)) {
+      return new GrowcadoTimeoutError(`Request timed out after ${timeout}ms`, { cause: error });
+    }
+
+    const errorResponse = (error ?? {}) as {
+      response?: HttpResponse<{ message?: string; [key: string]: unknown } | undefined>;
+      message?: string;
+    };
+    const { response } = errorResponse;
+
+    if (!response) {
+      return new GrowcadoNetworkError(errorResponse.message || 'An unknown error occurred', { cause: error });
+    }
+
+    const message = response.data?.message || errorResponse.message || 'An unknown error occurred';
+    const options = { details: response.data, cause: error };
+    return response.status === 404
+      ? new GrowcadoNotFoundError(message, options)
+      : new GrowcadoHttpError(message, response.status, options);
+  }
+
+  private buildRequest(
+    path: string,
+    headers: Record<string, string> | undefined,
+    options: RequestOptions,
+    timeout: number | undefined
+  ): HttpRequest {
+    const { etag, lastModified } = options.conditional ?? {};
+    const request: HttpRequest = {
+      method: 'GET',
+      url: this.buildURL(path),
+      headers: {
+        ...headers,
+        ...(etag ? { 'If-None-Match': etag } : {}),
+        ...(lastModified ? { 'If-Modified-Since': lastModified } : {})
+      }
+    };
+    if (options.signal) request.signal = options.signal;
+    if (timeout !== undefined) request.timeout = timeout;
+
+    return request;
+  }
+
+  private buildURL(path: string): string {
+    const baseURL = this.config?.baseURL || 'https://api.growcado.io/';
+    return `${baseURL.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  }
+
+  // Runs the middleware chain and the transport; non-2xx responses are thrown like network errors
+  private async send(request: HttpRequest, acceptNotModified: boolean): Promise<HttpResponse> {
+    const transport = this.transport as IHttpTransport;
+    // Middleware added or removed while the request is in flight applies to the next one
+    const chain = [...this.middleware];
+    const dispatch = (index: number, current: HttpRequest): Promise<HttpResponse> => {
+      const middleware = chain[index];
+      return middleware
+        ? middleware(current, next => dispatch(index + 1, next))
+        : transport.send(current);
+    };
+
+    const response = await dispatch(0, request);
+    const { status } = response;
+    if ((status >= 200 && status < 300) || (acceptNotModified && status === 304)) {
+      return response;
+    }
+
+    throw Object.assign(new Error(`Request failed with status code ${status}`), { response });
+  }
+
+  private async getWithRetry(request: HttpRequest, acceptNotModified: boolean): Promise<HttpResponse> {
+    const { signal } = request;
+    const policy = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send(request, acceptNotModified);
+      } catch (error) {
+        if (!policy || attempt >= policy.maxAttempts || signal?.aborted || !isRetryableError(policy, error as object)) {
+          throw error;
         }
-      };
+
+        await this.wait(getRetryDelay(policy, attempt, error as object), signal);
+        if (signal?.aborted) {
+          throw error;
+        }
+      }
     }
   }
 
-  getAxiosInstance(): AxiosInstance | null {
-    return this.axiosInstance;
+  // Resolves after the delay, or as soon as the signal aborts
+  private wait(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private isAbortError(error: unknown, signal?: AbortSignal): boolean {
+    const { code, name } = (error ?? {}) as { code?: unknown; name?: unknown };
+    return Boolean(signal?.aborted) || code === 'ERR_CANCELED' || name === 'AbortError' || name === 'CanceledError';
+  }
+
+  private isTimeoutError(error: unknown): boolean {
+    const { code, response } = (error ?? {}) as { code?: unknown; response?: unknown };
+    return !response && (code === 'ECONNABORTED' || code === 'ETIMEDOUT');
   }
 
   reset(): void {
-    this.axiosInstance = null;
+    this.transport = null;
     this.config = null;
+    this.retryPolicy = null;
+    this.middleware = [];
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { AxiosTransport } from '../AxiosTransport';
+import { vi, describe, it, expect } from 'vitest';
+
+describe('AxiosTransport', () => {
+  const request = { method: 'GET' as const, url: 'https://api.growcado.io/test-path', headers: { 'X-Custom-Header': 'test-value' } };
+
+  it('should send the request through the axios instance', async () => {
+    const axiosInstance = { request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: { id: 1 } }) };
+    const controller = new AbortController();
+
+    const response = await new AxiosTransport(axiosInstance).send({ ...request, signal: controller.signal, timeout: 500 });
+
+    expect(axiosInstance.request).toHaveBeenCalledWith({
+      url: 'https://api.growcado.io/test-path',
+      method: 'GET',
+      headers: { 'X-Custom-Header': 'test-value' },
+      signal: controller.signal,
+      timeout: 500,
+      validateStatus: expect.any(Function)
+    });
+    expect(response).toEqual({ status: 200, headers: {}, data: { id: 1 } });
+  });
+
+  it('should resolve every status so HttpClient can handle it', async () => {
+    const axiosInstance = { request: vi.fn().mockResolvedValue({ status: 404, headers: {}, data: { message: 'Not Found' } }) };
+
+    const response = await new AxiosTransport(axiosInstance).send(request);
+
+    const [config] = axiosInstance.request.mock.calls[0];
+    expect(config.validateStatus(500)).toBe(true);
+    expect(response.status).toBe(404);
+  });
+
+  it('should normalize response headers and empty bodies', async () => {
+    const axiosInstance = {
+      request: vi.fn().mockResolvedValue({ status: 304, headers: { ETag: '"v1"', 'Set-Cookie': ['a=1', 'b=2'] }, data: '' })
+    };
+
+    const response = await new AxiosTransport(axiosInstance).send(request);
+
+    expect(response).toEqual({ status: 304, headers: { etag: '"v1"', 'set-cookie': 'a=1, b=2' }, data: undefined });
+  });
+
+  it('should pass axios errors through', async () => {
+    const error = Object.assign(new Error('timeout of 500ms exceeded'), { code: 'ECONNABORTED' });
+    const axiosInstance = { request: vi.fn().mockRejectedValue(error) };
+
+    await expect(new AxiosTransport(axiosInstance).send(request)).rejects.toBe(error);
+  });
+});
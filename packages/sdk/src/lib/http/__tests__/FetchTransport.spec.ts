@@ -0,0 +1,105 @@
+import { FetchTransport } from '../FetchTransport';
+import { vi, beforeEach, afterEach, describe, it, expect } from 'vitest';
+
+describe('FetchTransport', () => {
+  const request = { method: 'GET' as const, url: 'https://api.growcado.io/test-path', headers: { 'X-Custom-Header': 'test-value' } };
+
+  const jsonResponse = (body: unknown, init: ResponseInit = {}) =>
+    new Response(JSON.stringify(body), { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the request with the global fetch', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ id: 1 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await new FetchTransport().send(request);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.growcado.io/test-path', expect.objectContaining({
+      method: 'GET',
+      headers: { 'X-Custom-Header': 'test-value' },
+      signal: expect.any(AbortSignal)
+    }));
+    expect(response).toEqual({ status: 200, headers: { 'content-type': 'application/json' }, data: { id: 1 } });
+  });
+
+  it('should prefer a fetch implementation passed in the options', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({}));
+
+    await new FetchTransport({ fetch: fetchMock }).send(request);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve error statuses with their body', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ message: 'Content not found' }, { status: 404, headers: { ETag: '"v1"' } }));
+
+    const response = await new FetchTransport({ fetch: fetchMock }).send(request);
+
+    expect(response.status).toBe(404);
+    expect(response.headers['etag']).toBe('"v1"');
+    expect(response.data).toEqual({ message: 'Content not found' });
+  });
+
+  it('should return text bodies as strings and empty bodies as undefined', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('plain text', { headers: { 'Content-Type': 'text/plain' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const transport = new FetchTransport({ fetch: fetchMock });
+
+    expect((await transport.send(request)).data).toBe('plain text');
+    expect((await transport.send(request)).data).toBeUndefined();
+  });
+
+  it('should throw when fetch is not available', async () => {
+    vi.stubGlobal('fetch', undefined);
+
+    await expect(new FetchTransport().send(request)).rejects.toThrow('fetch is not available');
+  });
+
+  describe('timeouts and cancellation', () => {
+    // Never settles unless the request is aborted, like fetch against an unresponsive server
+    const hangingFetch = vi.fn((_input: RequestInfo | URL, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        const abort = () => reject(new DOMException('This operation was aborted', 'AbortError'));
+        if (init?.signal?.aborted) abort();
+        init?.signal?.addEventListener('abort', abort);
+      })
+    );
+
+    beforeEach(() => {
+      hangingFetch.mockClear();
+    });
+
+    it('should reject with ETIMEDOUT once the timeout elapses', async () => {
+      vi.useFakeTimers();
+
+      const sending = new FetchTransport({ fetch: hangingFetch }).send({ ...request, timeout: 100 });
+      const assertion = expect(sending).rejects.toMatchObject({ code: 'ETIMEDOUT', message: 'timeout of 100ms exceeded' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+    });
+
+    it('should abort the request when the caller aborts', async () => {
+      const controller = new AbortController();
+
+      const sending = new FetchTransport({ fetch: hangingFetch }).send({ ...request, signal: controller.signal });
+      controller.abort();
+
+      await expect(sending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('should pass an already aborted signal on to fetch', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(new FetchTransport({ fetch: hangingFetch }).send({ ...request, signal: controller.signal }))
+        .rejects.toMatchObject({ name: 'AbortError' });
+      expect(hangingFetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    });
+  });
+});
@@ -1,85 +1,98 @@
 import { HttpClient } from '../HttpClient';
-import axios from 'axios';
-import { vi, beforeEach, describe, it, expect, Mock } from 'vitest';
-
-// Mock axios
-vi.mock('axios', async () => {
-  const actual = await vi.importActual('axios');
-  return {
-    ...actual,
-    default: {
-      create: vi.fn(() => ({
-        get: vi.fn()
-      }))
-    }
-  };
-});
-
-interface MockAxiosInstance {
-  get: Mock;
+import { FetchTransport } from '../FetchTransport';
+import {
+  GrowcadoConfigError,
+  GrowcadoHttpError,
+  GrowcadoNetworkError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError
+} from '../../core/errors';
+import { vi, beforeEach, afterEach, describe, it, expect, Mock } from 'vitest';
+
+// Mock the default transport
+vi.mock('../FetchTransport', () => ({
+  FetchTransport: vi.fn()
+}));
+
+interface MockTransport {
+  send: Mock;
 }
 
 describe('HttpClient', () => {
   let httpClient: HttpClient;
-  let mockAxiosInstance: MockAxiosInstance;
-  let mockAxiosCreate: Mock;
+  let mockTransport: MockTransport;
+
+  const ok = (data: unknown, headers: Record<string, string> = {}) => ({ status: 200, headers, data });
 
   beforeEach(() => {
     vi.clearAllMocks();
     
-    // Setup axios mock
-    mockAxiosInstance = {
-      get: vi.fn()
+    // Setup transport mock
+    mockTransport = {
+      send: vi.fn()
     };
-    
-    mockAxiosCreate = vi.mocked(axios.create);
-    mockAxiosCreate.mockReturnValue(mockAxiosInstance);
+    vi.mocked(FetchTransport).mockImplementation(() => mockTransport as unknown as FetchTransport);
     
     httpClient = new HttpClient();
   });
 
   describe('configure', () => {
-    it('should create axios instance with default baseURL', () => {
+    it('should use the fetch transport by default', async () => {
       httpClient.configure({
         tenantId: 'test-tenant'
       });
+      mockTransport.send.mockResolvedValue(ok({}));
+
+      await httpClient.get('test-path');
 
-      expect(mockAxiosCreate).toHaveBeenCalledWith({
-        baseURL: 'https://api.growcado.io/'
+      expect(FetchTransport).toHaveBeenCalledTimes(1);
+      expect(mockTransport.send).toHaveBeenCalledWith({
+        method: 'GET',
+        url: 'https://api.growcado.io/test-path',
+        headers: {}
       });
     });
 
-    it('should create axios instance with custom baseURL', () => {
+    it('should use a configured transport', async () => {
+      const customTransport = { send: vi.fn().mockResolvedValue(ok({ id: 1 })) };
       httpClient.configure({
         tenantId: 'test-tenant',
-        baseURL: 'https://custom.api.com/'
+        transport: customTransport
       });
 
-      expect(mockAxiosCreate).toHaveBeenCalledWith({
-        baseURL: 'https://custom.api.com/'
-      });
+      const result = await httpClient.get('test-path');
+
+      expect(FetchTransport).not.toHaveBeenCalled();
+      expect(customTransport.send).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ data: { id: 1 } });
     });
 
-    it('should store configuration', () => {
+    it('should resolve paths against a custom baseURL', async () => {
       httpClient.configure({
         tenantId: 'test-tenant',
-        baseURL: 'https://custom.api.com/',
-        enableAutoUTM: false
+        baseURL: 'https://custom.api.com/v1'
       });
+      mockTransport.send.mockResolvedValue(ok({}));
+
+      await httpClient.get('/test-path?locale=en');
 
-      const axiosInstance = httpClient.getAxiosInstance();
-      expect(axiosInstance).toBe(mockAxiosInstance);
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://custom.api.com/v1/test-path?locale=en' })
+      );
     });
 
-    it('should handle undefined baseURL', () => {
+    it('should handle undefined baseURL', async () => {
       httpClient.configure({
         tenantId: 'test-tenant',
         baseURL: undefined
       });
+      mockTransport.send.mockResolvedValue(ok({}));
 
-      expect(mockAxiosCreate).toHaveBeenCalledWith({
-        baseURL: 'https://api.growcado.io/'
-      });
+      await httpClient.get('test-path');
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://api.growcado.io/test-path' })
+      );
     });
   });
 
@@ -91,83 +104,71 @@ describe('HttpClient', () => {
     });
 
     it('should make successful GET request without headers', async () => {
-      const mockResponse = {
-        data: { id: 1, title: 'Test Content' }
-      };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      const mockResponse = ok({ id: 1, title: 'Test Content' });
+      mockTransport.send.mockResolvedValue(mockResponse);
 
       const result = await httpClient.get('/test-path');
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/test-path', undefined);
+      expect(mockTransport.send).toHaveBeenCalledWith({
+        method: 'GET',
+        url: 'https://api.growcado.io/test-path',
+        headers: {}
+      });
       expect(result).toEqual({ data: mockResponse.data });
     });
 
     it('should make successful GET request with headers', async () => {
-      const mockResponse = {
-        data: { id: 1, title: 'Test Content' }
-      };
+      const mockResponse = ok({ id: 1, title: 'Test Content' });
       const customHeaders = { 'X-Custom-Header': 'test-value' };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      mockTransport.send.mockResolvedValue(mockResponse);
 
       const result = await httpClient.get('/test-path', customHeaders);
 
-      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/test-path', { headers: customHeaders });
+      expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({ headers: customHeaders }));
       expect(result).toEqual({ data: mockResponse.data });
     });
 
     it('should handle network errors', async () => {
       const networkError = new Error('Network Error');
-      mockAxiosInstance.get.mockRejectedValue(networkError);
+      mockTransport.send.mockRejectedValue(networkError);
 
       const result = await httpClient.get('/test-path');
 
-      expect(result).toEqual({
-        error: {
-          message: 'Network Error',
-          code: undefined,
-          details: undefined
-        }
-      });
+      expect(result.error).toBeInstanceOf(GrowcadoNetworkError);
+      expect(result.error).toMatchObject({ message: 'Network Error', code: 'NETWORK_ERROR', cause: networkError });
+      expect(result.error?.status).toBeUndefined();
     });
 
     it('should handle server errors with response data', async () => {
-      const serverError = {
-        response: {
-          status: 404,
-          data: { message: 'Content not found', details: 'Additional info' }
-        }
-      };
-      mockAxiosInstance.get.mockRejectedValue(serverError);
+      mockTransport.send.mockResolvedValue({
+        status: 404,
+        headers: {},
+        data: { message: 'Content not found', details: 'Additional info' }
+      });
 
       const result = await httpClient.get('/test-path');
 
-      expect(result).toEqual({
-        error: {
-          message: 'Content not found',
-          code: 404,
-          details: { message: 'Content not found', details: 'Additional info' }
-        }
+      expect(result.error).toBeInstanceOf(GrowcadoNotFoundError);
+      expect(result.error).toBeInstanceOf(GrowcadoHttpError);
+      expect(result.error).toMatchObject({
+        message: 'Content not found',
+        code: 'NOT_FOUND',
+        status: 404,
+        details: { message: 'Content not found', details: 'Additional info' }
       });
     });
 
     it('should handle server errors without response message', async () => {
-      const serverError = {
-        response: {
-          status: 500,
-          data: {}
-        },
-        message: 'Internal Server Error'
-      };
-      mockAxiosInstance.get.mockRejectedValue(serverError);
+      mockTransport.send.mockResolvedValue({ status: 500, headers: {}, data: {} });
 
       const result = await httpClient.get('/test-path');
 
-      expect(result).toEqual({
-        error: {
-          message: 'Internal Server Error',
-          code: 500,
-          details: {}
-        }
+      expect(result.error).toBeInstanceOf(GrowcadoHttpError);
+      expect(result.error).toMatchObject({
+        message: 'Request failed with status code 500',
+        code: 'HTTP_ERROR',
+        status: 500,
+        details: {}
       });
     });
 
@@ -176,83 +177,114 @@ describe('HttpClient', () => {
         code: 'ECONNREFUSED',
         message: 'Connection refused'
       };
-      mockAxiosInstance.get.mockRejectedValue(errorWithCode);
+      mockTransport.send.mockRejectedValue(errorWithCode);
 
       const result = await httpClient.get('/test-path');
 
-      expect(result).toEqual({
-        error: {
-          message: 'Connection refused',
-          code: 'ECONNREFUSED',
-          details: undefined
-        }
-      });
+      expect(result.error).toBeInstanceOf(GrowcadoNetworkError);
+      expect(result.error).toMatchObject({ message: 'Connection refused', code: 'NETWORK_ERROR', cause: errorWithCode });
     });
 
     it('should handle unknown errors', async () => {
       const unknownError = {};
-      mockAxiosInstance.get.mockRejectedValue(unknownError);
+      mockTransport.send.mockRejectedValue(unknownError);
 
       const result = await httpClient.get('/test-path');
 
-      expect(result).toEqual({
-        error: {
-          message: 'An unknown error occurred',
-          code: undefined,
-          details: undefined
-        }
-      });
+      expect(result.error).toBeInstanceOf(GrowcadoNetworkError);
+      expect(result.error?.message).toBe('An unknown error occurred');
     });
 
     it('should throw error when not configured', async () => {
       const unconfiguredClient = new HttpClient();
 
       await expect(unconfiguredClient.get('/test-path')).rejects.toThrow('HttpClient not configured');
+      await expect(unconfiguredClient.get('/test-path')).rejects.toBeInstanceOf(GrowcadoConfigError);
     });
+  });
 
-    it('should include error config in details when available', async () => {
-      const errorWithConfig = {
-        message: 'Request failed',
-        config: { url: '/test-path', method: 'GET' }
-      };
-      mockAxiosInstance.get.mockRejectedValue(errorWithConfig);
+  describe('middleware', () => {
+    beforeEach(() => {
+      httpClient.configure({
+        tenantId: 'test-tenant'
+      });
+      mockTransport.send.mockResolvedValue(ok({ title: 'Hello' }));
+    });
+
+    it('should run middleware in registration order around the transport', async () => {
+      const calls: string[] = [];
+      httpClient.use(async (request, next) => {
+        calls.push('first');
+        const response = await next(request);
+        calls.push('first done');
+        return response;
+      });
+      httpClient.use(async (request, next) => {
+        calls.push('second');
+        return next(request);
+      });
+      mockTransport.send.mockImplementation(async () => {
+        calls.push('transport');
+        return ok({});
+      });
+
+      await httpClient.get('/test-path');
+
+      expect(calls).toEqual(['first', 'second', 'transport', 'first done']);
+    });
+
+    it('should send the request passed to next()', async () => {
+      httpClient.use((request, next) => next({ ...request, headers: { ...request.headers, 'X-Added': 'yes' } }));
+
+      await httpClient.get('/test-path', { 'X-Custom-Header': 'test-value' });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(expect.objectContaining({
+        headers: { 'X-Custom-Header': 'test-value', 'X-Added': 'yes' }
+      }));
+    });
+
+    it('should let middleware answer without calling the transport', async () => {
+      httpClient.use(async () => ok({ title: 'Mocked' }));
 
       const result = await httpClient.get('/test-path');
 
-      expect(result.error?.details).toEqual({ url: '/test-path', method: 'GET' });
+      expect(mockTransport.send).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: { title: 'Mocked' } });
     });
-  });
 
-  describe('getAxiosInstance', () => {
-    it('should return null when not configured', () => {
-      const axiosInstance = httpClient.getAxiosInstance();
-      expect(axiosInstance).toBeNull();
+    it('should remove middleware with the returned function', async () => {
+      const middleware = vi.fn((request, next) => next(request));
+      const remove = httpClient.use(middleware);
+
+      remove();
+      await httpClient.get('/test-path');
+
+      expect(middleware).not.toHaveBeenCalled();
     });
 
-    it('should return axios instance when configured', () => {
-      httpClient.configure({
-        tenantId: 'test-tenant'
-      });
+    it('should drop middleware when reconfigured', async () => {
+      const middleware = vi.fn((request, next) => next(request));
+      httpClient.use(middleware);
+
+      httpClient.configure({ tenantId: 'test-tenant' });
+      await httpClient.get('/test-path');
 
-      const axiosInstance = httpClient.getAxiosInstance();
-      expect(axiosInstance).toBe(mockAxiosInstance);
+      expect(middleware).not.toHaveBeenCalled();
     });
   });
 
   describe('reset', () => {
-    it('should reset all state', () => {
+    it('should reset all state', async () => {
       httpClient.configure({
         tenantId: 'test-tenant'
       });
 
-      expect(httpClient.getAxiosInstance()).toBe(mockAxiosInstance);
-
       httpClient.reset();
 
-      expect(httpClient.getAxiosInstance()).toBeNull();
+      await expect(httpClient.get('/test-path')).rejects.toThrow('HttpClient not configured');
     });
 
-    it('should allow reconfiguration after reset', () => {
+    it('should allow reconfiguration after reset', async () => {
       httpClient.configure({
         tenantId: 'test-tenant'
       });
@@ -262,11 +294,12 @@ describe('HttpClient', () => {
         tenantId: 'new-tenant',
         baseURL: 'https://new-api.com/'
       });
+      mockTransport.send.mockResolvedValue(ok({}));
+      await httpClient.get('test-path');
 
-      expect(mockAxiosCreate).toHaveBeenCalledTimes(2);
-      expect(mockAxiosCreate).toHaveBeenLastCalledWith({
-        baseURL: 'https://new-api.com/'
-      });
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://new-api.com/test-path' })
+      );
     });
   });
 
@@ -286,7 +319,7 @@ describe('HttpClient', () => {
 
     it('should log errors to console', async () => {
       const error = new Error('Test error');
-      mockAxiosInstance.get.mockRejectedValue(error);
+      mockTransport.send.mockRejectedValue(error);
 
       await httpClient.get('/test-path');
 
@@ -302,8 +335,7 @@ describe('HttpClient', () => {
     });
 
     it('should handle empty response data', async () => {
-      const mockResponse = { data: null };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      mockTransport.send.mockResolvedValue(ok(null));
 
       const result = await httpClient.get('/test-path');
 
@@ -311,19 +343,17 @@ describe('HttpClient', () => {
     });
 
     it('should handle complex response data', async () => {
-      const mockResponse = {
-        data: {
-          items: [
-            { id: 1, name: 'Item 1' },
-            { id: 2, name: 'Item 2' }
-          ],
-          pagination: {
-            page: 1,
-            total: 2
-          }
+      const mockResponse = ok({
+        items: [
+          { id: 1, name: 'Item 1' },
+          { id: 2, name: 'Item 2' }
+        ],
+        pagination: {
+          page: 1,
+          total: 2
         }
-      };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      });
+      mockTransport.send.mockResolvedValue(mockResponse);
 
       const result = await httpClient.get('/test-path');
 
@@ -331,12 +361,264 @@ describe('HttpClient', () => {
     });
 
     it('should handle string response data', async () => {
-      const mockResponse = { data: 'Simple string response' };
-      mockAxiosInstance.get.mockResolvedValue(mockResponse);
+      mockTransport.send.mockResolvedValue(ok('Simple string response'));
 
       const result = await httpClient.get('/test-path');
 
       expect(result).toEqual({ data: 'Simple string response' });
     });
   });
-}); 
\ No newline at end of file
+
+  describe('retry', () => {
+    const unavailable = { status: 503, headers: {}, data: { message: 'Service Unavailable' } };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('should not retry unless a retry policy is configured', async () => {
+      httpClient.configure({ tenantId: 'test-tenant' });
+      mockTransport.send.mockResolvedValue(unavailable);
+
+      const result = await httpClient.get('/test-path');
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+      expect(result.error?.status).toBe(503);
+    });
+
+    it('should retry retryable statuses with exponential backoff', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { baseDelay: 100, jitter: false } });
+      mockTransport.send
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(unavailable)
+        .mockResolvedValueOnce(ok({ title: 'Recovered' }));
+
+      const resultPromise = httpClient.get('/test-path');
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(resultPromise).resolves.toEqual({ data: { title: 'Recovered' } });
+      expect(mockTransport.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return the last error after the maximum attempts', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { maxAttempts: 2, jitter: false } });
+      mockTransport.send.mockResolvedValue(unavailable);
+
+      const resultPromise = httpClient.get('/test-path');
+      await vi.runAllTimersAsync();
+
+      const result = await resultPromise;
+      expect(result.error).toMatchObject({ message: 'Service Unavailable', status: 503, details: { message: 'Service Unavailable' } });
+      expect(mockTransport.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry statuses outside the retryable list', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: true });
+      mockTransport.send.mockResolvedValue({ status: 404, headers: {}, data: { message: 'Not Found' } });
+
+      await httpClient.get('/test-path');
+
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry network errors unless disabled', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { jitter: false } });
+      mockTransport.send
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce(ok('ok'));
+
+      const resultPromise = httpClient.get('/test-path');
+      await vi.runAllTimersAsync();
+      await expect(resultPromise).resolves.toEqual({ data: 'ok' });
+
+      httpClient.configure({ tenantId: 'test-tenant', retry: { retryNetworkErrors: false } });
+      mockTransport.send.mockClear().mockRejectedValue(new Error('Network Error'));
+
+      await httpClient.get('/test-path');
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for the Retry-After header', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { baseDelay: 100, jitter: false } });
+      mockTransport.send
+        .mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '2' }, data: {} })
+        .mockResolvedValueOnce(ok('ok'));
+
+      const resultPromise = httpClient.get('/test-path');
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockTransport.send).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(resultPromise).resolves.toEqual({ data: 'ok' });
+    });
+
+    it('should run middleware again for every attempt', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { maxAttempts: 2, jitter: false } });
+      const middleware = vi.fn((request, next) => next(request));
+      httpClient.use(middleware);
+      mockTransport.send.mockResolvedValue(unavailable);
+
+      const resultPromise = httpClient.get('/test-path');
+      await vi.runAllTimersAsync();
+      await resultPromise;
+
+      expect(middleware).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry typed errors thrown by middleware', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { jitter: false } });
+      const middleware = vi.fn(async () => {
+        throw new GrowcadoConfigError('Missing access token');
+      });
+      httpClient.use(middleware);
+
+      const result = await httpClient.get('/test-path');
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(result.error).toBeInstanceOf(GrowcadoConfigError);
+    });
+
+    it('should only log the final failure', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', retry: { maxAttempts: 3, jitter: false } });
+      mockTransport.send.mockResolvedValue(unavailable);
+
+      const resultPromise = httpClient.get('/test-path');
+      await vi.runAllTimersAsync();
+      await resultPromise;
+
+      expect(console.error).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should pass the configured timeout to the transport', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', timeout: 3000 });
+      mockTransport.send.mockResolvedValue(ok('ok'));
+
+      await httpClient.get('/test-path', { 'X-Custom-Header': 'test-value' });
+
+      expect(mockTransport.send).toHaveBeenCalledWith({
+        method: 'GET',
+        url: 'https://api.growcado.io/test-path',
+        headers: { 'X-Custom-Header': 'test-value' },
+        timeout: 3000
+      });
+    });
+
+    it('should let request options override the timeout', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', timeout: 3000 });
+      mockTransport.send.mockResolvedValue(ok('ok'));
+      const controller = new AbortController();
+
+      await httpClient.get('/test-path', undefined, { timeout: 100, signal: controller.signal });
+
+      expect(mockTransport.send).toHaveBeenCalledWith(
+        expect.objectContaining({ timeout: 100, signal: controller.signal })
+      );
+    });
+
+    it('should map transport timeouts to TIMEOUT', async () => {
+      httpClient.configure({ tenantId: 'test-tenant', timeout: 3000 });
+      mockTransport.send.mockRejectedValue({ code: 'ETIMEDOUT', message: 'timeout of 3000ms exceeded' });
+
+      const result = await httpClient.get('/test-path');
+
+      expect(result.error).toBeInstanceOf(GrowcadoTimeoutError);
+      expect(result.error?.code).toBe('TIMEOUT');
+      expect(result.error?.message).toBe('Request timed out after 3000ms');
+    });
+
+    it('should map cancellations to ABORTED', async () => {
+      httpClient.configure({ tenantId: 'test-tenant' });
+      mockTransport.send.mockRejectedValue(new DOMException('This operation was aborted', 'AbortError'));
+
+      const result = await httpClient.get('/test-path');
+
+      expect(result.error?.code).toBe('ABORTED');
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should not log 404s the caller expects', async () => {
+      httpClient.configure({ tenantId: 'test-tenant' });
+      mockTransport.send.mockResolvedValue({ status: 404, headers: {}, data: { message: 'Not Found' } });
+
+      const expected = await httpClient.get('/test-path', undefined, { expectNotFound: true });
+      expect(expected.error).toBeInstanceOf(GrowcadoNotFoundError);
+      expect(console.error).not.toHaveBeenCalled();
+
+      mockTransport.send.mockResolvedValue({ status: 500, headers: {}, data: { message: 'Server error' } });
+      await httpClient.get('/test-path', undefined, { expectNotFound: true });
+      expect(console.error).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('conditional requests', () => {
+    beforeEach(() => {
+      httpClient.configure({ tenantId: 'test-tenant' });
+      vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should expose ETag and Last-Modified from the response', async () => {
+      mockTransport.send.mockResolvedValue(
+        ok({ title: 'Hello' }, { etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' })
+      );
+
+      const result = await httpClient.get('/test-path');
+
+      expect(result).toEqual({
+        data: { title: 'Hello' },
+        etag: '"v1"',
+        lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT'
+      });
+    });
+
+    it('should send If-None-Match and If-Modified-Since and accept 304', async () => {
+      mockTransport.send.mockResolvedValue({ status: 304, headers: { etag: '"v1"' }, data: undefined });
+
+      const result = await httpClient.get('/test-path', { 'X-Custom-Header': 'test-value' }, {
+        conditional: { etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' }
+      });
+
+      const [request] = mockTransport.send.mock.calls[0];
+      expect(request.headers).toEqual({
+        'X-Custom-Header': 'test-value',
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT'
+      });
+      expect(result).toEqual({ revalidated: true, etag: '"v1"' });
+    });
+
+    it('should treat 304 as an error for unconditional requests', async () => {
+      mockTransport.send.mockResolvedValue({ status: 304, headers: {}, data: undefined });
+
+      const result = await httpClient.get('/test-path');
+
+      expect(result.error?.status).toBe(304);
+    });
+  });
+});
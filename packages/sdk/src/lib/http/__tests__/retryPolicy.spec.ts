@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, parseRetryAfter, resolveRetryPolicy } from '../retryPolicy';
+import { GrowcadoConfigError, GrowcadoError, GrowcadoHttpError, GrowcadoNetworkError, GrowcadoTimeoutError } from '../../core/errors';
+
+describe('retryPolicy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('resolveRetryPolicy', () => {
+    it('should be disabled by default', () => {
+      expect(resolveRetryPolicy(undefined)).toBeNull();
+      expect(resolveRetryPolicy(false)).toBeNull();
+      expect(resolveRetryPolicy({ maxAttempts: 1 })).toBeNull();
+    });
+
+    it('should fill in defaults', () => {
+      expect(resolveRetryPolicy(true)).toEqual(DEFAULT_RETRY_POLICY);
+      expect(resolveRetryPolicy({ maxAttempts: 5 })).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5 });
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry configured statuses and network errors', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, { response: { status: 502 } })).toBe(true);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, { response: { status: 400 } })).toBe(false);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, { code: 'ECONNRESET' })).toBe(true);
+    });
+
+    it('should never retry cancelled requests', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, { code: 'ERR_CANCELED' })).toBe(false);
+    });
+
+    it('should only retry typed network and timeout errors', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, new GrowcadoNetworkError('Network Error'))).toBe(true);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, new GrowcadoTimeoutError('Timed out'))).toBe(true);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, new GrowcadoConfigError('fetch is not available'))).toBe(false);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, new GrowcadoHttpError('Unavailable', 503))).toBe(false);
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, new GrowcadoError('Unknown'))).toBe(false);
+      expect(isRetryableError({ ...DEFAULT_RETRY_POLICY, retryNetworkErrors: false }, new GrowcadoNetworkError('Network Error'))).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000, jitter: false };
+
+    it('should back off exponentially up to the cap', () => {
+      expect(getRetryDelay(policy, 1, {})).toBe(100);
+      expect(getRetryDelay(policy, 2, {})).toBe(200);
+      expect(getRetryDelay(policy, 3, {})).toBe(400);
+      expect(getRetryDelay(policy, 5, {})).toBe(1000);
+    });
+
+    it('should apply full jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay({ ...policy, jitter: true }, 2, {})).toBe(100);
+    });
+
+    it('should prefer Retry-After, capped at the maximum delay', () => {
+      expect(getRetryDelay(policy, 1, { response: { headers: { 'retry-after': '0.5' } } })).toBe(500);
+      expect(getRetryDelay(policy, 1, { response: { headers: { 'retry-after': '120' } } })).toBe(1000);
+      expect(getRetryDelay({ ...policy, respectRetryAfter: false }, 1, { response: { headers: { 'retry-after': '0.5' } } })).toBe(100);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter('soon')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import type { RetryConfig, SDKConfig } from '../core/types.js';
+import { GrowcadoError, GrowcadoNetworkError, GrowcadoTimeoutError } from '../core/errors.js';
+
+export type RetryPolicy = Required<RetryConfig>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  respectRetryAfter: true
+};
+
+// Shape of the request errors the policy inspects
+export interface RetryableError {
+  response?: {
+    status?: number;
+    headers?: Record<string, unknown>;
+  };
+  code?: string | number;
+}
+
+/**
+ * Resolves SDKConfig.retry into a complete policy, or null when retries are disabled.
+ */
+export function resolveRetryPolicy(retry: SDKConfig['retry']): RetryPolicy | null {
+  if (!retry) return null;
+
+  const policy = { ...DEFAULT_RETRY_POLICY, ...(retry === true ? {} : retry) };
+  return policy.maxAttempts > 1 ? policy : null;
+}
+
+export function isRetryableError(policy: RetryPolicy, error: RetryableError): boolean {
+  // Cancelled requests are never retried
+  if (error.code === 'ERR_CANCELED') return false;
+
+  // Typed errors are thrown on purpose, e.g. by middleware or a misconfigured transport,
+  // so only network failures and timeouts among them may be transient
+  if (error instanceof GrowcadoError) {
+    return (error instanceof GrowcadoNetworkError || error instanceof GrowcadoTimeoutError) && policy.retryNetworkErrors;
+  }
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return policy.retryNetworkErrors;
+  }
+
+  return policy.retryableStatuses.includes(status);
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date, in ms.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Number(text) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Delay in ms before the given retry (1 for the first retry).
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number, error: RetryableError): number {
+  if (policy.respectRetryAfter) {
+    const headers = error.response?.headers ?? {};
+    const retryAfter = parseRetryAfter(headers['retry-after'] ?? headers['Retry-After']);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, policy.maxDelay);
+    }
+  }
+
+  const backoff = Math.min(policy.baseDelay * 2 ** (retry - 1), policy.maxDelay);
+  return policy.jitter ? Math.round(Math.random() * backoff) : backoff;
+}
@@ -1,7 +1,28 @@
 export * from './core/types.js';
-export { GrowcadoSDK } from './core/GrowcadoSDK.js';
+export { GrowcadoSDK, createGrowcadoClient } from './core/GrowcadoSDK.js';
+export {
+  GrowcadoErrorCode,
+  GrowcadoError,
+  GrowcadoNetworkError,
+  GrowcadoHttpError,
+  GrowcadoNotFoundError,
+  GrowcadoTimeoutError,
+  GrowcadoAbortError,
+  GrowcadoConfigError,
+  GrowcadoValidationError,
+  type GrowcadoErrorOptions
+} from './core/errors.js';
 export { StorageManager } from './storage/StorageManager.js';
+export { MemoryStorage } from './storage/MemoryStorage.js';
+export { WebStorage, type WebStorageType } from './storage/WebStorage.js';
+export { CookieStorage, type CookieStorageOptions } from './storage/CookieStorage.js';
 export { HttpClient } from './http/HttpClient.js';
+export { FetchTransport, type FetchTransportOptions } from './http/FetchTransport.js';
+export { AxiosTransport, type AxiosLikeInstance } from './http/AxiosTransport.js';
 export { UTMTracker } from './tracking/UTMTracker.js';
 export { CustomerIdentifierManager } from './tracking/CustomerIdentifierManager.js';
-export { ReferrerTracker } from './tracking/ReferrerTracker.js'; 
\ No newline at end of file
+export { ReferrerTracker } from './tracking/ReferrerTracker.js';
+export { ClickIdTracker, DEFAULT_CLICK_ID_PARAMS } from './tracking/ClickIdTracker.js';
+export { classifyReferrer, DEFAULT_REFERRER_RULES } from './tracking/referrerClassification.js';
+export { LandingPageTracker, DEFAULT_LANDING_PAGE_PARAMS } from './tracking/LandingPageTracker.js';
+export { SessionManager } from './tracking/SessionManager.js'; 
\ No newline at end of file
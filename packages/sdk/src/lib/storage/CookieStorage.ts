@@ -0,0 +1,46 @@
+import type { CookieStorageOptions, IStorageAdapter } from '../core/types.js';
+import { parseCookieHeader } from '../core/requestContext.js';
+
+export type { CookieStorageOptions };
+
+const DEFAULT_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * Storage adapter backed by cookies, so the server can read attribution and identifiers
+ * from the incoming request (see GrowcadoSDK.withRequest()).
+ */
+export class CookieStorage implements IStorageAdapter {
+  constructor(private readonly options: CookieStorageOptions = {}) {}
+
+  static isAvailable(): boolean {
+    return typeof document !== 'undefined' && typeof document.cookie === 'string';
+  }
+
+  getItem(key: string): string | null {
+    if (!CookieStorage.isAvailable()) return null;
+    return parseCookieHeader(document.cookie)[key] ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    const maxAge = this.options.maxAge ?? DEFAULT_MAX_AGE;
+    this.write(key, encodeURIComponent(value), maxAge > 0 ? maxAge : undefined);
+  }
+
+  removeItem(key: string): void {
+    this.write(key, '', 0);
+  }
+
+  private write(key: string, value: string, maxAge: number | undefined): void {
+    if (!CookieStorage.isAvailable()) return;
+
+    const { domain, path = '/', sameSite = 'Lax', secure = false } = this.options;
+    const attributes = [`${key}=${value}`, `Path=${path}`];
+    if (maxAge !== undefined) attributes.push(`Max-Age=${maxAge}`);
+    if (domain) attributes.push(`Domain=${domain}`);
+    attributes.push(`SameSite=${sameSite}`);
+    // Browsers reject SameSite=None cookies that are not Secure
+    if (secure || sameSite === 'None') attributes.push('Secure');
+
+    document.cookie = attributes.join('; ');
+  }
+}
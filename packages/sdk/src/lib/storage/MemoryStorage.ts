@@ -0,0 +1,28 @@
+import type { IStorageAdapter } from '../core/types.js';
+
+/**
+ * Storage adapter that keeps values in memory for the lifetime of the client.
+ */
+export class MemoryStorage implements IStorageAdapter {
+  private values = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.values.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.values.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.values.keys()];
+  }
+
+  clear(): void {
+    this.values.clear();
+  }
+}
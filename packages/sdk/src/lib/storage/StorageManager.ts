@@ -1,130 +1,197 @@
-import type { IStorageManager, SDKConfig } from '../core/types.js';
+import type { CookieStorageOptions, IStorageAdapter, IStorageManager, SDKConfig, StorageType } from '../core/types.js';
+import { MemoryStorage } from './MemoryStorage.js';
+import { WebStorage } from './WebStorage.js';
+import { CookieStorage } from './CookieStorage.js';
+
+const TRACKING_KEYS = [
+  'cxp_utm_params',
+  'cxp_utm_touchpoints',
+  'cxp_initial_referrer',
+  'cxp_referrer_touchpoints',
+  'cxp_click_ids',
+  'cxp_landing_page',
+  'cxp_session_landing_page',
+  'cxp_session',
+  'cxp_customer_identifiers'
+];
 
 export class StorageManager implements IStorageManager {
-  private storageType: 'localStorage' | 'memory';
-  private memoryStorage: Map<string, string>;
+  private storageType: StorageType | 'custom';
+  private adapter: IStorageAdapter;
+  private memoryStorage: MemoryStorage;
+  // Key prefix; defaults to the tenant ID so tenants on one origin keep separate data
+  private namespace: string;
+  private hasLegacyKeys: boolean;
+  // Browser storage that hydration upgrades memory storage to
+  private hydrationTarget: StorageType;
+  private cookieOptions: CookieStorageOptions = {};
 
   constructor(config: SDKConfig) {
-    this.memoryStorage = new Map();
-    this.storageType = this.resolveStorageType(config);
+    this.memoryStorage = new MemoryStorage();
+    this.namespace = config.namespace ?? config.tenantId ?? '';
+    // Keys were unprefixed before the namespace defaulted to the tenant ID
+    this.hasLegacyKeys = config.namespace === undefined && Boolean(this.namespace);
+
+    const storage = config.storage || 'localStorage';
+    if (typeof storage === 'object' && 'getItem' in storage) {
+      // Custom adapters are used as given, also in SSR mode
+      this.storageType = 'custom';
+      this.adapter = storage;
+      this.hydrationTarget = 'memory';
+    } else {
+      // Cookie options are kept for every cookie adapter, including the one created on hydration
+      if (typeof storage === 'object') {
+        this.cookieOptions = storage;
+      }
+      const requestedStorage = typeof storage === 'object' ? storage.type : storage;
+      this.hydrationTarget = requestedStorage === 'sessionStorage' || requestedStorage === 'cookie' ? requestedStorage : 'localStorage';
+      this.storageType = this.resolveStorageType(config, requestedStorage);
+      this.adapter = this.createAdapter(this.storageType);
+    }
+
+    this.moveLegacyKeys();
+  }
+
+  // Keys double as cookie names, which may not contain ':'
+  private resolveKey(key: string): string {
+    return this.namespace ? `${this.namespace}.${key}` : key;
+  }
+
+  // Moves tracking data stored under the legacy unprefixed keys into the namespace, once
+  private moveLegacyKeys(): void {
+    if (!this.hasLegacyKeys) return;
+
+    try {
+      TRACKING_KEYS.forEach(key => {
+        const value = this.adapter.getItem(key);
+        if (value === null) return;
+
+        // Data already in the namespace is newer than the legacy copy
+        if (this.adapter.getItem(this.resolveKey(key)) === null) {
+          this.adapter.setItem(this.resolveKey(key), value);
+        }
+        this.adapter.removeItem(key);
+      });
+    } catch (error) {
+      console.warn('[StorageManager] Failed to migrate legacy storage keys:', error);
+    }
   }
 
-  private resolveStorageType(config: SDKConfig): 'localStorage' | 'memory' {
-    const requestedStorage = config.storage || 'localStorage';
-    
+  private resolveStorageType(config: SDKConfig, requestedStorage: StorageType | 'auto'): StorageType {
     // For explicit SSR mode, always use memory regardless of storage config
     if (config.ssrMode === true) {
       return 'memory';
     }
-    
+
     // Handle 'auto' storage type (only after SSR check)
     if (requestedStorage === 'auto') {
       return this.detectOptimalStorage();
     }
-    
+
     // For explicit types, validate they work in current environment
-    if (requestedStorage === 'localStorage') {
-      return this.canUseLocalStorage() ? 'localStorage' : 'memory';
-    }
-    
-    return requestedStorage as 'localStorage' | 'memory';
+    return this.canUseStorage(requestedStorage) ? requestedStorage : 'memory';
   }
 
-  private detectOptimalStorage(): 'localStorage' | 'memory' {
+  private detectOptimalStorage(): StorageType {
     if (typeof window === 'undefined') return 'memory';
-    return this.canUseLocalStorage() ? 'localStorage' : 'memory';
+    return this.canUseStorage('localStorage') ? 'localStorage' : 'memory';
   }
 
-  private canUseLocalStorage(): boolean {
-    if (typeof window === 'undefined') return false;
-    
-    try {
-      localStorage.setItem('growcado_test', 'test');
-      localStorage.removeItem('growcado_test');
-      return true;
-    } catch {
-      return false;
-    }
+  private canUseStorage(storageType: StorageType): boolean {
+    if (storageType === 'memory') return true;
+    if (storageType === 'cookie') return CookieStorage.isAvailable();
+    return WebStorage.isAvailable(storageType);
+  }
+
+  private createAdapter(storageType: StorageType): IStorageAdapter {
+    if (storageType === 'memory') return this.memoryStorage;
+    if (storageType === 'cookie') return new CookieStorage(this.cookieOptions);
+    return new WebStorage(storageType);
   }
 
   getItem(key: string): string | null {
-    if (this.storageType === 'localStorage' && typeof window !== 'undefined') {
-      return localStorage.getItem(key);
-    }
-    return this.memoryStorage.get(key) ?? null;
+    return this.adapter.getItem(this.resolveKey(key));
   }
 
   setItem(key: string, value: string): void {
-    if (this.storageType === 'localStorage' && typeof window !== 'undefined') {
-      localStorage.setItem(key, value);
-    } else {
-      this.memoryStorage.set(key, value);
-    }
+    this.adapter.setItem(this.resolveKey(key), value);
   }
 
   clear(): void {
-    if (this.storageType === 'localStorage' && typeof window !== 'undefined') {
-      // Only clear our keys to avoid affecting other applications
-      const keysToRemove = ['cxp_utm_params', 'cxp_initial_referrer', 'cxp_customer_identifiers'];
-      keysToRemove.forEach(key => localStorage.removeItem(key));
-    } else {
+    if (this.adapter === this.memoryStorage) {
       this.memoryStorage.clear();
+    } else {
+      // Only clear our keys to avoid affecting other applications
+      TRACKING_KEYS.forEach(key => this.adapter.removeItem(this.resolveKey(key)));
     }
   }
 
-  updateStorageType(storageType: 'localStorage' | 'memory'): void {
+  // Seed tracking data persisted in cookies (e.g. from an incoming SSR request)
+  restoreFromCookies(cookies: Record<string, string | undefined>): void {
+    TRACKING_KEYS.forEach(key => {
+      const value = cookies[this.resolveKey(key)] ?? (this.hasLegacyKeys ? cookies[key] : undefined);
+      if (value) {
+        this.setItem(key, value);
+      }
+    });
+  }
+
+  updateStorageType(storageType: StorageType): void {
     this.storageType = storageType;
+    this.adapter = this.createAdapter(storageType);
   }
 
   // Hydration-specific method: upgrade storage when browser APIs become available
   hydrateStorage(): boolean {
-    // Only upgrade if we're currently using memory and localStorage is now available
-    if (this.storageType === 'memory' && this.canUseLocalStorage()) {
-      this.migrateToStorage('localStorage');
-      return true;
+    // Only upgrade if we're currently using memory and the browser storage is now available
+    if (this.isHydrationCapable()) {
+      this.migrateToStorage(this.hydrationTarget);
+      return this.storageType === this.hydrationTarget;
     }
     return false;
   }
 
-  migrateToStorage(newStorageType: 'localStorage' | 'memory'): void {
+  migrateToStorage(newStorageType: StorageType): void {
     if (this.storageType === newStorageType) return;
 
-    // If migrating from memory to localStorage, transfer data
-    if (this.storageType === 'memory' && newStorageType === 'localStorage' && typeof window !== 'undefined') {
+    const source = this.adapter;
+    const target = this.createAdapter(newStorageType);
+
+    // If migrating from memory, transfer everything written so far
+    if (source === this.memoryStorage) {
       try {
-        this.memoryStorage.forEach((value, key) => {
-          localStorage.setItem(key, value);
+        this.memoryStorage.keys().forEach(key => {
+          target.setItem(key, this.memoryStorage.getItem(key) as string);
         });
         this.memoryStorage.clear();
       } catch (error) {
-        console.warn('[StorageManager] Failed to migrate to localStorage, staying with memory storage:', error);
+        console.warn(`[StorageManager] Failed to migrate to ${newStorageType}, staying with memory storage:`, error);
         return;
       }
-    }
-
-    // If migrating from localStorage to memory, transfer data
-    if (this.storageType === 'localStorage' && newStorageType === 'memory' && typeof window !== 'undefined') {
+    } else {
       try {
-        const keysToMigrate = ['cxp_utm_params', 'cxp_initial_referrer', 'cxp_customer_identifiers'];
-        keysToMigrate.forEach(key => {
-          const value = localStorage.getItem(key);
+        TRACKING_KEYS.forEach(key => {
+          const resolvedKey = this.resolveKey(key);
+          const value = source.getItem(resolvedKey);
           if (value) {
-            this.memoryStorage.set(key, value);
+            target.setItem(resolvedKey, value);
           }
         });
       } catch (error) {
-        console.warn('[StorageManager] Failed to read from localStorage during migration:', error);
+        console.warn(`[StorageManager] Failed to read from ${this.storageType} during migration:`, error);
       }
     }
 
     this.storageType = newStorageType;
+    this.adapter = target;
+    this.moveLegacyKeys();
   }
 
-  getCurrentStorageType(): 'localStorage' | 'memory' {
+  getCurrentStorageType(): StorageType | 'custom' {
     return this.storageType;
   }
 
   isHydrationCapable(): boolean {
-    return this.storageType === 'memory' && this.canUseLocalStorage();
+    return this.storageType === 'memory' && this.hydrationTarget !== 'memory' && this.canUseStorage(this.hydrationTarget);
   }
-} 
\ No newline at end of file
+}
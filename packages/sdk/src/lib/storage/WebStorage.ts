@@ -0,0 +1,41 @@
+import type { IStorageAdapter } from '../core/types.js';
+
+export type WebStorageType = 'localStorage' | 'sessionStorage';
+
+/**
+ * Storage adapter backed by localStorage or sessionStorage. sessionStorage keeps
+ * tracking data only until the browser tab is closed.
+ */
+export class WebStorage implements IStorageAdapter {
+  constructor(private readonly type: WebStorageType = 'localStorage') {}
+
+  // Web Storage can be disabled (e.g. by privacy settings), so probe it with a write
+  static isAvailable(type: WebStorageType): boolean {
+    if (typeof window === 'undefined') return false;
+
+    try {
+      const storage = globalThis[type];
+      storage.setItem('growcado_test', 'test');
+      storage.removeItem('growcado_test');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private get storage(): Storage | null {
+    return typeof window === 'undefined' ? null : globalThis[this.type];
+  }
+
+  getItem(key: string): string | null {
+    return this.storage?.getItem(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage?.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage?.removeItem(key);
+  }
+}
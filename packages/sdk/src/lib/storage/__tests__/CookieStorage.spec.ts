@@ -0,0 +1,91 @@
+import { CookieStorage } from '../CookieStorage';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+describe('CookieStorage', () => {
+  let written: string[];
+  let jar: Record<string, string>;
+
+  beforeEach(() => {
+    written = [];
+    jar = {};
+
+    // Minimal cookie jar: remembers name=value and honours Max-Age=0
+    const documentMock = {};
+    Object.defineProperty(documentMock, 'cookie', {
+      get: () => Object.entries(jar).map(([name, value]) => `${name}=${value}`).join('; '),
+      set: (cookie: string) => {
+        written.push(cookie);
+        const [pair, ...attributes] = cookie.split('; ');
+        const [name, value] = pair.split('=');
+        if (attributes.includes('Max-Age=0')) {
+          delete jar[name];
+        } else {
+          jar[name] = value;
+        }
+      }
+    });
+    Object.defineProperty(global, 'document', {
+      value: documentMock,
+      writable: true
+    });
+  });
+
+  afterEach(() => {
+    // @ts-expect-error - Removing the document mock again
+    global.document = undefined;
+  });
+
+  it('should store and read encoded values', () => {
+    const storage = new CookieStorage();
+
+    storage.setItem('cxp_utm_params', '{"source":"google; ads"}');
+
+    expect(storage.getItem('cxp_utm_params')).toBe('{"source":"google; ads"}');
+    expect(written[0]).toBe('cxp_utm_params=%7B%22source%22%3A%22google%3B%20ads%22%7D; Path=/; Max-Age=31536000; SameSite=Lax');
+  });
+
+  it('should return null for missing cookies', () => {
+    expect(new CookieStorage().getItem('cxp_utm_params')).toBeNull();
+  });
+
+  it('should apply the domain, path, SameSite, Secure and expiry options', () => {
+    const storage = new CookieStorage({ domain: '.example.com', path: '/shop', sameSite: 'Strict', secure: true, maxAge: 3600 });
+
+    storage.setItem('key', 'value');
+
+    expect(written[0]).toBe('key=value; Path=/shop; Max-Age=3600; Domain=.example.com; SameSite=Strict; Secure');
+  });
+
+  it('should always mark SameSite=None cookies as Secure', () => {
+    new CookieStorage({ sameSite: 'None' }).setItem('key', 'value');
+
+    expect(written[0]).toBe('key=value; Path=/; Max-Age=31536000; SameSite=None; Secure');
+  });
+
+  it('should write session cookies when maxAge is 0', () => {
+    new CookieStorage({ maxAge: 0 }).setItem('key', 'value');
+
+    expect(written[0]).toBe('key=value; Path=/; SameSite=Lax');
+  });
+
+  it('should expire cookies on remove with the same domain and path', () => {
+    const storage = new CookieStorage({ domain: '.example.com' });
+    storage.setItem('key', 'value');
+
+    storage.removeItem('key');
+
+    expect(storage.getItem('key')).toBeNull();
+    expect(written[1]).toBe('key=; Path=/; Max-Age=0; Domain=.example.com; SameSite=Lax');
+  });
+
+  it('should do nothing without a document', () => {
+    // @ts-expect-error - Simulating a server environment
+    global.document = undefined;
+    const storage = new CookieStorage();
+
+    storage.setItem('key', 'value');
+
+    expect(CookieStorage.isAvailable()).toBe(false);
+    expect(storage.getItem('key')).toBeNull();
+  });
+});
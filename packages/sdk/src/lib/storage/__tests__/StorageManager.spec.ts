@@ -55,14 +55,14 @@ describe('StorageManager', () => {
       
       const result = storageManager.getItem('test-key');
       
-      expect(localStorageMock.getItem).toHaveBeenCalledWith('test-key');
+      expect(localStorageMock.getItem).toHaveBeenCalledWith('test-tenant.test-key');
       expect(result).toBe('stored-value');
     });
 
     it('should store items in localStorage', () => {
       storageManager.setItem('test-key', 'test-value');
       
-      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-key', 'test-value');
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.test-key', 'test-value');
     });
 
     it('should clear specific keys from localStorage', () => {
@@ -70,10 +70,16 @@ describe('StorageManager', () => {
       
       storageManager.clear();
       
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith('cxp_utm_params');
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith('cxp_initial_referrer');
-      expect(localStorageMock.removeItem).toHaveBeenCalledWith('cxp_customer_identifiers');
-      expect(localStorageMock.removeItem).toHaveBeenCalledTimes(3);
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_utm_params');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_utm_touchpoints');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_initial_referrer');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_referrer_touchpoints');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_click_ids');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_landing_page');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_session_landing_page');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_session');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_customer_identifiers');
+      expect(localStorageMock.removeItem).toHaveBeenCalledTimes(9);
     });
 
     it('should return null when localStorage item does not exist', () => {
@@ -248,7 +254,7 @@ describe('StorageManager', () => {
       
       expect(upgraded).toBe(true);
       expect(memoryStorageManager.getCurrentStorageType()).toBe('localStorage');
-      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-key', 'test-value');
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.test-key', 'test-value');
     });
 
     it('should not upgrade when localStorage is not available', () => {
@@ -298,8 +304,8 @@ describe('StorageManager', () => {
       storageManager.migrateToStorage('localStorage');
       
       // Verify migration calls were made - order may vary due to Map.forEach
-      expect(localStorageMock.setItem).toHaveBeenCalledWith('cxp_utm_params', 'utm-data');
-      expect(localStorageMock.setItem).toHaveBeenCalledWith('cxp_customer_identifiers', 'customer-data');
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_utm_params', 'utm-data');
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_customer_identifiers', 'customer-data');
       expect(localStorageMock.setItem).toHaveBeenCalledTimes(2);
       expect(storageManager.getCurrentStorageType()).toBe('localStorage');
     });
@@ -313,8 +319,8 @@ describe('StorageManager', () => {
       // Mock existing localStorage data
       localStorageMock.getItem.mockImplementation((key) => {
         const data: Record<string, string> = {
-          'cxp_utm_params': 'utm-data',
-          'cxp_customer_identifiers': 'customer-data'
+          'test-tenant.cxp_utm_params': 'utm-data',
+          'test-tenant.cxp_customer_identifiers': 'customer-data'
         };
         return data[key] || null;
       });
@@ -389,7 +395,7 @@ describe('StorageManager', () => {
       storageManager.updateStorageType('localStorage');
       storageManager.setItem('new-key', 'new-value');
       
-      expect(localStorageMock.setItem).toHaveBeenCalledWith('new-key', 'new-value');
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('test-tenant.new-key', 'new-value');
     });
 
     it('should switch from localStorage to memory', () => {
@@ -493,4 +499,232 @@ describe('StorageManager', () => {
       expect(memoryManager.isHydrationCapable()).toBe(false);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('namespacing', () => {
+    it('should prefix localStorage keys with the namespace', () => {
+      const manager = new StorageManager({
+        tenantId: 'test-tenant',
+        storage: 'localStorage',
+        namespace: 'shop'
+      });
+
+      manager.setItem('cxp_utm_params', 'source=google');
+      manager.getItem('cxp_utm_params');
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('shop.cxp_utm_params', 'source=google');
+      expect(localStorageMock.getItem).toHaveBeenCalledWith('shop.cxp_utm_params');
+    });
+
+    it('should only clear keys in its own namespace', () => {
+      const manager = new StorageManager({
+        tenantId: 'test-tenant',
+        storage: 'localStorage',
+        namespace: 'shop'
+      });
+      vi.clearAllMocks();
+
+      manager.clear();
+
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('shop.cxp_utm_params');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('shop.cxp_initial_referrer');
+      expect(localStorageMock.removeItem).toHaveBeenCalledWith('shop.cxp_customer_identifiers');
+      expect(localStorageMock.removeItem).not.toHaveBeenCalledWith('cxp_utm_params');
+    });
+
+    it('should default the namespace to the tenant ID', () => {
+      const manager = new StorageManager({ tenantId: 'shop-tenant', storage: 'localStorage' });
+
+      manager.setItem('cxp_utm_params', 'source=google');
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('shop-tenant.cxp_utm_params', 'source=google');
+    });
+
+    it('should store unprefixed keys with an empty namespace', () => {
+      const manager = new StorageManager({ tenantId: 'shop-tenant', storage: 'localStorage', namespace: '' });
+
+      manager.setItem('cxp_utm_params', 'source=google');
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith('cxp_utm_params', 'source=google');
+    });
+
+    it('should move legacy unprefixed keys into the tenant namespace once', () => {
+      const store: Record<string, string> = { cxp_utm_params: 'source=google', cxp_customer_identifiers: '{"userId":"1"}' };
+      localStorageMock.getItem.mockImplementation((key: string) => store[key] ?? null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => { store[key] = value; });
+      localStorageMock.removeItem.mockImplementation((key: string) => { delete store[key]; });
+
+      const manager = new StorageManager({ tenantId: 'shop-tenant', storage: 'localStorage' });
+
+      expect(store).toEqual({
+        'shop-tenant.cxp_utm_params': 'source=google',
+        'shop-tenant.cxp_customer_identifiers': '{"userId":"1"}'
+      });
+      expect(manager.getItem('cxp_utm_params')).toBe('source=google');
+
+      // Another tenant on the same origin finds nothing left to migrate
+      new StorageManager({ tenantId: 'other-tenant', storage: 'localStorage' });
+      expect(Object.keys(store)).toHaveLength(2);
+    });
+
+    it('should not overwrite namespaced data with legacy data', () => {
+      const store: Record<string, string> = { cxp_utm_params: 'source=old', 'shop-tenant.cxp_utm_params': 'source=new' };
+      localStorageMock.getItem.mockImplementation((key: string) => store[key] ?? null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => { store[key] = value; });
+      localStorageMock.removeItem.mockImplementation((key: string) => { delete store[key]; });
+
+      new StorageManager({ tenantId: 'shop-tenant', storage: 'localStorage' });
+
+      expect(store).toEqual({ 'shop-tenant.cxp_utm_params': 'source=new' });
+    });
+
+    it('should not migrate legacy keys into an explicit namespace', () => {
+      localStorageMock.getItem.mockReturnValue('source=google');
+
+      new StorageManager({ tenantId: 'shop-tenant', storage: 'localStorage', namespace: 'shop' });
+
+      expect(localStorageMock.setItem).not.toHaveBeenCalledWith('shop.cxp_utm_params', 'source=google');
+      expect(localStorageMock.removeItem).not.toHaveBeenCalledWith('cxp_utm_params');
+    });
+
+    it('should move legacy keys when hydrating to localStorage', () => {
+      const store: Record<string, string> = { cxp_initial_referrer: 'https://google.com' };
+      localStorageMock.getItem.mockImplementation((key: string) => store[key] ?? null);
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => { store[key] = value; });
+      localStorageMock.removeItem.mockImplementation((key: string) => { delete store[key]; });
+      const manager = new StorageManager({ tenantId: 'shop-tenant', storage: 'localStorage', ssrMode: true });
+
+      manager.hydrateStorage();
+
+      expect(store).toEqual({ 'shop-tenant.cxp_initial_referrer': 'https://google.com' });
+    });
+
+    it('should restore legacy cookies into the tenant namespace', () => {
+      const manager = new StorageManager({ tenantId: 'shop-tenant', storage: 'memory' });
+
+      manager.restoreFromCookies({ cxp_utm_params: 'source=legacy', 'shop-tenant.cxp_customer_identifiers': '{"userId":"1"}' });
+
+      expect(manager.getItem('cxp_utm_params')).toBe('source=legacy');
+      expect(manager.getItem('cxp_customer_identifiers')).toBe('{"userId":"1"}');
+    });
+
+    it('should keep memory storage separate between namespaces', () => {
+      const first = new StorageManager({ tenantId: 'test-tenant', storage: 'memory', namespace: 'a' });
+      const second = new StorageManager({ tenantId: 'test-tenant', storage: 'memory', namespace: 'b' });
+
+      first.setItem('cxp_utm_params', 'source=google');
+
+      expect(first.getItem('cxp_utm_params')).toBe('source=google');
+      expect(second.getItem('cxp_utm_params')).toBeNull();
+    });
+  });
+
+  describe('storage adapters', () => {
+    const sessionStorageMock = {
+      getItem: vi.fn(),
+      setItem: vi.fn(),
+      removeItem: vi.fn()
+    };
+
+    beforeEach(() => {
+      sessionStorageMock.getItem.mockReset().mockReturnValue(null);
+      sessionStorageMock.setItem.mockReset();
+      sessionStorageMock.removeItem.mockReset();
+      Object.defineProperty(global, 'sessionStorage', {
+        value: sessionStorageMock,
+        writable: true
+      });
+    });
+
+    it('should use sessionStorage when requested', () => {
+      const manager = new StorageManager({ tenantId: 'test-tenant', storage: 'sessionStorage' });
+
+      manager.setItem('cxp_utm_params', 'source=google');
+      manager.clear();
+
+      expect(manager.getCurrentStorageType()).toBe('sessionStorage');
+      expect(sessionStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_utm_params', 'source=google');
+      expect(sessionStorageMock.removeItem).toHaveBeenCalledWith('test-tenant.cxp_customer_identifiers');
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to memory and hydrate to sessionStorage', () => {
+      const manager = new StorageManager({ tenantId: 'test-tenant', storage: 'sessionStorage', ssrMode: true });
+      manager.setItem('cxp_utm_params', 'source=google');
+
+      const upgraded = manager.hydrateStorage();
+
+      expect(upgraded).toBe(true);
+      expect(manager.getCurrentStorageType()).toBe('sessionStorage');
+      expect(sessionStorageMock.setItem).toHaveBeenCalledWith('test-tenant.cxp_utm_params', 'source=google');
+      expect(localStorageMock.setItem).not.toHaveBeenCalledWith('test-tenant.cxp_utm_params', 'source=google');
+    });
+
+    it('should use cookies when a document is available', () => {
+      Object.defineProperty(global, 'document', {
+        value: { cookie: '' },
+        writable: true
+      });
+
+      const manager = new StorageManager({ tenantId: 'test-tenant', storage: 'cookie' });
+      manager.setItem('cxp_utm_params', 'source=google');
+
+      expect(manager.getCurrentStorageType()).toBe('cookie');
+      expect(document.cookie).toBe('test-tenant.cxp_utm_params=source%3Dgoogle; Path=/; Max-Age=31536000; SameSite=Lax');
+
+      // @ts-expect-error - Removing the document mock again
+      global.document = undefined;
+    });
+
+    it('should fall back to memory and hydrate to cookies with the configured options', () => {
+      const manager = new StorageManager({
+        tenantId: 'test-tenant',
+        storage: { type: 'cookie', domain: '.example.com', maxAge: 3600 },
+        ssrMode: true
+      });
+      manager.setItem('cxp_utm_params', 'source=google');
+
+      expect(manager.getCurrentStorageType()).toBe('memory');
+
+      Object.defineProperty(global, 'document', {
+        value: { cookie: '' },
+        writable: true
+      });
+      const upgraded = manager.hydrateStorage();
+
+      expect(upgraded).toBe(true);
+      expect(manager.getCurrentStorageType()).toBe('cookie');
+      expect(document.cookie).toBe('test-tenant.cxp_utm_params=source%3Dgoogle; Path=/; Max-Age=3600; Domain=.example.com; SameSite=Lax');
+
+      // @ts-expect-error - Removing the document mock again
+      global.document = undefined;
+    });
+
+    it('should fall back to memory for cookies without a document', () => {
+      const manager = new StorageManager({ tenantId: 'test-tenant', storage: 'cookie' });
+
+      expect(manager.getCurrentStorageType()).toBe('memory');
+    });
+
+    it('should use a custom adapter with namespaced keys, also in SSR mode', () => {
+      const values = new Map<string, string>();
+      const adapter = {
+        getItem: vi.fn((key: string) => values.get(key) ?? null),
+        setItem: vi.fn((key: string, value: string) => { values.set(key, value); }),
+        removeItem: vi.fn((key: string) => { values.delete(key); })
+      };
+      const manager = new StorageManager({ tenantId: 'test-tenant', storage: adapter, namespace: 'shop', ssrMode: true });
+
+      manager.setItem('cxp_utm_params', 'source=google');
+
+      expect(manager.getCurrentStorageType()).toBe('custom');
+      expect(manager.getItem('cxp_utm_params')).toBe('source=google');
+      expect(adapter.setItem).toHaveBeenCalledWith('shop.cxp_utm_params', 'source=google');
+      expect(manager.isHydrationCapable()).toBe(false);
+
+      manager.clear();
+
+      expect(adapter.removeItem).toHaveBeenCalledWith('shop.cxp_utm_params');
+      expect(manager.getItem('cxp_utm_params')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import type { AttributionModel, AttributionRecord, IStorageManager, SDKConfig } from '../core/types.js';
+import { isExpired, readAttribution, writeAttribution } from './attribution.js';
+
+export const DEFAULT_MAX_TOUCHPOINTS = 10;
+
+/**
+ * Stores the attributed touch of one tracker (UTM parameters or referrers) according to the
+ * configured attribution model. With 'multi-touch' it also keeps a bounded history in which
+ * the first touch is always retained and the oldest later touches are dropped.
+ */
+export class AttributionStore {
+  readonly model: AttributionModel | undefined;
+  private readonly attributionWindow: number | undefined;
+  private readonly maxTouchpoints: number;
+
+  constructor(
+    private readonly storage: IStorageManager,
+    private readonly key: string,
+    private readonly touchpointsKey: string,
+    config: SDKConfig,
+    // Behaviour when no attribution model is configured
+    private readonly defaultModel: 'first-touch' | 'last-touch'
+  ) {
+    this.model = config.attributionModel;
+    this.attributionWindow = config.attributionWindow;
+    this.maxTouchpoints = Math.max(config.maxTouchpoints ?? DEFAULT_MAX_TOUCHPOINTS, 2);
+  }
+
+  // Records an automatically captured touch; first-touch keeps an existing value
+  capture(value: string): void {
+    if ((this.model ?? this.defaultModel) === 'first-touch' && this.get()) return;
+    this.set(value);
+  }
+
+  // Records a touch regardless of the model, e.g. when set manually
+  set(value: string): void {
+    const record = writeAttribution(this.storage, this.key, value, this.attributionWindow);
+    if (this.model === 'multi-touch') {
+      this.addTouchpoint(record);
+    }
+  }
+
+  clear(): void {
+    this.storage.setItem(this.key, '');
+    if (this.model === 'multi-touch') {
+      this.storage.setItem(this.touchpointsKey, '');
+    }
+  }
+
+  get(): AttributionRecord | null {
+    return readAttribution(this.storage, this.key, this.attributionWindow);
+  }
+
+  // Touches from first to last; without a multi-touch history this is the attributed touch
+  getTouchpoints(): AttributionRecord[] {
+    const current = this.get();
+    if (this.model !== 'multi-touch') {
+      return current ? [current] : [];
+    }
+
+    const touchpoints = this.readTouchpoints();
+    // Values captured before multi-touch was enabled have no history yet
+    return touchpoints.length === 0 && current ? [current] : touchpoints;
+  }
+
+  // X-<prefix>-FIRST / -LAST headers for the configured model, plus -TOUCHPOINTS for multi-touch
+  getHeaders(prefix: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const touchpoints = this.getTouchpoints();
+    if (!this.model || touchpoints.length === 0) return headers;
+
+    if (this.model !== 'last-touch') {
+      headers[`X-${prefix}-FIRST`] = touchpoints[0].value;
+    }
+    if (this.model !== 'first-touch') {
+      headers[`X-${prefix}-LAST`] = touchpoints[touchpoints.length - 1].value;
+    }
+    if (this.model === 'multi-touch') {
+      headers[`X-${prefix}-TOUCHPOINTS`] = JSON.stringify(touchpoints.map(touchpoint => touchpoint.value));
+    }
+
+    return headers;
+  }
+
+  private addTouchpoint(record: AttributionRecord): void {
+    const touchpoints = this.readTouchpoints();
+
+    // Reloading a page with the same campaign or referrer is not a new touch
+    const last = touchpoints[touchpoints.length - 1];
+    if (last && last.value === record.value) {
+      touchpoints[touchpoints.length - 1] = record;
+    } else {
+      touchpoints.push(record);
+    }
+
+    if (touchpoints.length > this.maxTouchpoints) {
+      touchpoints.splice(1, touchpoints.length - this.maxTouchpoints);
+    }
+
+    this.storage.setItem(this.touchpointsKey, JSON.stringify(touchpoints));
+  }
+
+  // Drops expired touches from the stored history
+  private readTouchpoints(): AttributionRecord[] {
+    const stored = this.storage.getItem(this.touchpointsKey);
+    if (!stored) return [];
+
+    let touchpoints: AttributionRecord[];
+    try {
+      touchpoints = JSON.parse(stored);
+    } catch {
+      console.warn('[GrowcadoSDK] Failed to parse stored touchpoints');
+      return [];
+    }
+    if (!Array.isArray(touchpoints)) return [];
+
+    const active = touchpoints.filter(touchpoint => !isExpired(touchpoint));
+    if (active.length !== touchpoints.length) {
+      this.storage.setItem(this.touchpointsKey, active.length > 0 ? JSON.stringify(active) : '');
+    }
+
+    return active;
+  }
+}
@@ -0,0 +1,109 @@
+import type { ITracker, IStorageManager, SDKConfig, ClickIds } from '../core/types.js';
+import { isExpired } from './attribution.js';
+
+export const DEFAULT_CLICK_ID_PARAMS = ['gclid', 'fbclid', 'msclkid', 'ttclid', 'li_fat_id'];
+
+export class ClickIdTracker implements ITracker {
+  private storage: IStorageManager | null = null;
+  private enabled = false;
+  private params: string[] = DEFAULT_CLICK_ID_PARAMS;
+  private attributionWindow?: number;
+
+  initialize(config: SDKConfig, storage: IStorageManager): void {
+    this.initializeSSR(config, storage);
+
+    // Only run in browser environment
+    if (this.enabled && typeof window !== 'undefined') {
+      this.captureFromQuery(window.location.search);
+    }
+  }
+
+  initializeSSR(config: SDKConfig, storage: IStorageManager): void {
+    this.storage = storage;
+    this.enabled = config.enableClickIdTracking ?? false;
+    this.params = config.clickIdParams ?? DEFAULT_CLICK_ID_PARAMS;
+    this.attributionWindow = config.attributionWindow;
+  }
+
+  getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    const clickIds = this.getClickIds();
+    if (clickIds) {
+      headers['X-CLICK-IDS'] = Object.entries(clickIds)
+        .map(([param, clickId]) => `${encodeURIComponent(param)}=${encodeURIComponent(clickId.value)}`)
+        .join('&');
+    }
+
+    return headers;
+  }
+
+  reset(): void {
+    this.storage = null;
+    this.enabled = false;
+    this.params = DEFAULT_CLICK_ID_PARAMS;
+    this.attributionWindow = undefined;
+  }
+
+  // Capture click IDs from an explicit URL (e.g. an incoming SSR request)
+  captureFromURL(url: string): void {
+    if (!this.enabled) return;
+
+    const queryIndex = url.indexOf('?');
+    if (queryIndex === -1) return;
+
+    this.captureFromQuery(url.substring(queryIndex).split('#')[0]);
+  }
+
+  private captureFromQuery(search: string): void {
+    if (!this.storage) return;
+
+    const queryParams = new URLSearchParams(search);
+    const capturedAt = Date.now();
+    const captured: ClickIds = {};
+
+    this.params.forEach(param => {
+      const value = queryParams.get(param);
+      if (value) {
+        captured[param] = this.attributionWindow === undefined
+          ? { value, capturedAt }
+          : { value, capturedAt, expiresAt: capturedAt + this.attributionWindow };
+      }
+    });
+
+    // A new click replaces the stored ID of the same ad platform and keeps the others
+    if (Object.keys(captured).length > 0) {
+      this.storage.setItem('cxp_click_ids', JSON.stringify({ ...this.getClickIds(), ...captured }));
+    }
+  }
+
+  // Returns the stored click IDs and removes expired ones
+  getClickIds(): ClickIds | null {
+    if (!this.storage) {
+      return null;
+    }
+
+    const stored = this.storage.getItem('cxp_click_ids');
+    if (!stored) {
+      return null;
+    }
+
+    let clickIds: ClickIds;
+    try {
+      clickIds = JSON.parse(stored);
+    } catch {
+      console.warn('[GrowcadoSDK] Failed to parse stored click IDs');
+      return null;
+    }
+    if (!clickIds || typeof clickIds !== 'object') {
+      return null;
+    }
+
+    const active = Object.entries(clickIds).filter(([, clickId]) => !isExpired(clickId));
+    if (active.length !== Object.keys(clickIds).length) {
+      this.storage.setItem('cxp_click_ids', active.length > 0 ? JSON.stringify(Object.fromEntries(active)) : '');
+    }
+
+    return active.length > 0 ? Object.fromEntries(active) : null;
+  }
+}
@@ -0,0 +1,140 @@
+import type { ITracker, IStorageManager, SDKConfig, LandingPage } from '../core/types.js';
+import type { SessionManager } from './SessionManager.js';
+
+export const DEFAULT_LANDING_PAGE_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+interface SessionLandingPage extends LandingPage {
+  sessionId: string;
+}
+
+export class LandingPageTracker implements ITracker {
+  private storage: IStorageManager | null = null;
+  private enabled = false;
+  private allowedParams: string[] = DEFAULT_LANDING_PAGE_PARAMS;
+
+  // Session landing pages belong to the session manager's current session
+  constructor(private readonly sessionManager: SessionManager) {}
+
+  initialize(config: SDKConfig, storage: IStorageManager): void {
+    this.initializeSSR(config, storage);
+
+    // Only run in browser environment
+    if (this.enabled && typeof window !== 'undefined') {
+      this.capture(window.location.href);
+    }
+  }
+
+  initializeSSR(config: SDKConfig, storage: IStorageManager): void {
+    this.storage = storage;
+    this.enabled = config.enableLandingPageTracking ?? false;
+    this.allowedParams = config.landingPageParams ?? DEFAULT_LANDING_PAGE_PARAMS;
+  }
+
+  getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    const landingPage = this.getLandingPage();
+    if (landingPage) {
+      headers['X-LANDING-PAGE'] = landingPage.url;
+    }
+
+    const sessionLandingPage = this.getSessionLandingPage();
+    if (sessionLandingPage) {
+      headers['X-SESSION-LANDING-PAGE'] = sessionLandingPage.url;
+    }
+
+    return headers;
+  }
+
+  reset(): void {
+    this.storage = null;
+    this.enabled = false;
+    this.allowedParams = DEFAULT_LANDING_PAGE_PARAMS;
+  }
+
+  // Record a page view from an explicit URL (e.g. an incoming SSR request)
+  captureFromURL(url: string): void {
+    if (!this.enabled) return;
+
+    this.capture(url);
+  }
+
+  // The first page view ever and the first of each session become landing pages
+  private capture(url: string): void {
+    if (!this.storage) return;
+
+    const landingPage = this.toLandingPage(url);
+    if (!landingPage) return;
+
+    if (!this.getLandingPage()) {
+      this.storage.setItem('cxp_landing_page', JSON.stringify(landingPage));
+    }
+
+    const session = this.sessionManager.getSession();
+    if (session && !this.getSessionLandingPage()) {
+      const stored: SessionLandingPage = { ...landingPage, sessionId: session.id };
+      this.storage.setItem('cxp_session_landing_page', JSON.stringify(stored));
+    }
+  }
+
+  getLandingPage(): LandingPage | null {
+    return this.read<LandingPage>('cxp_landing_page');
+  }
+
+  // Returns null once the session it was recorded in has ended
+  getSessionLandingPage(): LandingPage | null {
+    const stored = this.read<SessionLandingPage>('cxp_session_landing_page');
+    if (!stored || stored.sessionId !== this.sessionManager.getSession()?.id) {
+      return null;
+    }
+
+    return { url: stored.url, path: stored.path, capturedAt: stored.capturedAt };
+  }
+
+  private read<T extends LandingPage>(key: string): T | null {
+    if (!this.storage) return null;
+
+    const stored = this.storage.getItem(key);
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      console.warn('[GrowcadoSDK] Failed to parse stored landing page');
+      return null;
+    }
+  }
+
+  // Removes query parameters outside the allowlist, as they may contain personal data, and the fragment
+  private toLandingPage(url: string): LandingPage | null {
+    let parsed: URL;
+    let isAbsolute = true;
+    try {
+      parsed = new URL(url);
+    } catch {
+      // Server requests may only carry the path
+      try {
+        parsed = new URL(url, 'http://localhost');
+        isAbsolute = false;
+      } catch {
+        return null;
+      }
+    }
+
+    const allowed = new URLSearchParams();
+    parsed.searchParams.forEach((value, key) => {
+      if (this.allowedParams.includes(key)) {
+        allowed.append(key, value);
+      }
+    });
+
+    const query = allowed.toString();
+    const path = parsed.pathname + (query ? `?${query}` : '');
+
+    return {
+      url: isAbsolute ? parsed.origin + path : path,
+      path: parsed.pathname,
+      capturedAt: Date.now()
+    };
+  }
+}
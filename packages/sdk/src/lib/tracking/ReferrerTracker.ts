@@ -1,12 +1,22 @@
 import type { ITracker, IStorageManager, SDKConfig, ReferrerData } from '../core/types.js';
+import { AttributionStore } from './AttributionStore.js';
+import { classifyReferrer, serializeClassification, DEFAULT_REFERRER_RULES, type ReferrerClassificationOptions } from './referrerClassification.js';
 
 export class ReferrerTracker implements ITracker {
-  private storage: IStorageManager | null = null;
+  private attribution: AttributionStore | null = null;
   private enabled = false;
+  private classificationEnabled = false;
+  private classification: ReferrerClassificationOptions = { rules: DEFAULT_REFERRER_RULES, internalDomains: [] };
 
   initialize(config: SDKConfig, storage: IStorageManager): void {
-    this.storage = storage;
+    // Without an attribution model, the first referrer is kept
+    this.attribution = new AttributionStore(storage, 'cxp_initial_referrer', 'cxp_referrer_touchpoints', config, 'first-touch');
     this.enabled = config.enableReferrerTracking ?? true;
+    this.classificationEnabled = config.enableReferrerClassification ?? false;
+    this.classification = {
+      rules: [...(config.referrerRules ?? []), ...DEFAULT_REFERRER_RULES],
+      internalDomains: config.internalDomains ?? []
+    };
 
     if (this.enabled) {
       this.initializeReferrerTracking();
@@ -14,8 +24,13 @@ export class ReferrerTracker implements ITracker {
   }
 
   initializeSSR(config: SDKConfig, storage: IStorageManager): void {
-    this.storage = storage;
+    this.attribution = new AttributionStore(storage, 'cxp_initial_referrer', 'cxp_referrer_touchpoints', config, 'first-touch');
     this.enabled = config.enableReferrerTracking ?? true;
+    this.classificationEnabled = config.enableReferrerClassification ?? false;
+    this.classification = {
+      rules: [...(config.referrerRules ?? []), ...DEFAULT_REFERRER_RULES],
+      internalDomains: config.internalDomains ?? []
+    };
     
     // Skip referrer tracking initialization in SSR mode - no document/window available
     // Referrer will be processed during hydration
@@ -24,37 +39,65 @@ export class ReferrerTracker implements ITracker {
   getHeaders(): Record<string, string> {
     const headers: Record<string, string> = {};
 
-    if (this.storage) {
-      const storedReferrer = this.storage.getItem('cxp_initial_referrer');
+    if (this.attribution) {
+      const storedReferrer = this.attribution.get();
       if (storedReferrer) {
-        headers['X-ENTRY-SOURCE-INITIAL-REFERRAL'] = storedReferrer;
+        headers['X-ENTRY-SOURCE-INITIAL-REFERRAL'] = storedReferrer.value;
       }
+      Object.assign(headers, this.attribution.getHeaders('REFERRER'));
+    }
+
+    if (this.classificationEnabled) {
+      const referrerData = this.getReferrerData();
+      headers['X-REFERRER-CLASSIFICATION'] = referrerData?.channel
+        ? serializeClassification(referrerData.channel, referrerData)
+        : serializeClassification('direct');
     }
 
     return headers;
   }
 
   reset(): void {
-    this.storage = null;
+    this.attribution = null;
     this.enabled = false;
+    this.classificationEnabled = false;
+    this.classification = { rules: DEFAULT_REFERRER_RULES, internalDomains: [] };
   }
 
   private initializeReferrerTracking(): void {
     // Only run in browser environment
-    if (typeof window === 'undefined' || typeof document === 'undefined' || !this.storage) return;
-    
-    const initialReferrer = document.referrer && document.referrer !== window.location.href ? document.referrer : null;
+    if (typeof window === 'undefined' || typeof document === 'undefined' || !this.attribution) return;
     
-    // Only update storage if we found a new referrer in the document
-    // This preserves manually set referrer during hydration
-    if (initialReferrer && !this.storage.getItem('cxp_initial_referrer')) {
-      this.storage.setItem('cxp_initial_referrer', initialReferrer);
-    }
+    this.captureReferrer(document.referrer, window.location.href);
+  }
+
+  // Capture a referrer from an explicit source (e.g. the Referer header of an SSR request)
+  captureFromRequest(referrer: string | undefined, currentUrl?: string): void {
+    if (!this.enabled || !this.attribution) return;
+
+    this.captureReferrer(referrer, currentUrl);
+  }
+
+  private captureReferrer(referrer: string | undefined, currentUrl?: string): void {
+    if (!this.attribution) return;
+
+    const initialReferrer = referrer && referrer !== currentUrl ? referrer : null;
+    if (!initialReferrer) return;
+
+    // Our own domains are never referrals
+    if (classifyReferrer(initialReferrer, this.classification).channel === 'internal') return;
+
+    // With an attribution model every page view may be a touch, so navigation within the site is not one
+    if (this.attribution.model && isSameHost(initialReferrer, currentUrl)) return;
+
+    // The default first-touch model only stores a referrer when none is stored yet
+    // This preserves manually set referrer during hydration, until its attribution window ends
+    this.attribution.capture(initialReferrer);
   }
 
   // Manual referrer management
   setReferrer(referrer: string | ReferrerData): void {
-    if (!this.storage) {
+    if (!this.attribution) {
       console.warn('[ReferrerTracker] Storage not available. Cannot set referrer.');
       return;
     }
@@ -68,25 +111,41 @@ export class ReferrerTracker implements ITracker {
     }
 
     if (referrerUrl && referrerUrl.trim() !== '') {
-      this.storage.setItem('cxp_initial_referrer', referrerUrl.trim());
+      this.attribution.set(referrerUrl.trim());
     } else {
       // If no valid referrer, clear existing referrer data
-      this.storage.setItem('cxp_initial_referrer', '');
+      this.attribution.clear();
     }
   }
 
   clearReferrer(): void {
-    if (this.storage) {
-      this.storage.setItem('cxp_initial_referrer', '');
+    if (this.attribution) {
+      this.attribution.clear();
     }
   }
 
   getReferrer(): string | null {
-    if (!this.storage) {
+    if (!this.attribution) {
       return null;
     }
 
-    const storedReferrer = this.storage.getItem('cxp_initial_referrer');
-    return storedReferrer && storedReferrer.trim() !== '' ? storedReferrer : null;
+    const storedReferrer = this.attribution.get();
+    return storedReferrer && storedReferrer.value.trim() !== '' ? storedReferrer.value : null;
+  }
+
+  // Classifies the stored referrer with the configured rules
+  getReferrerData(): ReferrerData | null {
+    const referrer = this.getReferrer();
+    return referrer ? classifyReferrer(referrer, this.classification) : null;
+  }
+}
+
+function isSameHost(referrer: string, currentUrl: string | undefined): boolean {
+  if (!currentUrl) return false;
+
+  try {
+    return new URL(referrer).host === new URL(currentUrl).host;
+  } catch {
+    return false;
   }
-} 
\ No newline at end of file
+}
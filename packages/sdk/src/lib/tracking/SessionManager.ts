@@ -0,0 +1,120 @@
+import type { ITracker, IStorageManager, SDKConfig, SessionData } from '../core/types.js';
+
+export const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+
+export class SessionManager implements ITracker {
+  private storage: IStorageManager | null = null;
+  // Sessions are also tracked for session landing pages, but X-SESSION is only sent when enabled
+  private enabled = false;
+  private sendsHeader = false;
+  private sessionTimeout = DEFAULT_SESSION_TIMEOUT;
+  // hydrate() initializes again on the same page load, which must not count as another page view
+  private pageViewTracked = false;
+  // Only browsers start sessions; on the server they are continued from the request cookies
+  private startsSessions = false;
+
+  initialize(config: SDKConfig, storage: IStorageManager): void {
+    this.initializeSSR(config, storage);
+    this.startsSessions = true;
+
+    // Only run in browser environment
+    if (this.enabled && typeof window !== 'undefined' && !this.pageViewTracked) {
+      this.pageViewTracked = true;
+      this.trackPageView();
+    }
+  }
+
+  initializeSSR(config: SDKConfig, storage: IStorageManager): void {
+    this.storage = storage;
+    this.sendsHeader = config.enableSessionTracking ?? false;
+    this.enabled = this.sendsHeader || (config.enableLandingPageTracking ?? false);
+    this.sessionTimeout = config.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT;
+    this.startsSessions = false;
+  }
+
+  getHeaders(): Record<string, string> {
+    const session = this.sendsHeader ? this.getSession() : null;
+    if (!session) return {};
+
+    return {
+      'X-SESSION': `id=${session.id}&started_at=${session.startedAt}&page_count=${session.pageCount}`
+    };
+  }
+
+  reset(): void {
+    this.storage = null;
+    this.enabled = false;
+    this.sendsHeader = false;
+    this.sessionTimeout = DEFAULT_SESSION_TIMEOUT;
+    this.pageViewTracked = false;
+    this.startsSessions = false;
+  }
+
+  // Counts a page view, e.g. a route change in a single-page app, starting a new session in the browser if needed.
+  // Returns true when a new session was started
+  trackPageView(): boolean {
+    return this.touch(true);
+  }
+
+  // Requests count as activity, so they keep the session alive or start a new one
+  recordActivity(): boolean {
+    return this.touch(false);
+  }
+
+  // Returns null when no session is stored or the stored one has expired
+  getSession(): SessionData | null {
+    const session = this.read();
+    if (!session || this.isExpired(session, Date.now())) {
+      return null;
+    }
+
+    return session;
+  }
+
+  private touch(isPageView: boolean): boolean {
+    if (!this.enabled || !this.storage) return false;
+
+    const current = this.getSession();
+    if (!current && !this.startsSessions) return false;
+
+    const now = Date.now();
+    const session = current ?? { id: generateSessionId(), startedAt: now, lastActivityAt: now, pageCount: 0 };
+    const updated: SessionData = {
+      ...session,
+      lastActivityAt: now,
+      pageCount: isPageView ? session.pageCount + 1 : session.pageCount
+    };
+
+    this.storage.setItem('cxp_session', JSON.stringify(updated));
+    return !current;
+  }
+
+  // Sessions end after the inactivity timeout and at midnight in the visitor's time zone
+  private isExpired(session: SessionData, now: number): boolean {
+    return now - session.lastActivityAt >= this.sessionTimeout
+      || new Date(session.lastActivityAt).toDateString() !== new Date(now).toDateString();
+  }
+
+  private read(): SessionData | null {
+    if (!this.storage) return null;
+
+    const stored = this.storage.getItem('cxp_session');
+    if (!stored) return null;
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      console.warn('[GrowcadoSDK] Failed to parse stored session');
+      return null;
+    }
+  }
+}
+
+function generateSessionId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  // randomUUID() is only available in secure contexts
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
@@ -1,11 +1,13 @@
 import type { ITracker, IStorageManager, SDKConfig, UTMParameters } from '../core/types.js';
+import { AttributionStore } from './AttributionStore.js';
 
 export class UTMTracker implements ITracker {
-  private storage: IStorageManager | null = null;
+  private attribution: AttributionStore | null = null;
   private enabled = false;
 
   initialize(config: SDKConfig, storage: IStorageManager): void {
-    this.storage = storage;
+    // Without an attribution model, new UTM parameters replace the stored ones
+    this.attribution = new AttributionStore(storage, 'cxp_utm_params', 'cxp_utm_touchpoints', config, 'last-touch');
     this.enabled = config.enableAutoUTM ?? true;
 
     if (this.enabled) {
@@ -14,7 +16,7 @@ export class UTMTracker implements ITracker {
   }
 
   initializeSSR(config: SDKConfig, storage: IStorageManager): void {
-    this.storage = storage;
+    this.attribution = new AttributionStore(storage, 'cxp_utm_params', 'cxp_utm_touchpoints', config, 'last-touch');
     this.enabled = config.enableAutoUTM ?? true;
     
     // Skip UTM tracking initialization in SSR mode - no browser APIs available
@@ -24,26 +26,43 @@ export class UTMTracker implements ITracker {
   getHeaders(): Record<string, string> {
     const headers: Record<string, string> = {};
 
-    if (this.storage) {
-      const storedUtmParams = this.storage.getItem('cxp_utm_params');
+    if (this.attribution) {
+      const storedUtmParams = this.attribution.get();
       if (storedUtmParams) {
-        headers['X-UTM'] = storedUtmParams;
+        headers['X-UTM'] = storedUtmParams.value;
       }
+      Object.assign(headers, this.attribution.getHeaders('UTM'));
     }
 
     return headers;
   }
 
   reset(): void {
-    this.storage = null;
+    this.attribution = null;
     this.enabled = false;
   }
 
   private initializeUTMTracking(): void {
     // Only run in browser environment
-    if (typeof window === 'undefined' || !this.storage) return;
+    if (typeof window === 'undefined' || !this.attribution) return;
     
-    const queryParams = new URLSearchParams(window.location.search);
+    this.captureFromQuery(window.location.search);
+  }
+
+  // Capture UTM parameters from an explicit URL (e.g. an incoming SSR request)
+  captureFromURL(url: string): void {
+    if (!this.enabled || !this.attribution) return;
+
+    const queryIndex = url.indexOf('?');
+    if (queryIndex === -1) return;
+
+    this.captureFromQuery(url.substring(queryIndex).split('#')[0]);
+  }
+
+  private captureFromQuery(search: string): void {
+    if (!this.attribution) return;
+
+    const queryParams = new URLSearchParams(search);
     const utmParameters: string[] = [];
 
     queryParams.forEach((value, key) => {
@@ -56,14 +75,13 @@ export class UTMTracker implements ITracker {
     // Only update storage if we found new UTM parameters in the URL
     // This preserves manually set parameters during hydration
     if (utmParameters.length > 0) {
-      const utmParamsString = utmParameters.join('&');
-      this.storage.setItem('cxp_utm_params', utmParamsString);
+      this.attribution.capture(utmParameters.join('&'));
     }
   }
 
   // Manual UTM parameter management
   setUTMParameters(params: UTMParameters): void {
-    if (!this.storage) {
+    if (!this.attribution) {
       console.warn('[UTMTracker] Storage not available. Cannot set UTM parameters.');
       return;
     }
@@ -78,32 +96,31 @@ export class UTMTracker implements ITracker {
     });
 
     if (utmParameters.length > 0) {
-      const utmParamsString = utmParameters.join('&');
-      this.storage.setItem('cxp_utm_params', utmParamsString);
+      this.attribution.set(utmParameters.join('&'));
     } else {
       // If no valid parameters, clear existing UTM data
-      this.storage.setItem('cxp_utm_params', '');
+      this.attribution.clear();
     }
   }
 
   clearUTMParameters(): void {
-    if (this.storage) {
-      this.storage.setItem('cxp_utm_params', '');
+    if (this.attribution) {
+      this.attribution.clear();
     }
   }
 
   getUTMParameters(): UTMParameters | null {
-    if (!this.storage) {
+    if (!this.attribution) {
       return null;
     }
 
-    const storedUtmParams = this.storage.getItem('cxp_utm_params');
+    const storedUtmParams = this.attribution.get();
     if (!storedUtmParams) {
       return null;
     }
 
     const params: UTMParameters = {};
-    const urlParams = new URLSearchParams(storedUtmParams);
+    const urlParams = new URLSearchParams(storedUtmParams.value);
     
     urlParams.forEach((value, key) => {
       params[key] = decodeURIComponent(value);
@@ -0,0 +1,168 @@
+import { AttributionStore } from '../AttributionStore';
+import { StorageManager } from '../../storage/StorageManager';
+import type { AttributionModel } from '../../core/types';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('AttributionStore', () => {
+  let storage: StorageManager;
+
+  const createStore = (attributionModel?: AttributionModel, maxTouchpoints?: number) =>
+    new AttributionStore(storage, 'cxp_utm_params', 'cxp_utm_touchpoints', { tenantId: 'test-tenant', attributionModel, maxTouchpoints }, 'last-touch');
+
+  const touchpointValues = (store: AttributionStore) => store.getTouchpoints().map(touchpoint => touchpoint.value);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2024, 0, 1));
+    storage = new StorageManager({ tenantId: 'test-tenant', storage: 'memory' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('without an attribution model', () => {
+    it('should use the default model and send no touch headers', () => {
+      const store = createStore();
+
+      store.capture('source=google');
+      store.capture('source=facebook');
+
+      expect(store.get()?.value).toBe('source=facebook');
+      expect(store.getHeaders('UTM')).toEqual({});
+      expect(storage.getItem('cxp_utm_touchpoints')).toBeNull();
+    });
+
+    it('should keep the first capture when the default is first-touch', () => {
+      const store = new AttributionStore(storage, 'cxp_initial_referrer', 'cxp_referrer_touchpoints', { tenantId: 'test-tenant' }, 'first-touch');
+
+      store.capture('https://google.com');
+      store.capture('https://bing.com');
+
+      expect(store.get()?.value).toBe('https://google.com');
+    });
+  });
+
+  describe('first-touch', () => {
+    it('should keep the first captured touch', () => {
+      const store = createStore('first-touch');
+
+      store.capture('source=google');
+      store.capture('source=facebook');
+
+      expect(store.get()?.value).toBe('source=google');
+      expect(store.getHeaders('UTM')).toEqual({ 'X-UTM-FIRST': 'source=google' });
+    });
+
+    it('should let manually set touches replace the first touch', () => {
+      const store = createStore('first-touch');
+
+      store.capture('source=google');
+      store.set('source=newsletter');
+
+      expect(store.getHeaders('UTM')).toEqual({ 'X-UTM-FIRST': 'source=newsletter' });
+    });
+  });
+
+  describe('last-touch', () => {
+    it('should keep the last captured touch', () => {
+      const store = createStore('last-touch');
+
+      store.capture('source=google');
+      store.capture('source=facebook');
+
+      expect(store.get()?.value).toBe('source=facebook');
+      expect(store.getHeaders('UTM')).toEqual({ 'X-UTM-LAST': 'source=facebook' });
+    });
+  });
+
+  describe('multi-touch', () => {
+    it('should keep the touchpoint history in order', () => {
+      const store = createStore('multi-touch');
+
+      store.capture('source=google');
+      vi.advanceTimersByTime(1000);
+      store.capture('source=facebook');
+      store.set('source=newsletter');
+
+      expect(store.get()?.value).toBe('source=newsletter');
+      expect(store.getTouchpoints()).toEqual([
+        { value: 'source=google', capturedAt: Date.UTC(2024, 0, 1) },
+        { value: 'source=facebook', capturedAt: Date.UTC(2024, 0, 1) + 1000 },
+        { value: 'source=newsletter', capturedAt: Date.UTC(2024, 0, 1) + 1000 }
+      ]);
+      expect(store.getHeaders('UTM')).toEqual({
+        'X-UTM-FIRST': 'source=google',
+        'X-UTM-LAST': 'source=newsletter',
+        'X-UTM-TOUCHPOINTS': '["source=google","source=facebook","source=newsletter"]'
+      });
+    });
+
+    it('should not record repeated captures of the same touch', () => {
+      const store = createStore('multi-touch');
+
+      store.capture('source=google');
+      store.capture('source=google');
+
+      expect(touchpointValues(store)).toEqual(['source=google']);
+    });
+
+    it('should keep the first touch and drop the oldest later touches beyond maxTouchpoints', () => {
+      const store = createStore('multi-touch', 3);
+
+      ['source=a', 'source=b', 'source=c', 'source=d', 'source=e'].forEach(value => store.capture(value));
+
+      expect(touchpointValues(store)).toEqual(['source=a', 'source=d', 'source=e']);
+    });
+
+    it('should drop expired touches', () => {
+      const day = 24 * 60 * 60 * 1000;
+      const store = new AttributionStore(storage, 'cxp_utm_params', 'cxp_utm_touchpoints', {
+        tenantId: 'test-tenant',
+        attributionModel: 'multi-touch',
+        attributionWindow: 30 * day
+      }, 'last-touch');
+
+      store.capture('source=google');
+      vi.advanceTimersByTime(20 * day);
+      store.capture('source=facebook');
+      vi.advanceTimersByTime(10 * day);
+
+      expect(touchpointValues(store)).toEqual(['source=facebook']);
+      expect(JSON.parse(storage.getItem('cxp_utm_touchpoints') as string)).toHaveLength(1);
+    });
+
+    it('should clear the history', () => {
+      const store = createStore('multi-touch');
+      store.capture('source=google');
+
+      store.clear();
+
+      expect(store.get()).toBeNull();
+      expect(store.getTouchpoints()).toEqual([]);
+      expect(store.getHeaders('UTM')).toEqual({});
+    });
+
+    it('should treat a value stored before multi-touch was enabled as the only touch', () => {
+      createStore().capture('source=google');
+
+      expect(createStore('multi-touch').getHeaders('UTM')).toEqual({
+        'X-UTM-FIRST': 'source=google',
+        'X-UTM-LAST': 'source=google',
+        'X-UTM-TOUCHPOINTS': '["source=google"]'
+      });
+    });
+
+    it('should ignore a malformed history', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      storage.setItem('cxp_utm_touchpoints', 'not-json');
+
+      const store = createStore('multi-touch');
+      store.capture('source=google');
+
+      expect(touchpointValues(store)).toEqual(['source=google']);
+      expect(warnSpy).toHaveBeenCalledWith('[GrowcadoSDK] Failed to parse stored touchpoints');
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { ClickIdTracker } from '../ClickIdTracker';
+import { StorageManager } from '../../storage/StorageManager';
+import { vi, beforeEach, describe, it, expect, afterEach } from 'vitest';
+
+// Mock window
+const windowMock = {
+  location: {
+    search: '',
+  },
+};
+
+describe('ClickIdTracker', () => {
+  let clickIdTracker: ClickIdTracker;
+  let storageManager: StorageManager;
+  const capturedAt = Date.UTC(2024, 0, 1);
+  const day = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(capturedAt);
+
+    Object.defineProperty(global, 'window', {
+      value: windowMock,
+      writable: true,
+    });
+
+    clickIdTracker = new ClickIdTracker();
+    storageManager = new StorageManager({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    windowMock.location.search = '';
+  });
+
+  describe('initialization', () => {
+    it('should capture the default click IDs with their capture time', () => {
+      windowMock.location.search = '?gclid=abc123&fbclid=fb.456&utm_source=google&ref=home';
+
+      clickIdTracker.initialize({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      expect(clickIdTracker.getClickIds()).toEqual({
+        gclid: { value: 'abc123', capturedAt },
+        fbclid: { value: 'fb.456', capturedAt },
+      });
+    });
+
+    it('should capture every default click ID parameter', () => {
+      windowMock.location.search = '?gclid=1&fbclid=2&msclkid=3&ttclid=4&li_fat_id=5';
+
+      clickIdTracker.initialize({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      expect(Object.keys(clickIdTracker.getClickIds() ?? {})).toEqual(['gclid', 'fbclid', 'msclkid', 'ttclid', 'li_fat_id']);
+    });
+
+    it('should not capture anything unless enabled', () => {
+      windowMock.location.search = '?gclid=abc123';
+
+      clickIdTracker.initialize({ tenantId: 'test-tenant' }, storageManager);
+
+      expect(clickIdTracker.getClickIds()).toBeNull();
+      expect(clickIdTracker.getHeaders()).toEqual({});
+    });
+
+    it('should only capture the configured parameters', () => {
+      windowMock.location.search = '?gclid=abc123&dclid=dc789&wbraid=wb1';
+
+      clickIdTracker.initialize({
+        tenantId: 'test-tenant',
+        enableClickIdTracking: true,
+        clickIdParams: ['dclid', 'wbraid'],
+      }, storageManager);
+
+      expect(clickIdTracker.getClickIds()).toEqual({
+        dclid: { value: 'dc789', capturedAt },
+        wbraid: { value: 'wb1', capturedAt },
+      });
+    });
+
+    it('should not capture click IDs in SSR initialization', () => {
+      windowMock.location.search = '?gclid=abc123';
+
+      clickIdTracker.initializeSSR({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      expect(clickIdTracker.getClickIds()).toBeNull();
+    });
+
+    it('should replace the ID of the same platform and keep the others', () => {
+      const config = { tenantId: 'test-tenant', enableClickIdTracking: true };
+      windowMock.location.search = '?gclid=first&msclkid=ms1';
+      clickIdTracker.initialize(config, storageManager);
+
+      vi.advanceTimersByTime(1000);
+      windowMock.location.search = '?gclid=second';
+      clickIdTracker.initialize(config, storageManager);
+
+      expect(clickIdTracker.getClickIds()).toEqual({
+        gclid: { value: 'second', capturedAt: capturedAt + 1000 },
+        msclkid: { value: 'ms1', capturedAt },
+      });
+    });
+  });
+
+  describe('attribution window', () => {
+    it('should expire click IDs individually', () => {
+      const config = { tenantId: 'test-tenant', enableClickIdTracking: true, attributionWindow: 30 * day };
+      windowMock.location.search = '?gclid=abc123';
+      clickIdTracker.initialize(config, storageManager);
+
+      vi.advanceTimersByTime(20 * day);
+      windowMock.location.search = '?fbclid=fb.456';
+      clickIdTracker.initialize(config, storageManager);
+
+      vi.advanceTimersByTime(10 * day);
+
+      expect(clickIdTracker.getClickIds()).toEqual({
+        fbclid: { value: 'fb.456', capturedAt: capturedAt + 20 * day, expiresAt: capturedAt + 50 * day },
+      });
+      expect(JSON.parse(storageManager.getItem('cxp_click_ids') as string)).not.toHaveProperty('gclid');
+    });
+
+    it('should remove the stored entry once every click ID expired', () => {
+      windowMock.location.search = '?gclid=abc123';
+      clickIdTracker.initialize({ tenantId: 'test-tenant', enableClickIdTracking: true, attributionWindow: day }, storageManager);
+
+      vi.advanceTimersByTime(day);
+
+      expect(clickIdTracker.getClickIds()).toBeNull();
+      expect(storageManager.getItem('cxp_click_ids')).toBe('');
+    });
+  });
+
+  describe('getHeaders', () => {
+    it('should send the click IDs in the X-CLICK-IDS header', () => {
+      windowMock.location.search = '?gclid=abc%20123&ttclid=tt%26x';
+
+      clickIdTracker.initialize({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      expect(clickIdTracker.getHeaders()).toEqual({ 'X-CLICK-IDS': 'gclid=abc%20123&ttclid=tt%26x' });
+    });
+  });
+
+  describe('captureFromURL', () => {
+    it('should capture click IDs from an explicit URL', () => {
+      clickIdTracker.initializeSSR({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      clickIdTracker.captureFromURL('https://shop.example.com/landing?li_fat_id=li-1#offer');
+
+      expect(clickIdTracker.getClickIds()).toEqual({ li_fat_id: { value: 'li-1', capturedAt } });
+    });
+
+    it('should ignore URLs when tracking is disabled', () => {
+      clickIdTracker.initializeSSR({ tenantId: 'test-tenant' }, storageManager);
+
+      clickIdTracker.captureFromURL('https://shop.example.com/?gclid=abc123');
+
+      expect(clickIdTracker.getClickIds()).toBeNull();
+    });
+  });
+
+  describe('stored data', () => {
+    it('should ignore malformed stored click IDs', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      storageManager.setItem('cxp_click_ids', 'not-json');
+      clickIdTracker.initialize({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      expect(clickIdTracker.getClickIds()).toBeNull();
+      expect(warnSpy).toHaveBeenCalledWith('[GrowcadoSDK] Failed to parse stored click IDs');
+      warnSpy.mockRestore();
+    });
+
+    it('should return null after reset', () => {
+      windowMock.location.search = '?gclid=abc123';
+      clickIdTracker.initialize({ tenantId: 'test-tenant', enableClickIdTracking: true }, storageManager);
+
+      clickIdTracker.reset();
+
+      expect(clickIdTracker.getClickIds()).toBeNull();
+    });
+  });
+});
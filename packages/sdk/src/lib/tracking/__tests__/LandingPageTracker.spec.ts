@@ -0,0 +1,210 @@
+import { LandingPageTracker } from '../LandingPageTracker';
+import { SessionManager } from '../SessionManager';
+import { StorageManager } from '../../storage/StorageManager';
+import { vi, beforeEach, describe, it, expect, afterEach } from 'vitest';
+
+// Mock window
+const windowMock = {
+  location: {
+    href: 'https://shop.example.com/',
+  },
+};
+
+describe('LandingPageTracker', () => {
+  let landingPageTracker: LandingPageTracker;
+  let sessionManager: SessionManager;
+  let storageManager: StorageManager;
+  // Local time, so sessions do not end at midnight depending on the time zone tests run in
+  const start = new Date(2024, 0, 1, 12, 0).getTime();
+  const minute = 60 * 1000;
+  const config = { tenantId: 'test-tenant', enableLandingPageTracking: true };
+
+  // Simulates a full page load of the given URL
+  const visit = (url: string, overrides = {}) => {
+    windowMock.location.href = url;
+    sessionManager.reset();
+    sessionManager.initialize({ ...config, ...overrides }, storageManager);
+    landingPageTracker.initialize({ ...config, ...overrides }, storageManager);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(start);
+
+    Object.defineProperty(global, 'window', {
+      value: windowMock,
+      writable: true,
+    });
+
+    sessionManager = new SessionManager();
+    landingPageTracker = new LandingPageTracker(sessionManager);
+    storageManager = new StorageManager({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('initialization', () => {
+    it('should record the first page view as landing page of the visitor and the session', () => {
+      visit('https://shop.example.com/products/avocado?utm_source=google');
+
+      const expected = {
+        url: 'https://shop.example.com/products/avocado?utm_source=google',
+        path: '/products/avocado',
+        capturedAt: start,
+      };
+      expect(landingPageTracker.getLandingPage()).toEqual(expected);
+      expect(landingPageTracker.getSessionLandingPage()).toEqual(expected);
+    });
+
+    it('should not record anything unless enabled', () => {
+      windowMock.location.href = 'https://shop.example.com/';
+
+      landingPageTracker.initialize({ tenantId: 'test-tenant' }, storageManager);
+
+      expect(landingPageTracker.getLandingPage()).toBeNull();
+      expect(landingPageTracker.getHeaders()).toEqual({});
+    });
+
+    it('should not record page views in SSR initialization', () => {
+      landingPageTracker.initializeSSR(config, storageManager);
+
+      expect(landingPageTracker.getLandingPage()).toBeNull();
+    });
+  });
+
+  describe('query parameter allowlist', () => {
+    it('should strip query parameters outside the allowlist and the fragment', () => {
+      visit('https://shop.example.com/signup?email=jane%40example.com&utm_campaign=spring&token=secret#form');
+
+      expect(landingPageTracker.getLandingPage()?.url).toBe('https://shop.example.com/signup?utm_campaign=spring');
+    });
+
+    it('should keep the configured parameters only', () => {
+      visit('https://shop.example.com/?utm_source=google&variant=b&ref=partner', { landingPageParams: ['variant'] });
+
+      expect(landingPageTracker.getLandingPage()?.url).toBe('https://shop.example.com/?variant=b');
+    });
+  });
+
+  describe('sessions', () => {
+    it('should keep both landing pages on later page views of the session', () => {
+      visit('https://shop.example.com/');
+      vi.advanceTimersByTime(10 * minute);
+      visit('https://shop.example.com/cart');
+
+      expect(landingPageTracker.getLandingPage()?.path).toBe('/');
+      expect(landingPageTracker.getSessionLandingPage()?.path).toBe('/');
+    });
+
+    it('should start a new session landing page after the session timeout', () => {
+      visit('https://shop.example.com/');
+      vi.advanceTimersByTime(30 * minute);
+
+      expect(landingPageTracker.getSessionLandingPage()).toBeNull();
+
+      visit('https://shop.example.com/blog');
+
+      expect(landingPageTracker.getLandingPage()?.path).toBe('/');
+      expect(landingPageTracker.getSessionLandingPage()).toEqual({
+        url: 'https://shop.example.com/blog',
+        path: '/blog',
+        capturedAt: start + 30 * minute,
+      });
+    });
+
+    it('should extend the session with every page view', () => {
+      visit('https://shop.example.com/');
+      vi.advanceTimersByTime(20 * minute);
+      visit('https://shop.example.com/cart');
+      vi.advanceTimersByTime(20 * minute);
+      visit('https://shop.example.com/checkout');
+
+      expect(landingPageTracker.getSessionLandingPage()?.path).toBe('/');
+    });
+
+    it('should keep the session landing page while client-side navigations keep the session alive', () => {
+      visit('https://shop.example.com/');
+      vi.advanceTimersByTime(20 * minute);
+      sessionManager.trackPageView();
+      vi.advanceTimersByTime(20 * minute);
+      sessionManager.trackPageView();
+
+      expect(sessionManager.getSession()?.pageCount).toBe(3);
+      expect(landingPageTracker.getSessionLandingPage()?.path).toBe('/');
+    });
+
+    it('should start a new session landing page when the session rotates at midnight', () => {
+      vi.setSystemTime(new Date(2024, 0, 1, 23, 50));
+      visit('https://shop.example.com/');
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 5));
+      visit('https://shop.example.com/blog');
+
+      expect(landingPageTracker.getSessionLandingPage()?.path).toBe('/blog');
+    });
+
+    it('should honour a custom session timeout', () => {
+      visit('https://shop.example.com/', { sessionTimeout: 5 * minute });
+      vi.advanceTimersByTime(5 * minute);
+      visit('https://shop.example.com/cart', { sessionTimeout: 5 * minute });
+
+      expect(landingPageTracker.getSessionLandingPage()?.path).toBe('/cart');
+    });
+  });
+
+  describe('getHeaders', () => {
+    it('should send both landing pages', () => {
+      visit('https://shop.example.com/?utm_source=google');
+      vi.advanceTimersByTime(30 * minute);
+      visit('https://shop.example.com/blog');
+
+      expect(landingPageTracker.getHeaders()).toEqual({
+        'X-LANDING-PAGE': 'https://shop.example.com/?utm_source=google',
+        'X-SESSION-LANDING-PAGE': 'https://shop.example.com/blog',
+      });
+    });
+
+    it('should stop sending the session landing page when the session expired', () => {
+      visit('https://shop.example.com/');
+      vi.advanceTimersByTime(30 * minute);
+
+      expect(landingPageTracker.getHeaders()).toEqual({ 'X-LANDING-PAGE': 'https://shop.example.com/' });
+    });
+  });
+
+  describe('captureFromURL', () => {
+    it('should record paths of server requests', () => {
+      landingPageTracker.initializeSSR(config, storageManager);
+
+      landingPageTracker.captureFromURL('/products?utm_medium=cpc&session=abc');
+
+      expect(landingPageTracker.getLandingPage()).toEqual({
+        url: '/products?utm_medium=cpc',
+        path: '/products',
+        capturedAt: start,
+      });
+    });
+
+    it('should ignore URLs when tracking is disabled', () => {
+      landingPageTracker.initializeSSR({ tenantId: 'test-tenant' }, storageManager);
+
+      landingPageTracker.captureFromURL('https://shop.example.com/');
+
+      expect(landingPageTracker.getLandingPage()).toBeNull();
+    });
+  });
+
+  it('should ignore malformed stored landing pages', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    storageManager.setItem('cxp_landing_page', 'not-json');
+    landingPageTracker.initializeSSR(config, storageManager);
+
+    expect(landingPageTracker.getLandingPage()).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith('[GrowcadoSDK] Failed to parse stored landing page');
+    warnSpy.mockRestore();
+  });
+});
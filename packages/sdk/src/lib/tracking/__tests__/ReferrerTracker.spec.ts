@@ -25,6 +25,12 @@ const localStorageMock = (() => {
   };
 })();
 
+// Value of a stored attribution record; raw values are returned as they are
+const storedValue = (storage: StorageManager, key: string): string | null => {
+  const stored = storage.getItem(key);
+  return stored?.startsWith('{') ? JSON.parse(stored).value : stored;
+};
+
 describe('ReferrerTracker', () => {
   let referrerTracker: ReferrerTracker;
   let storageManager: StorageManager;
@@ -73,7 +79,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://google.com/search');
     });
 
@@ -86,7 +92,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBeNull();
     });
 
@@ -98,7 +104,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBeNull();
     });
 
@@ -113,7 +119,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://existing-referrer.com');
     });
 
@@ -139,7 +145,7 @@ describe('ReferrerTracker', () => {
           enableReferrerTracking: true
         }, testStorage);
 
-        const storedReferrer = testStorage.getItem('cxp_initial_referrer');
+        const storedReferrer = storedValue(testStorage, 'cxp_initial_referrer');
         expect(storedReferrer).toBe(referrer);
       });
     });
@@ -152,7 +158,7 @@ describe('ReferrerTracker', () => {
         // enableReferrerTracking not specified, should default to true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://google.com');
     });
   });
@@ -166,7 +172,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: false
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBeNull();
     });
   });
@@ -182,7 +188,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBeNull();
       
       // Restore original window
@@ -199,7 +205,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
 
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBeNull();
       
       // Restore original document
@@ -243,7 +249,7 @@ describe('ReferrerTracker', () => {
       }, storageManager);
       
       // Should not have auto-captured the referrer
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBeNull();
       
       const headers = referrerTracker.getHeaders();
@@ -330,7 +336,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
       
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://facebook.com');
     });
   });
@@ -346,7 +352,7 @@ describe('ReferrerTracker', () => {
       }, storageManager);
 
       // Should still store because URLs don't match exactly
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://example.com/current-page/');
     });
 
@@ -360,7 +366,7 @@ describe('ReferrerTracker', () => {
       }, storageManager);
 
       // Should store because of case differences
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://Example.com/Current-Page');
     });
 
@@ -374,7 +380,7 @@ describe('ReferrerTracker', () => {
       }, storageManager);
 
       // Should store because URLs are different
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://example.com/current-page?ref=google#section');
     });
   });
@@ -419,6 +425,102 @@ describe('ReferrerTracker', () => {
     });
   });
 
+  describe('captureFromRequest', () => {
+    it('should store the referrer from a server request', () => {
+      referrerTracker.initializeSSR({ tenantId: 'test-tenant', enableReferrerTracking: true }, storageManager);
+
+      referrerTracker.captureFromRequest('https://google.com/search', 'https://example.com/landing');
+
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('https://google.com/search');
+    });
+
+    it('should ignore a referrer that matches the requested URL', () => {
+      referrerTracker.initializeSSR({ tenantId: 'test-tenant', enableReferrerTracking: true }, storageManager);
+
+      referrerTracker.captureFromRequest('https://example.com/landing', 'https://example.com/landing');
+
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBeNull();
+    });
+
+    it('should keep an existing initial referrer', () => {
+      referrerTracker.initializeSSR({ tenantId: 'test-tenant', enableReferrerTracking: true }, storageManager);
+      storageManager.setItem('cxp_initial_referrer', 'https://first.com');
+
+      referrerTracker.captureFromRequest('https://second.com');
+
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('https://first.com');
+    });
+
+    it('should not capture when referrer tracking is disabled', () => {
+      referrerTracker.initializeSSR({ tenantId: 'test-tenant', enableReferrerTracking: false }, storageManager);
+
+      referrerTracker.captureFromRequest('https://google.com');
+
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBeNull();
+    });
+  });
+
+  describe('referrer classification', () => {
+    it('should not store referrers from internal domains', () => {
+      documentMock.referrer = 'https://shop.example.com/cart';
+
+      referrerTracker.initialize({
+        tenantId: 'test-tenant',
+        internalDomains: ['example.com']
+      }, storageManager);
+
+      expect(referrerTracker.getReferrer()).toBeNull();
+    });
+
+    it('should classify the stored referrer', () => {
+      documentMock.referrer = 'https://duckduckgo.com/?q=growcado';
+
+      referrerTracker.initialize({ tenantId: 'test-tenant' }, storageManager);
+
+      expect(referrerTracker.getReferrerData()).toEqual({
+        url: 'https://duckduckgo.com/?q=growcado',
+        domain: 'duckduckgo.com',
+        channel: 'search',
+        searchEngine: 'duckduckgo',
+        keyword: 'growcado'
+      });
+    });
+
+    it('should check custom rules before the built-in rules', () => {
+      documentMock.referrer = 'https://www.google.com/';
+
+      referrerTracker.initialize({
+        tenantId: 'test-tenant',
+        referrerRules: [{ channel: 'referral', name: 'partner', domains: ['google.com'] }]
+      }, storageManager);
+
+      expect(referrerTracker.getReferrerData()?.channel).toBe('referral');
+    });
+
+    it('should send the classification header when enabled', () => {
+      documentMock.referrer = 'https://www.instagram.com/';
+
+      referrerTracker.initialize({ tenantId: 'test-tenant', enableReferrerClassification: true }, storageManager);
+
+      expect(referrerTracker.getHeaders()['X-REFERRER-CLASSIFICATION']).toBe('channel=social, domain="instagram.com"');
+    });
+
+    it('should classify visits without a referrer as direct', () => {
+      referrerTracker.initialize({ tenantId: 'test-tenant', enableReferrerClassification: true }, storageManager);
+
+      expect(referrerTracker.getReferrerData()).toBeNull();
+      expect(referrerTracker.getHeaders()).toEqual({ 'X-REFERRER-CLASSIFICATION': 'channel=direct' });
+    });
+
+    it('should not send the classification header by default', () => {
+      documentMock.referrer = 'https://www.instagram.com/';
+
+      referrerTracker.initialize({ tenantId: 'test-tenant' }, storageManager);
+
+      expect(referrerTracker.getHeaders()).toEqual({ 'X-ENTRY-SOURCE-INITIAL-REFERRAL': 'https://www.instagram.com/' });
+    });
+  });
+
   describe('storage key management', () => {
     it('should use correct storage key', () => {
       documentMock.referrer = 'https://google.com';
@@ -429,11 +531,11 @@ describe('ReferrerTracker', () => {
       }, storageManager);
 
       // Check that the correct key is used
-      const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+      const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
       expect(storedReferrer).toBe('https://google.com');
       
       // Verify other keys are not set
-      expect(storageManager.getItem('cxp_utm_params')).toBeNull();
+      expect(storedValue(storageManager, 'cxp_utm_params')).toBeNull();
       expect(storageManager.getItem('cxp_customer_identifiers')).toBeNull();
     });
   });
@@ -447,7 +549,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
       
-      expect(storageManager.getItem('cxp_initial_referrer')).toBe('https://first-referrer.com');
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('https://first-referrer.com');
       
       // Second initialization should not overwrite
       documentMock.referrer = 'https://second-referrer.com';
@@ -456,7 +558,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
       
-      expect(storageManager.getItem('cxp_initial_referrer')).toBe('https://first-referrer.com');
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('https://first-referrer.com');
     });
 
     it('should handle re-enabling after disabling', () => {
@@ -467,7 +569,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: false
       }, storageManager);
       
-      expect(storageManager.getItem('cxp_initial_referrer')).toBeNull();
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBeNull();
       
       // Re-initialize with tracking enabled
       referrerTracker.initialize({
@@ -475,7 +577,7 @@ describe('ReferrerTracker', () => {
         enableReferrerTracking: true
       }, storageManager);
       
-      expect(storageManager.getItem('cxp_initial_referrer')).toBe('https://google.com');
+      expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('https://google.com');
     });
   });
 
@@ -491,7 +593,7 @@ describe('ReferrerTracker', () => {
       it('should set referrer as string', () => {
         referrerTracker.setReferrer('https://manual-referrer.com');
         
-        const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+        const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
         expect(storedReferrer).toBe('https://manual-referrer.com');
         
         const headers = referrerTracker.getHeaders();
@@ -506,32 +608,32 @@ describe('ReferrerTracker', () => {
           domain: 'manual-referrer.com'
         });
         
-        const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+        const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
         expect(storedReferrer).toBe('https://manual-referrer.com');
       });
 
       it('should trim whitespace from referrer URL', () => {
         referrerTracker.setReferrer('  https://manual-referrer.com  ');
         
-        const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+        const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
         expect(storedReferrer).toBe('https://manual-referrer.com');
       });
 
       it('should clear referrer when empty string provided', () => {
         // First set a referrer
         referrerTracker.setReferrer('https://manual-referrer.com');
-        expect(storageManager.getItem('cxp_initial_referrer')).toBe('https://manual-referrer.com');
+        expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('https://manual-referrer.com');
         
         // Then clear with empty string
         referrerTracker.setReferrer('');
-        expect(storageManager.getItem('cxp_initial_referrer')).toBe('');
+        expect(storedValue(storageManager, 'cxp_initial_referrer')).toBe('');
       });
 
       it('should clear referrer when whitespace-only string provided', () => {
         referrerTracker.setReferrer('https://manual-referrer.com');
         referrerTracker.setReferrer('   ');
         
-        const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+        const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
         expect(storedReferrer).toBe('');
       });
 
@@ -541,7 +643,7 @@ describe('ReferrerTracker', () => {
           domain: 'example.com'
         });
         
-        const storedReferrer = storageManager.getItem('cxp_initial_referrer');
+        const storedReferrer = storedValue(storageManager, 'cxp_initial_referrer');
         expect(storedReferrer).toBe('');
       });
 
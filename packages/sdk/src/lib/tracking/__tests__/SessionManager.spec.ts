@@ -0,0 +1,220 @@
+import { SessionManager } from '../SessionManager';
+import { StorageManager } from '../../storage/StorageManager';
+import { vi, beforeEach, describe, it, expect, afterEach } from 'vitest';
+
+describe('SessionManager', () => {
+  let sessionManager: SessionManager;
+  let storageManager: StorageManager;
+  // Local time, so the midnight rotation does not depend on the time zone tests run in
+  const start = new Date(2024, 0, 1, 12, 0).getTime();
+  const minute = 60 * 1000;
+  const config = { tenantId: 'test-tenant', enableSessionTracking: true };
+
+  // Simulates a full page load
+  const visit = (overrides = {}) => {
+    sessionManager.reset();
+    sessionManager.initialize({ ...config, ...overrides }, storageManager);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(start);
+
+    Object.defineProperty(global, 'window', {
+      value: {},
+      writable: true,
+    });
+
+    sessionManager = new SessionManager();
+    storageManager = new StorageManager({
+      tenantId: 'test-tenant',
+      storage: 'memory',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('initialization', () => {
+    it('should start a session on the first page view', () => {
+      visit();
+
+      expect(sessionManager.getSession()).toEqual({
+        id: expect.any(String),
+        startedAt: start,
+        lastActivityAt: start,
+        pageCount: 1,
+      });
+    });
+
+    it('should not track sessions unless enabled', () => {
+      visit({ enableSessionTracking: false });
+
+      expect(sessionManager.getSession()).toBeNull();
+      expect(sessionManager.getHeaders()).toEqual({});
+    });
+
+    it('should count a page load only once when initialized again on hydration', () => {
+      sessionManager.initialize(config, storageManager);
+      sessionManager.initialize(config, storageManager);
+
+      expect(sessionManager.getSession()?.pageCount).toBe(1);
+    });
+
+    it('should not count a page view during SSR initialization', () => {
+      sessionManager.initializeSSR(config, storageManager);
+
+      expect(sessionManager.getSession()).toBeNull();
+    });
+
+    it('should only continue stored sessions after SSR initialization', () => {
+      sessionManager.initializeSSR(config, storageManager);
+      sessionManager.trackPageView();
+      sessionManager.recordActivity();
+
+      expect(sessionManager.getSession()).toBeNull();
+
+      const session = { id: 'session-1', startedAt: start - minute, lastActivityAt: start - minute, pageCount: 2 };
+      storageManager.setItem('cxp_session', JSON.stringify(session));
+      sessionManager.trackPageView();
+
+      expect(sessionManager.getSession()).toEqual({ ...session, lastActivityAt: start, pageCount: 3 });
+    });
+  });
+
+  describe('page views', () => {
+    it('should continue the session and update the last activity', () => {
+      visit();
+      const id = sessionManager.getSession()?.id;
+
+      vi.advanceTimersByTime(10 * minute);
+      visit();
+      vi.advanceTimersByTime(10 * minute);
+      sessionManager.trackPageView();
+
+      expect(sessionManager.getSession()).toEqual({
+        id,
+        startedAt: start,
+        lastActivityAt: start + 20 * minute,
+        pageCount: 3,
+      });
+    });
+
+    it('should start a new session after the inactivity timeout', () => {
+      visit();
+      const id = sessionManager.getSession()?.id;
+
+      vi.advanceTimersByTime(30 * minute);
+      expect(sessionManager.getSession()).toBeNull();
+
+      visit();
+      expect(sessionManager.getSession()?.id).not.toBe(id);
+      expect(sessionManager.getSession()).toMatchObject({ startedAt: start + 30 * minute, pageCount: 1 });
+    });
+
+    it('should report whether a page view started a new session', () => {
+      visit();
+
+      expect(sessionManager.trackPageView()).toBe(false);
+      vi.advanceTimersByTime(30 * minute);
+      expect(sessionManager.trackPageView()).toBe(true);
+    });
+
+    it('should use a custom session timeout', () => {
+      visit({ sessionTimeout: 5 * minute });
+      const id = sessionManager.getSession()?.id;
+
+      vi.advanceTimersByTime(5 * minute);
+      visit({ sessionTimeout: 5 * minute });
+
+      expect(sessionManager.getSession()?.id).not.toBe(id);
+    });
+
+    it('should start a new session at midnight', () => {
+      vi.setSystemTime(new Date(2024, 0, 1, 23, 50));
+      visit();
+      const id = sessionManager.getSession()?.id;
+
+      vi.setSystemTime(new Date(2024, 0, 2, 0, 5));
+      visit();
+
+      expect(sessionManager.getSession()?.id).not.toBe(id);
+      expect(sessionManager.getSession()).toMatchObject({ startedAt: new Date(2024, 0, 2, 0, 5).getTime(), pageCount: 1 });
+    });
+  });
+
+  describe('headers', () => {
+    it('should send the session ID, start and page count', () => {
+      visit();
+      sessionManager.trackPageView();
+      const id = sessionManager.getSession()?.id;
+
+      expect(sessionManager.getHeaders()).toEqual({
+        'X-SESSION': `id=${id}&started_at=${start}&page_count=2`,
+      });
+    });
+
+    it('should not change the session when reading headers', () => {
+      visit();
+      const setItemSpy = vi.spyOn(storageManager, 'setItem');
+
+      vi.advanceTimersByTime(10 * minute);
+      sessionManager.getHeaders();
+
+      expect(setItemSpy).not.toHaveBeenCalled();
+      expect(sessionManager.getSession()?.lastActivityAt).toBe(start);
+    });
+
+    it('should not send an expired session', () => {
+      visit();
+      vi.advanceTimersByTime(30 * minute);
+
+      expect(sessionManager.getHeaders()).toEqual({});
+    });
+  });
+
+  describe('recordActivity', () => {
+    it('should keep the session alive with requests', () => {
+      visit();
+      const id = sessionManager.getSession()?.id;
+
+      vi.advanceTimersByTime(20 * minute);
+      sessionManager.recordActivity();
+      vi.advanceTimersByTime(20 * minute);
+
+      expect(sessionManager.getSession()).toMatchObject({ id, pageCount: 1, lastActivityAt: start + 20 * minute });
+    });
+
+    it('should start a new session for a request after the inactivity timeout', () => {
+      visit();
+      const id = sessionManager.getSession()?.id;
+
+      vi.advanceTimersByTime(45 * minute);
+      sessionManager.recordActivity();
+      const header = sessionManager.getHeaders()['X-SESSION'];
+
+      expect(header).not.toContain(`id=${id}&`);
+      expect(header).toContain(`started_at=${start + 45 * minute}&page_count=0`);
+    });
+  });
+
+  describe('storage', () => {
+    it('should persist the session through the storage manager', () => {
+      visit();
+
+      expect(JSON.parse(storageManager.getItem('cxp_session') ?? '')).toEqual(sessionManager.getSession());
+    });
+
+    it('should warn and start a new session when the stored one cannot be parsed', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      storageManager.setItem('cxp_session', 'not json');
+
+      visit();
+
+      expect(consoleSpy).toHaveBeenCalledWith('[GrowcadoSDK] Failed to parse stored session');
+      expect(sessionManager.getSession()?.pageCount).toBe(1);
+      consoleSpy.mockRestore();
+    });
+  });
+});
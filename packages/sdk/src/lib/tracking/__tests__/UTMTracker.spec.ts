@@ -27,6 +27,12 @@ const localStorageMock = (() => {
   };
 })();
 
+// Value of a stored attribution record; raw values are returned as they are
+const storedValue = (storage: StorageManager, key: string): string | null => {
+  const stored = storage.getItem(key);
+  return stored?.startsWith('{') ? JSON.parse(stored).value : stored;
+};
+
 describe('UTMTracker', () => {
   let utmTracker: UTMTracker;
   let storageManager: StorageManager;
@@ -75,7 +81,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe('source=google&medium=cpc&campaign=test');
     });
 
@@ -91,7 +97,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe(
         'source=google%20ads&medium=cpc&campaign=test%20campaign'
       );
@@ -109,7 +115,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe('source=google&medium=cpc');
       expect(storedParams).not.toContain('other_param');
       expect(storedParams).not.toContain('random');
@@ -127,7 +133,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe(
         'source=google&medium=cpc&campaign=test&term=keyword&content=ad'
       );
@@ -144,7 +150,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBeNull();
     });
 
@@ -159,7 +165,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBeNull();
     });
 
@@ -175,7 +181,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toContain('source=google');
       // URL encoding happens, so special characters are encoded
       expect(storedParams).toContain('campaign=test!%40%23%24%25%5E');
@@ -194,7 +200,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBeNull();
     });
 
@@ -209,7 +215,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe('source=google&medium=cpc');
     });
   });
@@ -228,7 +234,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBeNull();
 
       // Restore original window
@@ -342,7 +348,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe('source=facebook&medium=social');
     });
   });
@@ -359,7 +365,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe('source=google&medium=cpc');
     });
 
@@ -374,7 +380,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       expect(storedParams).toBe('source=&medium=cpc&campaign=');
     });
 
@@ -390,7 +396,7 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       // URLSearchParams keeps all values, but our implementation processes them differently
       expect(storedParams).toContain('source=');
       expect(storedParams).toContain('medium=cpc');
@@ -407,12 +413,47 @@ describe('UTMTracker', () => {
         storageManager
       );
 
-      const storedParams = storageManager.getItem('cxp_utm_params');
+      const storedParams = storedValue(storageManager, 'cxp_utm_params');
       // Equals sign gets URL encoded
       expect(storedParams).toBe('source=google&content=test%3Dvalue');
     });
   });
 
+  describe('captureFromURL', () => {
+    it('should capture UTM parameters from an explicit URL', () => {
+      utmTracker.initializeSSR({ tenantId: 'test-tenant', enableAutoUTM: true }, storageManager);
+
+      utmTracker.captureFromURL('https://example.com/landing?utm_source=google&utm_medium=cpc&page=2#top');
+
+      expect(storedValue(storageManager, 'cxp_utm_params')).toBe('source=google&medium=cpc');
+    });
+
+    it('should accept a path with a query string', () => {
+      utmTracker.initializeSSR({ tenantId: 'test-tenant', enableAutoUTM: true }, storageManager);
+
+      utmTracker.captureFromURL('/landing?utm_campaign=spring');
+
+      expect(storedValue(storageManager, 'cxp_utm_params')).toBe('campaign=spring');
+    });
+
+    it('should ignore URLs without UTM parameters', () => {
+      utmTracker.initializeSSR({ tenantId: 'test-tenant', enableAutoUTM: true }, storageManager);
+      utmTracker.setUTMParameters({ source: 'manual' });
+
+      utmTracker.captureFromURL('https://example.com/landing');
+
+      expect(storedValue(storageManager, 'cxp_utm_params')).toBe('source=manual');
+    });
+
+    it('should not capture when UTM tracking is disabled', () => {
+      utmTracker.initializeSSR({ tenantId: 'test-tenant', enableAutoUTM: false }, storageManager);
+
+      utmTracker.captureFromURL('https://example.com/?utm_source=google');
+
+      expect(storedValue(storageManager, 'cxp_utm_params')).toBeNull();
+    });
+  });
+
   describe('integration with different storage modes', () => {
     it('should work with localStorage storage', () => {
       const localStorageManager = new StorageManager({
@@ -487,7 +528,7 @@ describe('UTMTracker', () => {
 
         utmTracker.setUTMParameters(utmParams);
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe(
           'source=newsletter&medium=email&campaign=holiday-sale&term=winter-deals&content=top-banner'
         );
@@ -501,7 +542,7 @@ describe('UTMTracker', () => {
 
         utmTracker.setUTMParameters(utmParams);
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe('source=facebook&campaign=summer-promo');
       });
 
@@ -515,7 +556,7 @@ describe('UTMTracker', () => {
 
         utmTracker.setUTMParameters(utmParams);
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toContain('source=google');
         expect(storedParams).toContain('medium=cpc');
         expect(storedParams).toContain('custom_param=custom-value');
@@ -531,7 +572,7 @@ describe('UTMTracker', () => {
 
         utmTracker.setUTMParameters(utmParams);
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toContain('source=google%20ads');
         expect(storedParams).toContain(
           'campaign=test%20campaign!%40%23%24%25%5E%26*()'
@@ -550,7 +591,7 @@ describe('UTMTracker', () => {
 
         utmTracker.setUTMParameters(utmParams);
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe('source=google&content=banner');
         expect(storedParams).not.toContain('medium');
         expect(storedParams).not.toContain('campaign');
@@ -568,7 +609,7 @@ describe('UTMTracker', () => {
           campaign: '',
         });
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe('');
       });
 
@@ -608,7 +649,7 @@ describe('UTMTracker', () => {
           campaign: 'manual-override',
         });
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe(
           'source=newsletter&medium=email&campaign=manual-override'
         );
@@ -625,21 +666,21 @@ describe('UTMTracker', () => {
         });
 
         // Verify they're stored
-        let storedParams = storageManager.getItem('cxp_utm_params');
+        let storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe('source=google&medium=cpc&campaign=test');
 
         // Clear them
         utmTracker.clearUTMParameters();
 
         // Verify they're cleared
-        storedParams = storageManager.getItem('cxp_utm_params');
+        storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe('');
       });
 
       it('should handle clearing when no parameters exist', () => {
         utmTracker.clearUTMParameters();
 
-        const storedParams = storageManager.getItem('cxp_utm_params');
+        const storedParams = storedValue(storageManager, 'cxp_utm_params');
         expect(storedParams).toBe('');
       });
 
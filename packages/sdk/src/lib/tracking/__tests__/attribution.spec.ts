@@ -0,0 +1,77 @@
+import { readAttribution, writeAttribution } from '../attribution';
+import { StorageManager } from '../../storage/StorageManager';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('attribution records', () => {
+  let storage: StorageManager;
+  const capturedAt = Date.UTC(2024, 0, 1);
+  const day = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(capturedAt);
+    storage = new StorageManager({ tenantId: 'test-tenant', storage: 'memory' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store the value with its capture time', () => {
+    writeAttribution(storage, 'cxp_utm_params', 'source=google');
+
+    expect(JSON.parse(storage.getItem('cxp_utm_params') as string)).toEqual({ value: 'source=google', capturedAt });
+    expect(readAttribution(storage, 'cxp_utm_params')).toEqual({ value: 'source=google', capturedAt });
+  });
+
+  it('should store the expiry when an attribution window is configured', () => {
+    writeAttribution(storage, 'cxp_utm_params', 'source=google', 30 * day);
+
+    expect(readAttribution(storage, 'cxp_utm_params', 30 * day)).toEqual({
+      value: 'source=google',
+      capturedAt,
+      expiresAt: capturedAt + 30 * day
+    });
+  });
+
+  it('should purge records once the attribution window has passed', () => {
+    writeAttribution(storage, 'cxp_initial_referrer', 'https://google.com', 30 * day);
+
+    vi.setSystemTime(capturedAt + 30 * day - 1);
+    expect(readAttribution(storage, 'cxp_initial_referrer', 30 * day)?.value).toBe('https://google.com');
+
+    vi.setSystemTime(capturedAt + 30 * day);
+    expect(readAttribution(storage, 'cxp_initial_referrer', 30 * day)).toBeNull();
+    expect(storage.getItem('cxp_initial_referrer')).toBe('');
+  });
+
+  it('should keep records without an expiry', () => {
+    writeAttribution(storage, 'cxp_utm_params', 'source=google');
+
+    vi.setSystemTime(capturedAt + 365 * day);
+
+    expect(readAttribution(storage, 'cxp_utm_params')?.value).toBe('source=google');
+  });
+
+  it('should rewrite raw values from earlier versions as captured now', () => {
+    storage.setItem('cxp_utm_params', 'source=google&medium=cpc');
+
+    expect(readAttribution(storage, 'cxp_utm_params', 30 * day)).toEqual({
+      value: 'source=google&medium=cpc',
+      capturedAt,
+      expiresAt: capturedAt + 30 * day
+    });
+    expect(JSON.parse(storage.getItem('cxp_utm_params') as string).value).toBe('source=google&medium=cpc');
+
+    vi.setSystemTime(capturedAt + 30 * day);
+    expect(readAttribution(storage, 'cxp_utm_params', 30 * day)).toBeNull();
+  });
+
+  it('should return null for missing and cleared values', () => {
+    expect(readAttribution(storage, 'cxp_utm_params')).toBeNull();
+
+    storage.setItem('cxp_utm_params', '');
+
+    expect(readAttribution(storage, 'cxp_utm_params')).toBeNull();
+  });
+});
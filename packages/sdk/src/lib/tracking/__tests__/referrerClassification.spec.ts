@@ -0,0 +1,87 @@
+import { classifyReferrer, serializeClassification, DEFAULT_REFERRER_RULES } from '../referrerClassification';
+import { describe, it, expect } from 'vitest';
+
+describe('referrer classification', () => {
+  const options = { rules: DEFAULT_REFERRER_RULES, internalDomains: ['example.com'] };
+
+  describe('classifyReferrer', () => {
+    it('should classify search engines with their keyword', () => {
+      expect(classifyReferrer('https://www.bing.com/search?q=running+shoes', options)).toEqual({
+        url: 'https://www.bing.com/search?q=running+shoes',
+        domain: 'bing.com',
+        channel: 'search',
+        searchEngine: 'bing',
+        keyword: 'running shoes'
+      });
+    });
+
+    it('should match country domains of search engines', () => {
+      expect(classifyReferrer('https://www.google.de/', options)).toMatchObject({ channel: 'search', searchEngine: 'google' });
+      expect(classifyReferrer('https://www.google.co.uk/', options)).toMatchObject({ channel: 'search', searchEngine: 'google' });
+      expect(classifyReferrer('https://yandex.ru/search/?text=sneakers', options)).toMatchObject({ searchEngine: 'yandex', keyword: 'sneakers' });
+      expect(classifyReferrer('https://google.attacker.example.net/', options).channel).toBe('referral');
+    });
+
+    it('should omit the keyword when the search engine does not pass it', () => {
+      const classified = classifyReferrer('https://www.google.com/', options);
+
+      expect(classified).toEqual({ url: 'https://www.google.com/', domain: 'google.com', channel: 'search', searchEngine: 'google' });
+    });
+
+    it('should classify social networks including their subdomains', () => {
+      expect(classifyReferrer('https://l.facebook.com/l.php?u=x', options)).toMatchObject({ domain: 'l.facebook.com', channel: 'social' });
+      expect(classifyReferrer('https://t.co/abc', options).channel).toBe('social');
+      expect(classifyReferrer('https://www.linkedin.com/feed/', options).searchEngine).toBeUndefined();
+    });
+
+    it('should classify webmail before search engines of the same provider', () => {
+      expect(classifyReferrer('https://mail.google.com/', options).channel).toBe('email');
+      expect(classifyReferrer('android-app://com.google.android.gm/', options).channel).toBe('email');
+      expect(classifyReferrer('https://outlook.live.com/mail/0/', options).channel).toBe('email');
+    });
+
+    it('should classify internal domains and their subdomains', () => {
+      expect(classifyReferrer('https://blog.example.com/post', options)).toEqual({
+        url: 'https://blog.example.com/post',
+        domain: 'blog.example.com',
+        channel: 'internal'
+      });
+      expect(classifyReferrer('https://notexample.com/', options).channel).toBe('referral');
+    });
+
+    it('should classify unknown domains and invalid URLs as referrals', () => {
+      expect(classifyReferrer('https://partner.net/deals', options)).toEqual({
+        url: 'https://partner.net/deals',
+        domain: 'partner.net',
+        channel: 'referral'
+      });
+      expect(classifyReferrer('not a url', options)).toEqual({ url: 'not a url', channel: 'referral' });
+    });
+
+    it('should apply rules in order', () => {
+      const rules = [{ channel: 'email' as const, name: 'newsletter', domains: ['news.partner.net'] }, ...DEFAULT_REFERRER_RULES];
+
+      expect(classifyReferrer('https://news.partner.net/', { rules, internalDomains: [] }).channel).toBe('email');
+    });
+  });
+
+  describe('serializeClassification', () => {
+    it('should serialize a structured header dictionary', () => {
+      const classified = classifyReferrer('https://www.bing.com/search?q=running+shoes', options);
+
+      expect(serializeClassification('search', classified)).toBe(
+        'channel=search, domain="bing.com", search-engine="bing", keyword="running shoes"'
+      );
+    });
+
+    it('should serialize direct traffic without a referrer', () => {
+      expect(serializeClassification('direct')).toBe('channel=direct');
+    });
+
+    it('should escape quotes and percent-encode non-ASCII characters', () => {
+      expect(serializeClassification('search', { url: '', keyword: 'say "hi" \\ café' })).toBe(
+        'channel=search, keyword="say \\"hi\\" \\\\ caf%C3%A9"'
+      );
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import type { AttributionRecord, IStorageManager } from '../core/types.js';
+
+// Stores a value together with its capture time and, when a window is configured, its expiry
+export function writeAttribution(storage: IStorageManager, key: string, value: string, attributionWindow?: number): AttributionRecord {
+  const capturedAt = Date.now();
+  const record: AttributionRecord = { value, capturedAt };
+  if (attributionWindow !== undefined) {
+    record.expiresAt = capturedAt + attributionWindow;
+  }
+  storage.setItem(key, JSON.stringify(record));
+  return record;
+}
+
+/**
+ * Reads a stored attribution record. Expired records are removed, and raw values stored
+ * before records had timestamps are rewritten as if they were captured now.
+ */
+export function readAttribution(storage: IStorageManager, key: string, attributionWindow?: number): AttributionRecord | null {
+  const stored = storage.getItem(key);
+  if (!stored) return null;
+
+  const record = parseAttribution(stored) ?? writeAttribution(storage, key, stored, attributionWindow);
+
+  if (isExpired(record)) {
+    storage.setItem(key, '');
+    return null;
+  }
+
+  return record.value ? record : null;
+}
+
+export function isExpired(record: AttributionRecord): boolean {
+  return record.expiresAt !== undefined && record.expiresAt <= Date.now();
+}
+
+function parseAttribution(stored: string): AttributionRecord | null {
+  // Raw UTM query strings and referrer URLs never start with a brace
+  if (!stored.startsWith('{')) return null;
+
+  try {
+    const parsed = JSON.parse(stored);
+    return typeof parsed?.value === 'string' && typeof parsed.capturedAt === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+import type { ReferrerChannel, ReferrerData, ReferrerRule } from '../core/types.js';
+
+// Checked in order; webmail rules come first because e.g. mail.google.com also matches google.*
+export const DEFAULT_REFERRER_RULES: ReferrerRule[] = [
+  { channel: 'email', name: 'gmail', domains: ['mail.google.com', 'com.google.android.gm'] },
+  { channel: 'email', name: 'outlook', domains: ['outlook.live.com', 'outlook.office.com', 'outlook.office365.com'] },
+  { channel: 'email', name: 'yahoo-mail', domains: ['mail.yahoo.com'] },
+  { channel: 'email', name: 'proton-mail', domains: ['mail.proton.me'] },
+  { channel: 'search', name: 'google', domains: ['google.*'], keywordParam: 'q' },
+  { channel: 'search', name: 'bing', domains: ['bing.com'], keywordParam: 'q' },
+  { channel: 'search', name: 'yahoo', domains: ['search.yahoo.com'], keywordParam: 'p' },
+  { channel: 'search', name: 'duckduckgo', domains: ['duckduckgo.com'], keywordParam: 'q' },
+  { channel: 'search', name: 'baidu', domains: ['baidu.com'], keywordParam: 'wd' },
+  { channel: 'search', name: 'yandex', domains: ['yandex.*'], keywordParam: 'text' },
+  { channel: 'search', name: 'ecosia', domains: ['ecosia.org'], keywordParam: 'q' },
+  { channel: 'search', name: 'brave', domains: ['search.brave.com'], keywordParam: 'q' },
+  { channel: 'social', name: 'facebook', domains: ['facebook.com', 'fb.com'] },
+  { channel: 'social', name: 'instagram', domains: ['instagram.com'] },
+  { channel: 'social', name: 'x', domains: ['x.com', 'twitter.com', 't.co'] },
+  { channel: 'social', name: 'linkedin', domains: ['linkedin.com', 'lnkd.in'] },
+  { channel: 'social', name: 'pinterest', domains: ['pinterest.com'] },
+  { channel: 'social', name: 'reddit', domains: ['reddit.com'] },
+  { channel: 'social', name: 'youtube', domains: ['youtube.com'] },
+  { channel: 'social', name: 'tiktok', domains: ['tiktok.com'] },
+  { channel: 'social', name: 'threads', domains: ['threads.net'] }
+];
+
+export interface ReferrerClassificationOptions {
+  rules: ReferrerRule[];
+  internalDomains: string[];
+}
+
+/**
+ * Parses a referrer URL into its domain, channel and, for search engines, the engine
+ * and keyword. Referrers that are not valid URLs are plain referrals.
+ */
+export function classifyReferrer(referrer: string, options: ReferrerClassificationOptions): ReferrerData {
+  let url: URL;
+  try {
+    url = new URL(referrer);
+  } catch {
+    return { url: referrer, channel: 'referral' };
+  }
+
+  const host = url.hostname.toLowerCase();
+  const domain = host.replace(/^www\./, '');
+
+  if (options.internalDomains.some(internalDomain => matchesDomain(host, internalDomain))) {
+    return { url: referrer, domain, channel: 'internal' };
+  }
+
+  const rule = options.rules.find(candidate => candidate.domains.some(pattern => matchesDomain(host, pattern)));
+  if (!rule) {
+    return { url: referrer, domain, channel: 'referral' };
+  }
+
+  const classified: ReferrerData = { url: referrer, domain, channel: rule.channel };
+  if (rule.channel === 'search' && rule.name) {
+    classified.searchEngine = rule.name;
+  }
+  // Most search engines no longer pass the keyword, so it is only set when present
+  const keyword = rule.keywordParam ? url.searchParams.get(rule.keywordParam) : null;
+  if (keyword) {
+    classified.keyword = keyword;
+  }
+
+  return classified;
+}
+
+function matchesDomain(host: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase().replace(/^\./, '');
+
+  if (normalized.endsWith('.*')) {
+    // Name followed by a country domain, e.g. google.de, google.co.uk or google.com.au
+    const name = normalized.slice(0, -2).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|\\.)${name}(\\.[a-z]{2,3})?\\.[a-z]{2,}$`).test(host);
+  }
+
+  return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+/**
+ * Serializes the classification as a structured header dictionary (RFC 8941), e.g.
+ * `channel=search, domain="google.com", search-engine="google", keyword="running shoes"`.
+ */
+export function serializeClassification(channel: ReferrerChannel, referrer?: ReferrerData): string {
+  const members = [`channel=${channel}`];
+
+  if (referrer?.domain) members.push(`domain=${serializeString(referrer.domain)}`);
+  if (referrer?.searchEngine) members.push(`search-engine=${serializeString(referrer.searchEngine)}`);
+  if (referrer?.keyword) members.push(`keyword=${serializeString(referrer.keyword)}`);
+
+  return members.join(', ');
+}
+
+// Structured field strings only allow printable ASCII, so other characters are percent-encoded
+function serializeString(value: string): string {
+  const printable = value.replace(/[^\x20-\x7E]/gu, character => encodeURIComponent(character));
+  return `"${printable.replace(/[\\"]/g, '\\$&')}"`;
+}